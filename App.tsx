@@ -1,25 +1,174 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import InputSection from './components/InputSection';
 import PreviewCard from './components/PreviewCard';
 import GuideModal from './components/GuideModal';
-import { extractArtifacts } from './utils/parser';
-import { Artifact, ProcessingState } from './types';
+import SizeSelector from './components/SizeSelector';
+import ExportSettingsPanel from './components/ExportSettingsPanel';
+import RenderSettingsPanel from './components/RenderSettingsPanel';
+import HistoryPanel from './components/HistoryPanel';
+import CardViewer from './components/CardViewer';
+import DataMergeModal from './components/DataMergeModal';
+import BrandKitPanel from './components/BrandKitPanel';
+import ModelSettingsModal from './components/ModelSettingsModal';
+import PromptTemplatesModal from './components/PromptTemplatesModal';
+import LintSummaryModal from './components/LintSummaryModal';
+import SafeZonePanel from './components/SafeZonePanel';
+import { DEFAULT_SPLIT_OPTIONS, extractArtifacts, looksLikeHtml, mergeArtifacts, splitArtifact, toFullHtml } from './utils/parser';
+import { formatFileName } from './utils/fileNames';
+import { ArtifactGenerator, getRefinePrompt } from './services/generator';
+import { createGenerator } from './services/llmProviders';
+import { createZipArchive, dataUrlToBase64, getUniquePath, ZipFile, ZipManifestItem } from './utils/zipExport';
+import { createPdfDocument, PdfPage } from './utils/pdfExport';
+import { AssetFetcher, FailedAsset, formatFailedAssets, inlineAssets, InlineAssetsResult } from './utils/inlineAssets';
+import { DEFAULT_SIZE } from './utils/sizePresets';
+import { DEFAULT_EXPORT_SETTINGS } from './utils/exportSettings';
+import { DEFAULT_RENDER_SETTINGS } from './utils/renderSettings';
+import { captureThumbnail } from './utils/cardFrame';
+import { DataRow, expandTemplate } from './utils/templateData';
+import { addVersion, selectVersion } from './utils/cardVersions';
+import { applyBrandKit, DEFAULT_BRAND_KIT } from './utils/brandKit';
+import { getProviderInfo, normalizeLlmSettings } from './utils/llmSettings';
+import { DEFAULT_PROMPT_SELECTION, fillPromptTemplate, getSavedTemplates, mergeTemplates } from './utils/promptTemplates';
+import { DEFAULT_SAFE_ZONE_SETTINGS, normalizeSafeZoneSettings } from './utils/safeZones';
+import { createSessionId, deleteSession, duplicateSession, getLatestSession, getSessionName, isSameSource, listSessions, renameSession, saveSession } from './utils/sessionStore';
+import { Artifact, BrandKit, ExportSettings, GeneratedImage, InputMode, LintIssue, LlmSettings, OutputSize, ProcessingState, PromptSelection, PromptTemplate, RenderSettings, SafeZoneSettings, Session, SessionSettings, SplitOptions } from './types';
 import { translations, Language } from './utils/translations';
 
-const App: React.FC = () => {
+interface AppProps {
+  generator?: ArtifactGenerator; // Injectable so the UI can run against a fake generation service; defaults to the provider in model settings
+  assetFetcher?: AssetFetcher; // Used by self-contained HTML export; defaults to window.fetch
+}
+
+// Timestamped name for bundled downloads, e.g. cards_20250101120000.zip
+const getBundleName = (extension: string) => {
+  return `cards_${new Date().toISOString().slice(0, 19).replace(/[-:T]/g, '')}.${extension}`;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Bulk exports that are held back for the readability summary
+type BatchDownload = 'images' | 'pdf' | 'html';
+
+// The split rule is remembered for the browser session, not across sessions
+const SPLIT_OPTIONS_KEY = 'cardgen.splitOptions';
+
+const loadSplitOptions = (): SplitOptions => {
+  try {
+    const stored = sessionStorage.getItem(SPLIT_OPTIONS_KEY);
+    return stored ? { ...DEFAULT_SPLIT_OPTIONS, ...JSON.parse(stored) } : DEFAULT_SPLIT_OPTIONS;
+  } catch {
+    return DEFAULT_SPLIT_OPTIONS;
+  }
+};
+
+// The brand kit is a workspace preference, so it outlives browser sessions
+const BRAND_KIT_KEY = 'cardgen.brandKit';
+
+const loadBrandKit = (): BrandKit => {
+  try {
+    const stored = localStorage.getItem(BRAND_KIT_KEY);
+    return stored ? { ...DEFAULT_BRAND_KIT, ...JSON.parse(stored) } : DEFAULT_BRAND_KIT;
+  } catch {
+    return DEFAULT_BRAND_KIT;
+  }
+};
+
+// Target platform for the safe-zone overlays and placement check
+const SAFE_ZONE_KEY = 'cardgen.safeZone';
+
+const loadSafeZoneSettings = (): SafeZoneSettings => {
+  try {
+    const stored = localStorage.getItem(SAFE_ZONE_KEY);
+    return stored ? normalizeSafeZoneSettings(JSON.parse(stored)) : DEFAULT_SAFE_ZONE_SETTINGS;
+  } catch {
+    return DEFAULT_SAFE_ZONE_SETTINGS;
+  }
+};
+
+// Provider, model and the user's own API keys; kept in this browser rather than compiled into the bundle
+const LLM_SETTINGS_KEY = 'cardgen.llmSettings';
+
+const loadLlmSettings = (): LlmSettings => {
+  try {
+    const stored = localStorage.getItem(LLM_SETTINGS_KEY);
+    return normalizeLlmSettings(stored ? JSON.parse(stored) : null);
+  } catch {
+    return normalizeLlmSettings(null);
+  }
+};
+
+// The template library only stores user templates and edited built-ins; the picked template and its variables travel with it
+const PROMPT_TEMPLATES_KEY = 'cardgen.promptTemplates';
+const PROMPT_SELECTION_KEY = 'cardgen.promptSelection';
+
+const loadPromptTemplates = (): PromptTemplate[] => {
+  try {
+    const stored = localStorage.getItem(PROMPT_TEMPLATES_KEY);
+    return mergeTemplates(stored ? JSON.parse(stored) : []);
+  } catch {
+    return mergeTemplates([]);
+  }
+};
+
+const loadPromptSelection = (): PromptSelection => {
+  try {
+    const stored = localStorage.getItem(PROMPT_SELECTION_KEY);
+    if (!stored) return DEFAULT_PROMPT_SELECTION;
+    const parsed = JSON.parse(stored);
+    return { ...DEFAULT_PROMPT_SELECTION, ...parsed, variables: { ...DEFAULT_PROMPT_SELECTION.variables, ...parsed.variables } };
+  } catch {
+    return DEFAULT_PROMPT_SELECTION;
+  }
+};
+
+const App: React.FC<AppProps> = ({ generator, assetFetcher }) => {
   const [artifacts, setArtifacts] = useState<Artifact[]>([]);
   const [procState, setProcState] = useState<ProcessingState>({ status: 'idle' });
   const [isDownloading, setIsDownloading] = useState(false);
   const [useNumbering, setUseNumbering] = useState(true);
+  const [includeHtmlInZip, setIncludeHtmlInZip] = useState(false);
+  const [selfContainedHtml, setSelfContainedHtml] = useState(false);
+  const [sessionSize, setSessionSize] = useState<OutputSize>(DEFAULT_SIZE);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [renderSettings, setRenderSettings] = useState<RenderSettings>(DEFAULT_RENDER_SETTINGS);
+  const [splitOptions, setSplitOptions] = useState<SplitOptions>(loadSplitOptions);
+  const [brandKit, setBrandKit] = useState<BrandKit>(loadBrandKit);
+  const [safeZone, setSafeZone] = useState<SafeZoneSettings>(loadSafeZoneSettings);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  const [isModelSettingsOpen, setIsModelSettingsOpen] = useState(false);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>(loadPromptTemplates);
+  const [promptSelection, setPromptSelection] = useState<PromptSelection>(loadPromptSelection);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [lintResults, setLintResults] = useState<Record<string, LintIssue[] | null>>({});
+  const [pendingDownload, setPendingDownload] = useState<BatchDownload | null>(null);
   const [lang, setLang] = useState<Language>('en');
   const [isGuideOpen, setIsGuideOpen] = useState(false);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState<string | null>(null);
+  const [dragState, setDragState] = useState<{ id: string, overIndex: number | null } | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+  // Latest input panel text for autosave, and the text to seed it with when a session is reopened
+  const [input, setInput] = useState<{ text: string, mode: InputMode }>({ text: '', mode: 'auto' });
+  const [restoredInput, setRestoredInput] = useState({ key: 'initial', text: '', mode: 'auto' as InputMode });
 
   const t = translations[lang];
 
   // Registry for child components' download functions
-  const downloadHandlers = useRef<Map<string, () => Promise<{ name: string, dataUrl: string } | null>>>(new Map());
+  const downloadHandlers = useRef<Map<string, () => Promise<GeneratedImage | null>>>(new Map());
 
-  const registerDownloadHandler = (id: string, fn: () => Promise<{ name: string, dataUrl: string } | null>) => {
+  const registerDownloadHandler = (id: string, fn: () => Promise<GeneratedImage | null>) => {
     downloadHandlers.current.set(id, fn);
   };
 
@@ -27,7 +176,337 @@ const App: React.FC = () => {
     downloadHandlers.current.delete(id);
   };
 
-  const processInput = async (inputText: string) => {
+  // Embed remote images, fonts and stylesheets when the self-contained option is on
+  const prepareHtmlExport = async (html: string): Promise<InlineAssetsResult> => {
+    if (!selfContainedHtml) return { html, failed: [] };
+    return inlineAssets(html, { fetcher: assetFetcher });
+  };
+
+  const reportFailedAssets = (failed: FailedAsset[]) => {
+    const unique = failed.filter((f, i) => failed.findIndex(o => o.url === f.url) === i);
+    if (unique.length > 0) {
+      alert(`${t.resultsSection.failedAssets}\n${formatFailedAssets(unique)}`);
+    }
+  };
+
+  const handleArtifactSizeChange = (id: string, size: OutputSize | undefined) => {
+    setArtifacts(prev => prev.map(a => a.id === id ? { ...a, size } : a));
+  };
+
+  const handleArtifactTitleChange = (id: string, title: string) => {
+    setArtifacts(prev => prev.map(a => a.id === id ? { ...a, title } : a));
+  };
+
+  // Every download path names its files through the export template, in the user's card order
+  const getFileName = (artifact: Artifact, index: number, extension: string) => {
+    const size = artifact.size ?? sessionSize;
+    const name = formatFileName(exportSettings.fileNameTemplate, {
+      index: useNumbering ? index + 1 : null,
+      total: artifacts.length,
+      title: artifact.title,
+      width: size.width,
+      height: size.height,
+      set: sessionMetaRef.current.name ?? getSessionName({ input: input.text, artifacts }),
+      fields: artifact.fields
+    });
+    return `${name}.${extension}`;
+  };
+
+  const handleArtifactCodeChange = (id: string, code: string) => {
+    setArtifacts(prev => prev.map(a => a.id === id ? { ...a, code } : a));
+  };
+
+  const handleDuplicateArtifact = (id: string) => {
+    // Random suffix so two copies made within the same millisecond (a double-click) still get distinct ids
+    const copyId = `artifact-copy-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    setArtifacts(prev => prev.flatMap(a => a.id === id
+      ? [a, { ...a, id: copyId, title: `${a.title} ${t.previewCard.copySuffix}` }]
+      : [a]));
+  };
+
+  const handleDeleteArtifact = (id: string) => {
+    setArtifacts(prev => prev.filter(a => a.id !== id));
+  };
+
+  // Move the dragged card into the slot of the card it was dropped on
+  const handleMoveArtifact = (id: string, toIndex: number) => {
+    setArtifacts(prev => {
+      const fromIndex = prev.findIndex(a => a.id === id);
+      if (fromIndex < 0 || fromIndex === toIndex) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(toIndex, 0, moved);
+      return next;
+    });
+  };
+
+  const handleSplitArtifact = (id: string) => {
+    const artifact = artifacts.find(a => a.id === id);
+    if (!artifact) return;
+    const parts = splitArtifact(artifact);
+    if (parts.length < 2) {
+      alert(t.previewCard.cannotSplit);
+      return;
+    }
+    setArtifacts(prev => prev.flatMap(a => a.id === id ? parts : [a]));
+  };
+
+  const handleMergeWithNext = (id: string) => {
+    setArtifacts(prev => {
+      const index = prev.findIndex(a => a.id === id);
+      if (index < 0 || index >= prev.length - 1) return prev;
+      const merged = mergeArtifacts(prev[index], prev[index + 1]);
+      return [...prev.slice(0, index), merged, ...prev.slice(index + 2)];
+    });
+  };
+
+  // Replace a template card with one filled-in card per data row, in place
+  const handleFillTemplate = (id: string, rows: DataRow[], titleTemplate: string) => {
+    setArtifacts(prev => prev.flatMap(a => a.id === id ? expandTemplate(a, rows, titleTemplate) : [a]));
+    setMergeTargetId(null);
+  };
+
+  // Remember the last request so a failed generation can be retried as-is
+  const lastRequestRef = useRef<{ text: string, mode: InputMode } | null>(null);
+  // Source the current cards were extracted from, so a new split rule applies without regenerating
+  const lastSourceRef = useRef<string | null>(null);
+  // The cards exactly as last extracted; any edit replaces the array, so a different one means the user changed something
+  const extractedArtifactsRef = useRef<Artifact[] | null>(null);
+  // Bumped by every new request, so a generation that is still streaming can tell it has been superseded
+  const generationRef = useRef(0);
+
+  // --- Session persistence ---
+  // name stays null until the user renames the session, so it follows the first card's title
+  const sessionMetaRef = useRef<{ createdAt: number, name: string | null }>({ createdAt: Date.now(), name: null });
+  const lastSavedRef = useRef('');
+  const thumbnailRef = useRef<{ key: string, dataUrl?: string }>({ key: '' });
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Input the current session was last processed from, to tell an edit from a new source
+  const sessionInputRef = useRef<string | null>(null);
+
+  const currentSettings: SessionSettings = { lang, useNumbering, includeHtmlInZip, selfContainedHtml, sessionSize, exportSettings, renderSettings };
+
+  const getSnapshot = () => JSON.stringify({ input, source: lastSourceRef.current, artifacts, settings: currentSettings });
+
+  const startNewSession = () => {
+    const id = createSessionId();
+    sessionMetaRef.current = { createdAt: Date.now(), name: null };
+    setSessionId(id);
+    return id;
+  };
+
+  const getThumbnailKey = (first: Artifact | undefined, size: OutputSize) => first ? `${first.code}|${(first.size ?? size).width}x${(first.size ?? size).height}` : '';
+
+  // Saves are queued so a slow thumbnail capture can't let an older snapshot overwrite a newer one
+  const persistSession = (id: string) => {
+    const snapshot = getSnapshot();
+    const first = artifacts[0];
+    const thumbnailKey = getThumbnailKey(first, sessionSize);
+    const canCapture = procState.status !== 'generating';
+    const session: Omit<Session, 'thumbnail'> = {
+      id,
+      name: sessionMetaRef.current.name ?? getSessionName({ input: input.text, artifacts }),
+      createdAt: sessionMetaRef.current.createdAt,
+      updatedAt: Date.now(),
+      input: input.text,
+      inputMode: input.mode,
+      source: lastSourceRef.current,
+      artifacts,
+      settings: currentSettings
+    };
+    lastSavedRef.current = snapshot;
+
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      if (thumbnailRef.current.key !== thumbnailKey && canCapture) {
+        const dataUrl = first
+          ? await captureThumbnail(applyBrandKit(toFullHtml(first, '#fff'), brandKit), first.size ?? sessionSize, renderSettings).catch(() => undefined)
+          : undefined;
+        thumbnailRef.current = { key: thumbnailKey, dataUrl };
+      }
+      await saveSession({ ...session, thumbnail: thumbnailRef.current.dataUrl });
+    });
+    return saveQueueRef.current;
+  };
+
+  // Autosave shortly after anything worth restoring changes
+  useEffect(() => {
+    if (isRestoring || !sessionId || getSnapshot() === lastSavedRef.current) return;
+    const timer = setTimeout(() => persistSession(sessionId), 1000);
+    return () => clearTimeout(timer);
+  }, [isRestoring, sessionId, input, artifacts, lang, useNumbering, includeHtmlInZip, selfContainedHtml, sessionSize, exportSettings, renderSettings]);
+
+  const restoreSession = (session: Session | null) => {
+    downloadHandlers.current.clear();
+    generationRef.current++;
+    lastRequestRef.current = null;
+    lastSourceRef.current = session?.source ?? null;
+    sessionInputRef.current = session?.input ?? null;
+    // A saved session may hold edits we can no longer tell apart, so re-splitting it always asks first
+    extractedArtifactsRef.current = null;
+
+    const settings = session?.settings;
+    if (settings) {
+      setLang(settings.lang);
+      setUseNumbering(settings.useNumbering);
+      setIncludeHtmlInZip(settings.includeHtmlInZip);
+      setSelfContainedHtml(settings.selfContainedHtml);
+      setSessionSize(settings.sessionSize);
+      // Sessions saved before a setting existed fall back to its default
+      setExportSettings({ ...DEFAULT_EXPORT_SETTINGS, ...settings.exportSettings });
+      setRenderSettings(settings.renderSettings);
+    }
+
+    const restored = { text: session?.input ?? '', mode: session?.inputMode ?? 'auto' };
+    setInput(restored);
+    setRestoredInput({ key: `${session?.id ?? 'new'}-${Date.now()}`, ...restored });
+    setArtifacts(session?.artifacts ?? []);
+    setProcState({ status: session && session.artifacts.length > 0 ? 'complete' : 'idle' });
+    setSessionId(session?.id ?? null);
+
+    sessionMetaRef.current = { createdAt: session?.createdAt ?? Date.now(), name: session?.name ?? null };
+    thumbnailRef.current = session
+      ? { key: getThumbnailKey(session.artifacts[0], settings?.sessionSize ?? sessionSize), dataUrl: session.thumbnail }
+      : { key: '' };
+    lastSavedRef.current = session
+      ? JSON.stringify({ input: restored, source: session.source, artifacts: session.artifacts, settings: session.settings })
+      : '';
+  };
+
+  // Reopen the most recent session on load
+  useEffect(() => {
+    getLatestSession()
+      .then(session => { if (session) restoreSession(session); })
+      .finally(() => setIsRestoring(false));
+  }, []);
+
+  const handleInputChange = (text: string, mode: InputMode) => {
+    setInput({ text, mode });
+    // Typed-but-unprocessed input (e.g. a prompt) is worth keeping too
+    if (!sessionId && text.trim() && !isRestoring) startNewSession();
+  };
+
+  const refreshSessions = () => listSessions().then(setSessions);
+
+  const handleOpenHistory = async () => {
+    if (sessionId && getSnapshot() !== lastSavedRef.current) await persistSession(sessionId);
+    await refreshSessions();
+    setIsHistoryOpen(true);
+  };
+
+  const handleOpenSession = (session: Session) => {
+    restoreSession(session);
+    setIsHistoryOpen(false);
+  };
+
+  const handleNewSession = () => {
+    restoreSession(null);
+    setIsHistoryOpen(false);
+  };
+
+  const handleRenameSession = async (id: string, name: string) => {
+    if (id === sessionId) sessionMetaRef.current.name = name;
+    await renameSession(id, name);
+    await refreshSessions();
+  };
+
+  const handleDuplicateSession = async (session: Session) => {
+    await duplicateSession(session, `${session.name} ${t.history.copySuffix}`);
+    await refreshSessions();
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    await deleteSession(id);
+    if (id === sessionId) restoreSession(null);
+    await refreshSessions();
+  };
+
+  const handleSplitOptionsChange = (options: SplitOptions) => {
+    if (options.mode === splitOptions.mode && options.selector === splitOptions.selector) return;
+    const canResplit = !!lastSourceRef.current && procState.status === 'complete';
+    if (canResplit && artifacts !== extractedArtifactsRef.current && !confirm(t.inputSection.confirmResplit)) return;
+
+    setSplitOptions(options);
+    try {
+      sessionStorage.setItem(SPLIT_OPTIONS_KEY, JSON.stringify(options));
+    } catch {
+      // Storage can be unavailable (private mode); the rule then only lasts until reload
+    }
+
+    if (canResplit) {
+      const extracted = extractArtifacts(lastSourceRef.current!, options);
+      if (extracted.length > 0) {
+        extractedArtifactsRef.current = extracted;
+        setArtifacts(extracted);
+      }
+    }
+  };
+
+  const handleLlmSettingsSave = (settings: LlmSettings) => {
+    setLlmSettings(settings);
+    setIsModelSettingsOpen(false);
+    try {
+      localStorage.setItem(LLM_SETTINGS_KEY, JSON.stringify(settings));
+    } catch {
+      // Private mode: the settings last until reload
+    }
+  };
+
+  const handlePromptSelectionChange = (selection: PromptSelection) => {
+    setPromptSelection(selection);
+    try {
+      localStorage.setItem(PROMPT_SELECTION_KEY, JSON.stringify(selection));
+    } catch {
+      // Private mode: the choice lasts until reload
+    }
+  };
+
+  const handleTemplatesSave = (templates: PromptTemplate[], selectedId: string | null) => {
+    setPromptTemplates(templates);
+    setIsTemplatesOpen(false);
+    try {
+      localStorage.setItem(PROMPT_TEMPLATES_KEY, JSON.stringify(getSavedTemplates(templates)));
+    } catch {
+      // Quota or private mode: the edits last until reload
+    }
+
+    // Keep the current pick unless another was chosen or it was deleted
+    const templateId = selectedId ?? (templates.some(tp => tp.id === promptSelection.templateId) ? promptSelection.templateId : null);
+    if (templateId !== promptSelection.templateId) handlePromptSelectionChange({ ...promptSelection, templateId });
+  };
+
+  const handleBrandKitChange = (kit: BrandKit) => {
+    setBrandKit(kit);
+    try {
+      localStorage.setItem(BRAND_KIT_KEY, JSON.stringify(kit));
+    } catch {
+      // Quota or private mode: the kit still applies until reload
+    }
+  };
+
+  const handleSafeZoneChange = (settings: SafeZoneSettings) => {
+    setSafeZone(settings);
+    try {
+      localStorage.setItem(SAFE_ZONE_KEY, JSON.stringify(settings));
+    } catch {
+      // Private mode: the choice lasts until reload
+    }
+  };
+
+  const processInput = async (inputText: string, mode: InputMode = 'auto', auto = false) => {
+    lastRequestRef.current = { text: inputText, mode };
+    generationRef.current++;
+    // Submitting or pasting something else starts a new history entry; auto-processing an edit
+    // updates the current one in place, and an empty session is always reused
+    const isEdit = auto && sessionInputRef.current !== null && isSameSource(sessionInputRef.current, inputText);
+    if (!sessionId || (artifacts.length > 0 && !isEdit)) startNewSession();
+    sessionInputRef.current = inputText;
+    const resolvedMode = mode === 'auto' ? (looksLikeHtml(inputText) ? 'html' : 'prompt') : mode;
+
+    if (resolvedMode === 'prompt') {
+      await generateFromPrompt(inputText);
+      return;
+    }
+
     setProcState({ status: 'analyzing' });
     setArtifacts([]);
     downloadHandlers.current.clear();
@@ -36,13 +515,15 @@ const App: React.FC = () => {
       // Short delay to allow UI to update to 'analyzing' state before heavy parsing if text is huge
       await new Promise(resolve => setTimeout(resolve, 100));
 
-      const extracted = extractArtifacts(inputText);
+      const extracted = extractArtifacts(inputText, splitOptions);
+      lastSourceRef.current = inputText;
 
       if (extracted.length === 0) {
         setProcState({ status: 'error', message: 'No valid HTML/CSS content found in the input.' });
         return;
       }
 
+      extractedArtifactsRef.current = extracted;
       setArtifacts(extracted);
       setProcState({ status: 'complete' });
 
@@ -52,33 +533,154 @@ const App: React.FC = () => {
     }
   };
 
+  // The injected generator, or one for the provider in model settings; null (with the settings opened) while its key is missing
+  const getGenerator = (): ArtifactGenerator | null => {
+    if (generator) return generator;
+    const provider = llmSettings.providers[llmSettings.provider];
+    if (getProviderInfo(llmSettings.provider).needsKey && !provider.apiKey.trim()) {
+      setIsModelSettingsOpen(true);
+      return null;
+    }
+    return createGenerator(llmSettings);
+  };
+
+  const getStyleGuide = () => {
+    const template = promptTemplates.find(tp => tp.id === promptSelection.templateId);
+    return template ? fillPromptTemplate(template.instruction, promptSelection.variables, sessionSize) : undefined;
+  };
+
+  const generateFromPrompt = async (prompt: string) => {
+    const activeGenerator = getGenerator();
+    if (!activeGenerator) {
+      setProcState({ status: 'error', message: t.modelSettings.missingKey });
+      return;
+    }
+
+    const generation = generationRef.current;
+    const isSuperseded = () => generation !== generationRef.current;
+    // One id seed per generation keeps the cards already received mounted as later blocks arrive
+    const idSeed = Date.now();
+
+    setProcState({ status: 'generating', message: t.status.generating });
+    setArtifacts([]);
+    downloadHandlers.current.clear();
+
+    try {
+      let completedBlocks = 0;
+
+      // Re-extract only when a new ```html block has been closed, so finished cards appear while the rest streams in
+      const markdown = await activeGenerator(prompt, (text) => {
+        if (isSuperseded()) return;
+        const blockCount = (text.match(/```html[\s\S]*?```/gi) || []).length;
+        if (blockCount > completedBlocks) {
+          completedBlocks = blockCount;
+          setArtifacts(extractArtifacts(text, splitOptions, idSeed));
+          setProcState({ status: 'generating', message: `${t.status.generating} (${blockCount} ${t.status.cardsReceived})` });
+        }
+      }, { brandKit, styleGuide: getStyleGuide(), size: sessionSize });
+      if (isSuperseded()) return;
+
+      const extracted = extractArtifacts(markdown, splitOptions, idSeed);
+      lastSourceRef.current = markdown;
+      if (extracted.length === 0) {
+        setArtifacts([]);
+        setProcState({ status: 'error', message: t.status.noCardsGenerated });
+        return;
+      }
+
+      extractedArtifactsRef.current = extracted;
+      setArtifacts(extracted);
+      setProcState({ status: 'complete' });
+
+    } catch (error) {
+      if (isSuperseded()) return;
+      console.error(error);
+      const detail = error instanceof Error ? error.message : String(error);
+      setProcState({ status: 'error', message: `${t.status.generationFailed} ${detail}` });
+    }
+  };
+
+  // Ask the model for a new variant of one card; throws so the card can show what went wrong
+  const handleRefineArtifact = async (id: string, instruction: string) => {
+    const artifact = artifacts.find(a => a.id === id);
+    if (!artifact) return;
+    const activeGenerator = getGenerator();
+    if (!activeGenerator) throw new Error(t.modelSettings.missingKey);
+
+    const markdown = await activeGenerator(getRefinePrompt(artifact.code, instruction), undefined, { brandKit, size: artifact.size ?? sessionSize });
+    const [refined] = extractArtifacts(markdown, { mode: 'never', selector: '' });
+    if (!refined) throw new Error(t.status.noCardsGenerated);
+    setArtifacts(prev => prev.map(a => a.id === id ? addVersion(a, refined.code, instruction.trim()) : a));
+  };
+
+  const handleSelectVersion = (id: string, index: number) => {
+    setArtifacts(prev => prev.map(a => a.id === id ? selectVersion(a, index) : a));
+  };
+
+  const handleRetry = () => {
+    if (lastRequestRef.current) {
+      processInput(lastRequestRef.current.text, lastRequestRef.current.mode);
+    }
+  };
+
   const handleDownloadAllImages = async () => {
     if (artifacts.length === 0) return;
 
     setIsDownloading(true);
     try {
+      const files: ZipFile[] = [];
+      const items: ZipManifestItem[] = [];
+      const usedPaths = new Set<string>();
+      const failedAssets: FailedAsset[] = [];
       let count = 0;
 
       for (let i = 0; i < artifacts.length; i++) {
         const artifact = artifacts[i];
         const handler = downloadHandlers.current.get(artifact.id);
-        if (handler) {
-          const result = await handler();
-          if (result) {
-            const prefix = useNumbering ? `${String(i + 1).padStart(2, '0')}_` : '';
-            const link = document.createElement('a');
-            link.download = `${prefix}${result.name}.jpg`;
-            link.href = result.dataUrl;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-            count++;
-          }
-          await new Promise(r => setTimeout(r, 800));
+        const result = handler ? await handler() : null;
+
+        let imagePath: string | null = null;
+        if (result) {
+          imagePath = getUniquePath(getFileName(artifact, i, result.extension), usedPaths);
+          usedPaths.add(imagePath);
+          files.push({ path: imagePath, content: dataUrlToBase64(result.dataUrl), base64: true });
+          count++;
+        }
+
+        let htmlPath: string | null = null;
+        if (includeHtmlInZip) {
+          htmlPath = getUniquePath(getFileName(artifact, i, 'html'), usedPaths);
+          usedPaths.add(htmlPath);
+          const exported = await prepareHtmlExport(applyBrandKit(toFullHtml(artifact), brandKit));
+          failedAssets.push(...exported.failed);
+          files.push({ path: htmlPath, content: exported.html });
         }
+
+        items.push({
+          index: i + 1,
+          title: artifact.title,
+          image: imagePath,
+          html: htmlPath,
+          width: result ? result.width : null,
+          height: result ? result.height : null,
+          sourceIndex: artifact.sourceIndex ?? null,
+          failedResources: result?.readiness?.failed ?? []
+        });
+      }
+
+      if (count === 0) {
+        alert("No images were successfully generated.");
+        return;
       }
 
-      if (count === 0) alert("No images were successfully generated.");
+      const blob = await createZipArchive(files, {
+        generatedAt: new Date().toISOString(),
+        count: items.length,
+        items
+      });
+
+      downloadBlob(blob, getBundleName('zip'));
+      reportFailedAssets(failedAssets);
     } catch (e) {
       console.error("Batch download error", e);
       alert("An error occurred during batch download.");
@@ -87,34 +689,63 @@ const App: React.FC = () => {
     }
   };
 
+  const handleDownloadPdf = async () => {
+    if (artifacts.length === 0) return;
+
+    setIsDownloading(true);
+    try {
+      const pages: PdfPage[] = [];
+
+      for (let i = 0; i < artifacts.length; i++) {
+        const artifact = artifacts[i];
+        const handler = downloadHandlers.current.get(artifact.id);
+        const result = handler ? await handler() : null;
+        if (result) {
+          const number = String(i + 1).padStart(2, '0');
+          pages.push({
+            title: useNumbering ? `${number}. ${artifact.title}` : artifact.title,
+            image: result,
+            size: artifact.size ?? sessionSize
+          });
+        }
+      }
+
+      if (pages.length === 0) {
+        alert("No images were successfully generated.");
+        return;
+      }
+
+      const blob = createPdfDocument(pages, t.title);
+      downloadBlob(blob, getBundleName('pdf'));
+    } catch (e) {
+      console.error("PDF export error", e);
+      alert("An error occurred during PDF export.");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
   const handleDownloadAllHtml = async () => {
     if (artifacts.length === 0) return;
     setIsDownloading(true);
 
     try {
+      const failedAssets: FailedAsset[] = [];
+      const usedPaths = new Set<string>();
+
       for (let i = 0; i < artifacts.length; i++) {
         const artifact = artifacts[i];
-        const prefix = useNumbering ? `${String(i + 1).padStart(2, '0')}_` : '';
-        const safeTitle = artifact.title.replace(/[\\/:*?"<>|]/g, '_').trim() || 'design';
-        const code = artifact.code.trim();
+        const fileName = getUniquePath(getFileName(artifact, i, 'html'), usedPaths);
+        usedPaths.add(fileName);
+        const exported = await prepareHtmlExport(applyBrandKit(toFullHtml(artifact), brandKit));
+        failedAssets.push(...exported.failed);
 
-        let fullHtml = code;
-        if (!code.match(/^\s*<!DOCTYPE/i) && !code.match(/^\s*<html/i)) {
-          fullHtml = `<!DOCTYPE html>\n<html lang="ko">\n<head>\n<meta charset="UTF-8">\n<title>${artifact.title}</title>\n</head>\n<body style="margin:0;padding:0;">\n${code}\n</body>\n</html>`;
-        }
-
-        const blob = new Blob([fullHtml], { type: 'text/html' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `${prefix}${safeTitle}.html`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
+        downloadBlob(new Blob([exported.html], { type: 'text/html' }), fileName);
 
         await new Promise(r => setTimeout(r, 300));
       }
+
+      reportFailedAssets(failedAssets);
     } catch (e) {
       console.error("Batch HTML download error", e);
     } finally {
@@ -122,6 +753,46 @@ const App: React.FC = () => {
     }
   };
 
+  const handleLintResult = (id: string, issues: LintIssue[] | null) => {
+    setLintResults(prev => ({ ...prev, [id]: issues }));
+  };
+
+  const runBatchDownload = (kind: BatchDownload) => {
+    if (kind === 'images') handleDownloadAllImages();
+    else if (kind === 'pdf') handleDownloadPdf();
+    else handleDownloadAllHtml();
+  };
+
+  const lintPending = artifacts.some(a => !lintResults[a.id]);
+  const lintFlagged = artifacts.some(a => (lintResults[a.id]?.length ?? 0) > 0);
+
+  // Batches with readability problems, or with checks still running, get a summary first; clean ones download straight away
+  const requestBatchDownload = (kind: BatchDownload) => {
+    if (lintPending || lintFlagged) setPendingDownload(kind);
+    else runBatchDownload(kind);
+  };
+
+  // A download that was only waiting on checks goes ahead once they all come back clean
+  useEffect(() => {
+    if (!pendingDownload || lintPending || lintFlagged) return;
+    setPendingDownload(null);
+    runBatchDownload(pendingDownload);
+  }, [pendingDownload, lintPending, lintFlagged]);
+
+  // Forget results for cards that were deleted or replaced by a re-extraction
+  useEffect(() => {
+    setLintResults(prev => {
+      const ids = new Set(artifacts.map(a => a.id));
+      const stale = Object.keys(prev).filter(id => !ids.has(id));
+      if (stale.length === 0) return prev;
+      const next = { ...prev };
+      stale.forEach(id => delete next[id]);
+      return next;
+    });
+  }, [artifacts]);
+
+  const mergeTarget = mergeTargetId ? artifacts.find(a => a.id === mergeTargetId) : undefined;
+
   return (
     <div className="flex flex-col h-screen bg-slate-50">
       <header className="bg-white border-b border-gray-200 px-4 md:px-6 py-4 flex flex-col md:flex-row items-center justify-between shrink-0 z-10 gap-4">
@@ -134,6 +805,22 @@ const App: React.FC = () => {
               <h1 className="text-xl font-bold text-slate-800 tracking-tight truncate">
                 {t.title}
               </h1>
+              <button
+                onClick={() => setIsModelSettingsOpen(true)}
+                className="text-sm bg-white border border-gray-300 text-gray-700 px-3 py-2 rounded-lg hover:bg-gray-50 transition-all flex-shrink-0 flex items-center gap-2 font-semibold"
+                title={`${getProviderInfo(llmSettings.provider).label} · ${llmSettings.providers[llmSettings.provider].model}`}
+              >
+                <i className="fa-solid fa-microchip"></i>
+                {t.modelSettings.button}
+              </button>
+              <BrandKitPanel kit={brandKit} onChange={handleBrandKitChange} lang={lang} />
+              <button
+                onClick={handleOpenHistory}
+                className="text-sm bg-white border border-gray-300 text-gray-700 px-3 py-2 rounded-lg hover:bg-gray-50 transition-all flex-shrink-0 flex items-center gap-2 font-semibold"
+              >
+                <i className="fa-solid fa-clock-rotate-left"></i>
+                {t.history.title}
+              </button>
               <button
                 onClick={() => setIsGuideOpen(true)}
                 className="text-sm bg-brand-600 text-white px-4 py-2 rounded-lg hover:bg-brand-700 hover:shadow-md transition-all flex-shrink-0 flex items-center gap-2 font-semibold"
@@ -167,14 +854,34 @@ const App: React.FC = () => {
       <main className="flex-1 flex overflow-hidden">
         <div className="w-1/3 min-w-[350px] max-w-[500px] p-4 flex flex-col h-full border-r border-gray-200 bg-white z-0">
           <InputSection
+            key={restoredInput.key}
+            initialText={restoredInput.text}
+            initialMode={restoredInput.mode}
+            onInputChange={handleInputChange}
             onProcess={processInput}
             isLoading={procState.status === 'analyzing' || procState.status === 'generating'}
+            splitOptions={splitOptions}
+            onSplitOptionsChange={handleSplitOptionsChange}
+            templates={promptTemplates}
+            promptSelection={promptSelection}
+            onPromptSelectionChange={handlePromptSelectionChange}
+            onManageTemplates={() => setIsTemplatesOpen(true)}
+            sessionSize={sessionSize}
+            onSessionSizeChange={setSessionSize}
             lang={lang}
           />
           {procState.status === 'error' && (
             <div className="mt-4 p-4 bg-red-50 text-red-600 rounded-lg border border-red-200 text-sm flex items-start gap-2">
               <i className="fa-solid fa-circle-exclamation mt-0.5"></i>
-              <span>{procState.message}</span>
+              <span className="flex-1">{procState.message}</span>
+              {lastRequestRef.current && (
+                <button
+                  onClick={handleRetry}
+                  className="text-xs bg-white border border-red-200 text-red-600 hover:bg-red-100 px-3 py-1.5 rounded-md transition-colors flex items-center gap-1.5 flex-shrink-0"
+                >
+                  <i className="fa-solid fa-rotate-right"></i> {t.status.retry}
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -187,7 +894,7 @@ const App: React.FC = () => {
             </div>
           )}
 
-          {(procState.status === 'analyzing' || procState.status === 'generating') && (
+          {(procState.status === 'analyzing' || procState.status === 'generating') && artifacts.length === 0 && (
             <div className="h-full flex flex-col items-center justify-center text-brand-600">
               <i className="fa-solid fa-circle-notch fa-spin text-5xl mb-6"></i>
               <p className="text-xl font-medium animate-pulse">{procState.message || t.inputSection.processing}</p>
@@ -197,10 +904,44 @@ const App: React.FC = () => {
           {artifacts.length > 0 && (
             <div className="max-w-7xl mx-auto">
               <div className="flex justify-between items-center mb-6 sticky top-0 z-20 bg-slate-100/90 backdrop-blur-sm py-4 border-b border-transparent">
-                <h2 className="text-2xl font-bold text-slate-800">
+                <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-3">
                   {t.resultsSection.title} <span className="text-slate-400 text-lg font-normal">({artifacts.length})</span>
+                  {procState.status === 'generating' && (
+                    <span className="text-sm font-medium text-brand-600 flex items-center gap-2">
+                      <i className="fa-solid fa-circle-notch fa-spin"></i>
+                      {procState.message}
+                    </span>
+                  )}
                 </h2>
                 <div className="flex items-center gap-4">
+                  {/* Session Output Size */}
+                  <SizeSelector
+                    value={sessionSize}
+                    onChange={(size) => size && setSessionSize(size)}
+                    lang={lang}
+                  />
+
+                  {/* Script Policy / Capture Readiness */}
+                  <RenderSettingsPanel
+                    settings={renderSettings}
+                    onChange={setRenderSettings}
+                    lang={lang}
+                  />
+
+                  {/* Platform safe zones */}
+                  <SafeZonePanel
+                    settings={safeZone}
+                    onChange={handleSafeZoneChange}
+                    lang={lang}
+                  />
+
+                  {/* Image Format / Quality / Scale */}
+                  <ExportSettingsPanel
+                    settings={exportSettings}
+                    onChange={setExportSettings}
+                    lang={lang}
+                  />
+
                   {/* Numbering Toggle */}
                   <label className="flex items-center gap-2 cursor-pointer bg-white border border-gray-200 px-3 py-2 rounded-lg shadow-sm hover:bg-gray-50 transition-colors">
                     <input
@@ -212,17 +953,47 @@ const App: React.FC = () => {
                     <span className="text-sm font-medium text-gray-600 select-none">{t.resultsSection.includeNumbering}</span>
                   </label>
 
+                  {/* Embed remote assets into exported HTML */}
+                  <label className="flex items-center gap-2 cursor-pointer bg-white border border-gray-200 px-3 py-2 rounded-lg shadow-sm hover:bg-gray-50 transition-colors">
+                    <input
+                      type="checkbox"
+                      checked={selfContainedHtml}
+                      onChange={(e) => setSelfContainedHtml(e.target.checked)}
+                      className="w-4 h-4 text-brand-600 rounded focus:ring-brand-500 cursor-pointer"
+                    />
+                    <span className="text-sm font-medium text-gray-600 select-none">{t.resultsSection.selfContainedHtml}</span>
+                  </label>
+
+                  {/* Include HTML files in the ZIP bundle */}
+                  <label className="flex items-center gap-2 cursor-pointer bg-white border border-gray-200 px-3 py-2 rounded-lg shadow-sm hover:bg-gray-50 transition-colors">
+                    <input
+                      type="checkbox"
+                      checked={includeHtmlInZip}
+                      onChange={(e) => setIncludeHtmlInZip(e.target.checked)}
+                      className="w-4 h-4 text-brand-600 rounded focus:ring-brand-500 cursor-pointer"
+                    />
+                    <span className="text-sm font-medium text-gray-600 select-none">{t.resultsSection.includeHtmlInZip}</span>
+                  </label>
+
                   <button
-                    onClick={handleDownloadAllHtml}
-                    disabled={isDownloading}
+                    onClick={() => requestBatchDownload('html')}
+                    disabled={isDownloading || procState.status === 'generating'}
                     className="bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 px-5 py-2.5 rounded-lg text-sm font-medium flex items-center gap-2 shadow-sm transition-all"
                   >
                     <i className="fa-brands fa-html5 text-orange-600"></i>
                     {t.resultsSection.downloadAllHtml}
                   </button>
                   <button
-                    onClick={handleDownloadAllImages}
-                    disabled={isDownloading}
+                    onClick={() => requestBatchDownload('pdf')}
+                    disabled={isDownloading || procState.status === 'generating'}
+                    className="bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 px-5 py-2.5 rounded-lg text-sm font-medium flex items-center gap-2 shadow-sm transition-all"
+                  >
+                    <i className="fa-solid fa-file-pdf text-red-600"></i>
+                    {t.resultsSection.downloadPdf}
+                  </button>
+                  <button
+                    onClick={() => requestBatchDownload('images')}
+                    disabled={isDownloading || procState.status === 'generating'}
                     className="bg-slate-800 text-white hover:bg-slate-700 px-5 py-2.5 rounded-lg text-sm font-medium flex items-center gap-2 shadow-sm transition-all"
                   >
                     {isDownloading ? <i className="fa-solid fa-circle-notch fa-spin"></i> : <i className="fa-solid fa-images"></i>}
@@ -233,17 +1004,52 @@ const App: React.FC = () => {
 
               <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8 pb-20">
                 {artifacts.map((artifact, index) => (
-                  <PreviewCard
+                  <div
                     key={artifact.id}
-                    artifact={artifact}
-                    index={index}
-                    useNumbering={useNumbering}
-                    onDownloadStart={() => setIsDownloading(true)}
-                    onDownloadEnd={() => setIsDownloading(false)}
-                    onRegister={registerDownloadHandler}
-                    onUnregister={unregisterDownloadHandler}
-                    lang={lang}
-                  />
+                    onDragOver={(e) => {
+                      if (!dragState) return;
+                      e.preventDefault();
+                      e.dataTransfer.dropEffect = 'move';
+                      if (dragState.overIndex !== index) setDragState({ ...dragState, overIndex: index });
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      if (dragState) handleMoveArtifact(dragState.id, index);
+                      setDragState(null);
+                    }}
+                    className={`rounded-xl transition-all ${dragState?.id === artifact.id ? 'opacity-40' : ''} ${dragState && dragState.overIndex === index && dragState.id !== artifact.id ? 'ring-2 ring-brand-400 ring-offset-4 ring-offset-slate-100' : ''}`}
+                  >
+                    <PreviewCard
+                      artifact={artifact}
+                      index={index}
+                      getFileName={(extension) => getFileName(artifact, index, extension)}
+                      sessionSize={sessionSize}
+                      exportSettings={exportSettings}
+                      renderSettings={renderSettings}
+                      brandKit={brandKit}
+                      safeZone={safeZone}
+                      onPrepareHtml={prepareHtmlExport}
+                      onSizeChange={handleArtifactSizeChange}
+                      onTitleChange={handleArtifactTitleChange}
+                      onOpenViewer={(id) => setViewerIndex(artifacts.findIndex(a => a.id === id))}
+                      onFillTemplate={setMergeTargetId}
+                      onRefine={handleRefineArtifact}
+                      onSelectVersion={handleSelectVersion}
+                      onCodeChange={handleArtifactCodeChange}
+                      onSplit={handleSplitArtifact}
+                      onMergeWithNext={index < artifacts.length - 1 ? handleMergeWithNext : undefined}
+                      onDuplicate={handleDuplicateArtifact}
+                      onDelete={handleDeleteArtifact}
+                      onDragStart={(id) => setDragState({ id, overIndex: null })}
+                      onDragEnd={() => setDragState(null)}
+                      onDownloadStart={() => setIsDownloading(true)}
+                      onDownloadEnd={() => setIsDownloading(false)}
+                      onRegister={registerDownloadHandler}
+                      onUnregister={unregisterDownloadHandler}
+                      onLintResult={handleLintResult}
+                      lang={lang}
+                    />
+                  </div>
                 ))}
               </div>
             </div>
@@ -258,6 +1064,74 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {viewerIndex !== null && artifacts.length > 0 && (
+        <CardViewer
+          artifacts={artifacts}
+          startIndex={viewerIndex}
+          sessionSize={sessionSize}
+          renderSettings={renderSettings}
+          brandKit={brandKit}
+          safeZone={safeZone}
+          onSafeZoneChange={handleSafeZoneChange}
+          onClose={() => setViewerIndex(null)}
+          lang={lang}
+        />
+      )}
+
+      {mergeTarget && (
+        <DataMergeModal
+          artifact={mergeTarget}
+          onApply={(rows, titleTemplate) => handleFillTemplate(mergeTarget.id, rows, titleTemplate)}
+          onClose={() => setMergeTargetId(null)}
+          lang={lang}
+        />
+      )}
+
+      {isTemplatesOpen && (
+        <PromptTemplatesModal
+          templates={promptTemplates}
+          initialId={promptSelection.templateId}
+          onSave={handleTemplatesSave}
+          onClose={() => setIsTemplatesOpen(false)}
+          lang={lang}
+        />
+      )}
+
+      {pendingDownload && (
+        <LintSummaryModal
+          artifacts={artifacts}
+          results={lintResults}
+          onConfirm={() => {
+            setPendingDownload(null);
+            runBatchDownload(pendingDownload);
+          }}
+          onClose={() => setPendingDownload(null)}
+          lang={lang}
+        />
+      )}
+
+      {isModelSettingsOpen && (
+        <ModelSettingsModal
+          settings={llmSettings}
+          onSave={handleLlmSettingsSave}
+          onClose={() => setIsModelSettingsOpen(false)}
+          lang={lang}
+        />
+      )}
+
+      <HistoryPanel
+        isOpen={isHistoryOpen}
+        sessions={sessions}
+        currentSessionId={sessionId}
+        onClose={() => setIsHistoryOpen(false)}
+        onOpen={handleOpenSession}
+        onNew={handleNewSession}
+        onRename={handleRenameSession}
+        onDuplicate={handleDuplicateSession}
+        onDelete={handleDeleteSession}
+        lang={lang}
+      />
+
       <GuideModal
         isOpen={isGuideOpen}
         onClose={() => setIsGuideOpen(false)}
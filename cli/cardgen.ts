@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+import './dom';
+import { readFile } from 'node:fs/promises';
+import { parseRenderArgs, USAGE } from './options';
+import { planRender } from './plan';
+import { renderPlan } from './render';
+
+const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const [command, ...rest] = argv;
+  if (!command || command === '-h' || command === '--help') {
+    console.log(USAGE);
+    return 0;
+  }
+  if (command !== 'render') {
+    throw new Error(`Unknown command "${command}".\n\n${USAGE}`);
+  }
+
+  const options = parseRenderArgs(rest);
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const text = options.input === '-' ? await readStdin() : await readFile(options.input, 'utf8');
+  const plan = planRender(text, options, options.exportSettings.format);
+  if (plan.jobs.length === 0) {
+    throw new Error('No cards were found in the input.');
+  }
+
+  if (options.dryRun) {
+    console.log(`${plan.jobs.length} card(s) in "${plan.setName}":`);
+    plan.jobs.forEach(job => {
+      console.log(`  ${job.imagePath}  ${job.size.width}x${job.size.height}${job.htmlPath ? `  + ${job.htmlPath}` : ''}`);
+    });
+    return 0;
+  }
+
+  const results = await renderPlan(plan, options, ({ job, error, readiness, failedAssets }) => {
+    const prefix = `[${job.index + 1}/${plan.jobs.length}]`;
+    if (error) {
+      console.error(`${prefix} ${job.artifact.title}: ${error}`);
+      return;
+    }
+    const warnings = [
+      readiness?.timedOut ? 'captured before everything was ready' : '',
+      readiness?.failed.length ? `failed to load: ${readiness.failed.join(', ')}` : '',
+      failedAssets.length ? `not embedded: ${failedAssets.map(f => f.url).join(', ')}` : ''
+    ].filter(Boolean);
+    console.log(`${prefix} ${job.imagePath}${warnings.length ? ` (${warnings.join('; ')})` : ''}`);
+  });
+
+  const failed = results.filter(r => r.error).length;
+  console.log(`Wrote ${results.length - failed} of ${results.length} card(s) and manifest.json to ${options.outDir}`);
+  return failed > 0 ? 1 : 0;
+};
+
+main(process.argv.slice(2)).then(
+  (code) => { process.exitCode = code; },
+  (err) => {
+    console.error(`cardgen: ${err instanceof Error ? err.message : String(err)}`);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,9 @@
+import { JSDOM } from 'jsdom';
+
+// The parser is written against the browser's DOMParser, and asset inlining against Blob and
+// FileReader, which Node lacks or implements differently. Imported first by the CLI entry so the
+// shared utils can run unchanged.
+const { window } = new JSDOM('');
+globalThis.DOMParser = window.DOMParser;
+globalThis.Blob = window.Blob;
+globalThis.FileReader = window.FileReader;
@@ -0,0 +1,140 @@
+import { parseArgs } from 'node:util';
+import { ExportSettings, ImageFormat, OutputSize, RenderSettings, ScriptPolicy, ReadyMode, SplitMode, SplitOptions } from '../types';
+import { DEFAULT_EXPORT_SETTINGS, IMAGE_FORMATS, EXPORT_SCALES } from '../utils/exportSettings';
+import { DEFAULT_RENDER_SETTINGS, MAX_READY_TIMEOUT, MIN_READY_TIMEOUT, READY_MODES, SCRIPT_POLICIES } from '../utils/renderSettings';
+import { clampDimension, SIZE_PRESETS, SizePresetId } from '../utils/sizePresets';
+import { DEFAULT_SPLIT_OPTIONS } from '../utils/parser';
+
+export interface RenderOptions {
+  input: string; // File path, or "-" for stdin
+  outDir: string;
+  size: OutputSize;
+  split: SplitOptions;
+  exportSettings: ExportSettings;
+  renderSettings: RenderSettings;
+  numbering: boolean;
+  includeHtml: boolean;
+  selfContained: boolean; // Embed assets in the HTML files, like the app's self-contained option
+  setName: string | null; // Value of {set}; derived from the input like the web app when omitted
+  dryRun: boolean;
+}
+
+export const USAGE = `Usage: cardgen render <input> [options]
+
+Render every card found in <input> (HTML or markdown, "-" for stdin) to images.
+
+Options:
+  -o, --out <dir>            Output directory (default: ./cards)
+  -f, --format <fmt>         png | jpg | webp (default: ${DEFAULT_EXPORT_SETTINGS.format})
+  -s, --size <size>          WIDTHxHEIGHT or a preset: ${SIZE_PRESETS.map(p => p.id).join(', ')} (default: square)
+      --scale <n>            Device scale ${EXPORT_SCALES.join(', ')} (default: ${DEFAULT_EXPORT_SETTINGS.scale})
+  -q, --quality <0-100>      JPG/WebP quality (default: ${DEFAULT_EXPORT_SETTINGS.quality * 100})
+      --background <color>   Fill color, or "transparent" for PNG/WebP (default: ${DEFAULT_EXPORT_SETTINGS.backgroundColor})
+      --split <mode>         auto | never | selector | marker (default: auto)
+      --selector <css>       Card selector for --split selector
+      --name <template>      File name template (default: "${DEFAULT_EXPORT_SETTINGS.fileNameTemplate}")
+      --set <name>           Value of {set} in the template
+      --no-numbering         Leave {index} empty, like unticking numbering in the app
+      --html                 Also write each card's HTML next to its image
+      --self-contained       Embed images, fonts and stylesheets in the --html files
+      --scripts <policy>     ${SCRIPT_POLICIES.join(' | ')} (default: ${DEFAULT_RENDER_SETTINGS.scriptPolicy})
+      --ready <mode>         ${READY_MODES.join(' | ')} (default: ${DEFAULT_RENDER_SETTINGS.readyMode})
+      --timeout <ms>         Ready timeout (default: ${DEFAULT_RENDER_SETTINGS.readyTimeout})
+      --dry-run              Print the cards and file names without rendering
+  -h, --help                 Show this help`;
+
+const SPLIT_MODES: SplitMode[] = ['auto', 'never', 'selector', 'marker'];
+
+const oneOf = <T extends string>(value: string, allowed: readonly T[], flag: string): T => {
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new Error(`Invalid ${flag} "${value}". Expected one of: ${allowed.join(', ')}.`);
+  }
+  return value as T;
+};
+
+const toNumber = (value: string, flag: string): number => {
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new Error(`Invalid ${flag} "${value}". Expected a number.`);
+  return n;
+};
+
+// "1080x1350", "1080×1350" or a preset id such as "portrait"
+export const parseSize = (value: string): OutputSize => {
+  const preset = SIZE_PRESETS.find(p => p.id === (value as SizePresetId));
+  if (preset) return { width: preset.width, height: preset.height };
+
+  const match = value.trim().match(/^(\d+)\s*[x×]\s*(\d+)$/i);
+  if (!match) throw new Error(`Invalid --size "${value}". Use WIDTHxHEIGHT (e.g. 1080x1350) or a preset name.`);
+  return { width: clampDimension(Number(match[1])), height: clampDimension(Number(match[2])) };
+};
+
+// Returns null when help was requested
+export const parseRenderArgs = (argv: string[]): RenderOptions | null => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o', default: 'cards' },
+      format: { type: 'string', short: 'f', default: DEFAULT_EXPORT_SETTINGS.format },
+      size: { type: 'string', short: 's', default: 'square' },
+      scale: { type: 'string', default: String(DEFAULT_EXPORT_SETTINGS.scale) },
+      quality: { type: 'string', short: 'q', default: String(DEFAULT_EXPORT_SETTINGS.quality * 100) },
+      background: { type: 'string', default: DEFAULT_EXPORT_SETTINGS.backgroundColor },
+      split: { type: 'string', default: DEFAULT_SPLIT_OPTIONS.mode },
+      selector: { type: 'string', default: DEFAULT_SPLIT_OPTIONS.selector },
+      name: { type: 'string', default: DEFAULT_EXPORT_SETTINGS.fileNameTemplate },
+      set: { type: 'string' },
+      'no-numbering': { type: 'boolean', default: false },
+      html: { type: 'boolean', default: false },
+      'self-contained': { type: 'boolean', default: false },
+      scripts: { type: 'string', default: DEFAULT_RENDER_SETTINGS.scriptPolicy },
+      ready: { type: 'string', default: DEFAULT_RENDER_SETTINGS.readyMode },
+      timeout: { type: 'string', default: String(DEFAULT_RENDER_SETTINGS.readyTimeout) },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  if (values.help) return null;
+  if (positionals.length !== 1) {
+    throw new Error(positionals.length === 0 ? 'Missing <input>.' : `Expected one input, got ${positionals.length}.`);
+  }
+
+  const format = oneOf<ImageFormat>(values.format!, IMAGE_FORMATS, '--format');
+  const scale = toNumber(values.scale!, '--scale');
+  if (!EXPORT_SCALES.includes(scale)) throw new Error(`Invalid --scale "${values.scale}". Expected one of: ${EXPORT_SCALES.join(', ')}.`);
+  const quality = Math.min(100, Math.max(10, toNumber(values.quality!, '--quality'))) / 100;
+  const transparent = values.background!.toLowerCase() === 'transparent';
+
+  const mode = oneOf<SplitMode>(values.split!, SPLIT_MODES, '--split');
+  if (mode === 'selector' && !values.selector!.trim()) throw new Error('--split selector needs --selector.');
+  if (values['self-contained'] && !values.html) throw new Error('--self-contained needs --html.');
+
+  const timeout = toNumber(values.timeout!, '--timeout');
+
+  return {
+    input: positionals[0],
+    outDir: values.out!,
+    size: parseSize(values.size!),
+    split: { mode, selector: values.selector! },
+    exportSettings: {
+      ...DEFAULT_EXPORT_SETTINGS,
+      format,
+      quality,
+      scale,
+      background: transparent ? 'transparent' : 'fill',
+      backgroundColor: transparent ? DEFAULT_EXPORT_SETTINGS.backgroundColor : values.background!,
+      fileNameTemplate: values.name!
+    },
+    renderSettings: {
+      scriptPolicy: oneOf<ScriptPolicy>(values.scripts!, SCRIPT_POLICIES, '--scripts'),
+      readyMode: oneOf<ReadyMode>(values.ready!, READY_MODES, '--ready'),
+      readyTimeout: Math.min(MAX_READY_TIMEOUT, Math.max(MIN_READY_TIMEOUT, timeout))
+    },
+    numbering: !values['no-numbering'],
+    includeHtml: values.html!,
+    selfContained: values['self-contained']!,
+    setName: values.set ?? null,
+    dryRun: values['dry-run']!
+  };
+};
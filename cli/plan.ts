@@ -0,0 +1,54 @@
+import { Artifact, OutputSize } from '../types';
+import { extractArtifacts } from '../utils/parser';
+import { formatFileName } from '../utils/fileNames';
+import { getSessionName } from '../utils/sessionStore';
+import { getUniquePath } from '../utils/zipExport';
+import { RenderOptions } from './options';
+
+export interface RenderJob {
+  artifact: Artifact;
+  index: number; // 0-based position in the set
+  size: OutputSize;
+  imagePath: string;
+  htmlPath: string | null;
+}
+
+export interface RenderPlan {
+  setName: string;
+  jobs: RenderJob[];
+}
+
+// Split the input and name every file exactly as the web app's batch download would
+export const planRender = (text: string, options: RenderOptions, imageExtension: string): RenderPlan => {
+  const artifacts = extractArtifacts(text, options.split);
+  const setName = options.setName ?? getSessionName({ input: text, artifacts });
+  const usedPaths = new Set<string>();
+
+  const getFileName = (artifact: Artifact, index: number, size: OutputSize, extension: string) => {
+    const name = formatFileName(options.exportSettings.fileNameTemplate, {
+      index: options.numbering ? index + 1 : null,
+      total: artifacts.length,
+      title: artifact.title,
+      width: size.width,
+      height: size.height,
+      set: setName,
+      fields: artifact.fields
+    });
+    const path = getUniquePath(`${name}.${extension}`, usedPaths);
+    usedPaths.add(path);
+    return path;
+  };
+
+  const jobs = artifacts.map((artifact, index) => {
+    const size = artifact.size ?? options.size;
+    return {
+      artifact,
+      index,
+      size,
+      imagePath: getFileName(artifact, index, size, imageExtension),
+      htmlPath: options.includeHtml ? getFileName(artifact, index, size, 'html') : null
+    };
+  });
+
+  return { setName, jobs };
+};
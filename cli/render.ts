@@ -0,0 +1,177 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { chromium } from 'playwright';
+import { ReadinessReport } from '../types';
+import { buildFrameDocument } from '../utils/cardFrame';
+import { getMimeType, supportsQuality, supportsTransparency } from '../utils/exportSettings';
+import { AssetFetcher, FailedAsset, inlineAssets } from '../utils/inlineAssets';
+import { toFullHtml } from '../utils/parser';
+import { getSandboxAttribute } from '../utils/renderSettings';
+import { ZipManifest, ZipManifestItem } from '../utils/zipExport';
+import { RenderOptions } from './options';
+import { RenderJob, RenderPlan } from './plan';
+
+export interface RenderedCard {
+  job: RenderJob;
+  error: string | null;
+  readiness: ReadinessReport | null;
+  failedAssets: FailedAsset[]; // Assets a self-contained HTML file still points to
+}
+
+// The card is loaded into a sandboxed iframe on this page, exactly like the app's capture frame
+const HOST_DOCUMENT = '<!DOCTYPE html><html><head><style>html, body { margin: 0; background: transparent; }</style></head><body></body></html>';
+
+// fetch has no file: support, so assets next to the input are read from disk. Blobs are built with
+// the global (jsdom) Blob so the shared FileReader-based inlining can read them.
+const fetchAsset: AssetFetcher = async (url) => {
+  if (url.startsWith('file:')) return new Blob([await readFile(fileURLToPath(url))]);
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return new Blob([Buffer.from(await res.arrayBuffer())], { type: res.headers.get('content-type') ?? '' });
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, message: string): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+// Render each card in headless Chromium with the same frame document and readiness rules as
+// the web app, then write the images, optional HTML and a manifest.json into the output folder.
+export const renderPlan = async (
+  plan: RenderPlan,
+  options: RenderOptions,
+  onCard?: (card: RenderedCard) => void
+): Promise<RenderedCard[]> => {
+  const { exportSettings, renderSettings } = options;
+  const transparent = exportSettings.background === 'transparent' && supportsTransparency(exportSettings.format);
+  await mkdir(options.outDir, { recursive: true });
+
+  // Relative asset URLs resolve against the input file, or the working directory for stdin
+  const assetBase = pathToFileURL(options.input === '-' ? `${process.cwd()}/` : resolve(options.input)).href;
+
+  const browser = await chromium.launch();
+  const results: RenderedCard[] = [];
+  const items: ZipManifestItem[] = [];
+
+  try {
+    const context = await browser.newContext({ deviceScaleFactor: exportSettings.scale });
+    let page = await context.newPage();
+    // A blank page for re-encoding screenshots, so the card page is never touched by our own scripts
+    const encoder = await context.newPage();
+
+    for (const job of plan.jobs) {
+      let error: string | null = null;
+      let readiness: ReadinessReport | null = null;
+      let pixels: { width: number, height: number } | null = null;
+      let failedAssets: FailedAsset[] = [];
+
+      try {
+        const html = toFullHtml(job.artifact, transparent ? 'transparent' : '#fff');
+        await page.setViewportSize(job.size);
+        await page.setContent(HOST_DOCUMENT);
+
+        // Ready timeout plus the same headroom the app gives a capture; raced here as well because
+        // a card that hangs its renderer would also stall any timer inside the page
+        readiness = await withTimeout(page.evaluate(({ id, srcdoc, sandbox, size }) => new Promise<ReadinessReport>(resolve => {
+          const iframe = document.createElement('iframe');
+          iframe.setAttribute('sandbox', sandbox);
+          Object.assign(iframe.style, {
+            position: 'fixed',
+            left: '0',
+            top: '0',
+            border: 'none',
+            width: `${size.width}px`,
+            height: `${size.height}px`
+          });
+          window.addEventListener('message', (event) => {
+            if (event.source !== iframe.contentWindow) return;
+            if (event.data?.type === 'card-ready-result' && event.data.id === id) resolve(event.data.readiness);
+          });
+          iframe.onload = () => iframe.contentWindow?.postMessage({ type: 'card-ready', id }, '*');
+          iframe.srcdoc = srcdoc;
+          document.body.appendChild(iframe);
+        }), {
+          id: job.artifact.id,
+          srcdoc: buildFrameDocument(html, job.size, renderSettings),
+          sandbox: getSandboxAttribute(renderSettings.scriptPolicy),
+          size: job.size
+        }), renderSettings.readyTimeout + 20000, 'Render timed out');
+
+        const png = await page.screenshot({
+          type: 'png',
+          omitBackground: true,
+          clip: { x: 0, y: 0, width: job.size.width, height: job.size.height }
+        });
+
+        // Paint the fill behind the card and encode, mirroring html2canvas' backgroundColor in the app
+        const encoded = await encoder.evaluate(async ({ png, mimeType, quality, fill }) => {
+          const bitmap = await createImageBitmap(await (await fetch(`data:image/png;base64,${png}`)).blob());
+          const canvas = document.createElement('canvas');
+          canvas.width = bitmap.width;
+          canvas.height = bitmap.height;
+          const ctx = canvas.getContext('2d')!;
+          if (fill) {
+            ctx.fillStyle = fill;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+          }
+          ctx.drawImage(bitmap, 0, 0);
+          const dataUrl = quality === null ? canvas.toDataURL(mimeType) : canvas.toDataURL(mimeType, quality);
+          return { base64: dataUrl.substring(dataUrl.indexOf(',') + 1), width: canvas.width, height: canvas.height };
+        }, {
+          png: png.toString('base64'),
+          mimeType: getMimeType(exportSettings.format),
+          quality: supportsQuality(exportSettings.format) ? exportSettings.quality : null,
+          fill: transparent ? null : exportSettings.backgroundColor
+        });
+
+        await writeFile(join(options.outDir, job.imagePath), Buffer.from(encoded.base64, 'base64'));
+        pixels = { width: encoded.width, height: encoded.height };
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+        // The card may have left the page hung; start the next one on a fresh page
+        await page.close().catch(() => undefined);
+        page = await context.newPage();
+      }
+
+      // Same output as the app's HTML download, including its self-contained option
+      if (job.htmlPath) {
+        const html = toFullHtml(job.artifact);
+        const exported = options.selfContained
+          ? await inlineAssets(html, { fetcher: fetchAsset, baseUrl: assetBase })
+          : { html, failed: [] };
+        failedAssets = exported.failed;
+        await writeFile(join(options.outDir, job.htmlPath), exported.html);
+      }
+
+      items.push({
+        index: job.index + 1,
+        title: job.artifact.title,
+        image: error ? null : job.imagePath,
+        html: job.htmlPath,
+        width: pixels ? pixels.width : null,
+        height: pixels ? pixels.height : null,
+        sourceIndex: job.artifact.sourceIndex ?? null,
+        failedResources: readiness?.failed ?? []
+      });
+
+      const result = { job, error, readiness, failedAssets };
+      results.push(result);
+      onCard?.(result);
+    }
+  } finally {
+    await browser.close();
+  }
+
+  const manifest: ZipManifest = {
+    generatedAt: new Date().toISOString(),
+    count: items.length,
+    items
+  };
+  await writeFile(join(options.outDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+  return results;
+};
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { BrandKit, WatermarkPosition } from '../types';
+import { DEFAULT_BRAND_KIT, getColorVariable, MAX_LOGO_WIDTH, MIN_LOGO_WIDTH, WATERMARK_POSITIONS } from '../utils/brandKit';
+import { translations, Language } from '../utils/translations';
+
+interface BrandKitPanelProps {
+  kit: BrandKit;
+  onChange: (kit: BrandKit) => void;
+  lang: Language;
+}
+
+const POSITION_ICONS: Record<WatermarkPosition, string> = {
+  none: 'fa-ban',
+  'top-left': 'fa-arrow-up rotate-[-45deg]',
+  'top-right': 'fa-arrow-up rotate-45',
+  'bottom-left': 'fa-arrow-down rotate-45',
+  'bottom-right': 'fa-arrow-down rotate-[-45deg]'
+};
+
+const BrandKitPanel: React.FC<BrandKitPanelProps> = ({ kit, onChange, lang }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const t = translations[lang].brandKit;
+
+  const update = (patch: Partial<BrandKit>) => onChange({ ...kit, ...patch });
+
+  const segmentClass = (active: boolean) =>
+    `flex-1 px-2 py-1.5 rounded-md text-xs font-bold transition-all ${active ? 'bg-white text-brand-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`;
+  const inputClass = 'w-full text-xs border border-gray-200 rounded-md px-2 py-1.5 focus:ring-2 focus:ring-brand-500 focus:outline-none';
+
+  const handleLogo = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => update({ logo: reader.result as string, logoPosition: kit.logoPosition === 'none' ? 'bottom-right' : kit.logoPosition });
+    reader.readAsDataURL(file);
+  };
+
+  const updateColor = (index: number, patch: Partial<BrandKit['colors'][number]>) => {
+    update({ colors: kit.colors.map((c, i) => i === index ? { ...c, ...patch } : c) });
+  };
+
+  return (
+    <div className="relative flex-shrink-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`text-sm border px-3 py-2 rounded-lg transition-all flex items-center gap-2 font-semibold ${kit.enabled ? 'bg-brand-50 border-brand-200 text-brand-700' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+        title={t.title}
+      >
+        <i className="fa-solid fa-palette"></i>
+        {t.button}
+        {kit.enabled && (
+          <span className="flex -space-x-1">
+            {kit.colors.slice(0, 3).map(c => (
+              <span key={c.name} className="w-3 h-3 rounded-full border border-white" style={{ background: c.value }}></span>
+            ))}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setIsOpen(false)}></div>
+          <div className="absolute left-0 mt-2 w-80 bg-white border border-gray-200 rounded-xl shadow-2xl p-4 z-40 space-y-4 max-h-[80vh] overflow-y-auto custom-scrollbar">
+            <div className="flex justify-between items-center">
+              <h4 className="text-sm font-bold text-gray-700">{t.title}</h4>
+              <label className="flex items-center gap-2 cursor-pointer text-xs font-semibold text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={kit.enabled}
+                  onChange={(e) => update({ enabled: e.target.checked })}
+                  className="w-4 h-4 text-brand-600 rounded focus:ring-brand-500 cursor-pointer"
+                />
+                {t.enabled}
+              </label>
+            </div>
+            <p className="text-[10px] text-gray-400 -mt-2">{t.hint}</p>
+
+            <div className={`space-y-4 ${kit.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+              <div className="space-y-2">
+                <p className="text-xs font-semibold text-gray-500">{t.fonts}</p>
+                <input value={kit.headingFont} onChange={(e) => update({ headingFont: e.target.value })} placeholder={t.headingFont} className={inputClass} />
+                <input value={kit.bodyFont} onChange={(e) => update({ bodyFont: e.target.value })} placeholder={t.bodyFont} className={inputClass} />
+                <input
+                  value={kit.fontStylesheet}
+                  onChange={(e) => update({ fontStylesheet: e.target.value })}
+                  placeholder={t.fontStylesheet}
+                  className={`${inputClass} font-mono`}
+                  spellCheck={false}
+                />
+              </div>
+
+              <div>
+                <p className="text-xs font-semibold text-gray-500 mb-1.5">{t.colors}</p>
+                <div className="space-y-1.5">
+                  {kit.colors.map((color, i) => (
+                    <div key={i} className="flex items-center gap-2">
+                      <input
+                        type="color"
+                        value={color.value}
+                        onChange={(e) => updateColor(i, { value: e.target.value })}
+                        className="w-8 h-8 rounded border border-gray-200 cursor-pointer flex-shrink-0"
+                      />
+                      <input
+                        value={color.name}
+                        onChange={(e) => updateColor(i, { name: e.target.value })}
+                        className={`${inputClass} flex-1`}
+                      />
+                      <code className="text-[10px] text-gray-400 w-24 truncate" title={`var(${getColorVariable(color.name)})`}>
+                        {getColorVariable(color.name)}
+                      </code>
+                      <button
+                        onClick={() => update({ colors: kit.colors.filter((_, j) => j !== i) })}
+                        className="text-gray-300 hover:text-red-500 text-xs px-1"
+                        title={t.removeColor}
+                      >
+                        <i className="fa-solid fa-xmark"></i>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => update({ colors: [...kit.colors, { name: `color${kit.colors.length + 1}`, value: '#888888' }] })}
+                  className="text-xs text-brand-600 hover:text-brand-700 font-medium mt-2"
+                >
+                  <i className="fa-solid fa-plus mr-1"></i>{t.addColor}
+                </button>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-1.5">
+                  <p className="text-xs font-semibold text-gray-500">{t.logo}</p>
+                  <div className="flex items-center gap-2">
+                    <label className="text-xs text-brand-600 hover:text-brand-700 font-medium cursor-pointer">
+                      <i className="fa-solid fa-upload mr-1"></i>{t.uploadLogo}
+                      <input type="file" accept="image/*" className="hidden" onChange={(e) => handleLogo(e.target.files?.[0])} />
+                    </label>
+                    {kit.logo && (
+                      <button onClick={() => update({ logo: null })} className="text-xs text-gray-400 hover:text-red-500" title={t.removeLogo}>
+                        <i className="fa-regular fa-trash-can"></i>
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {kit.logo && (
+                  <>
+                    <div className="h-14 bg-gray-50 border border-gray-100 rounded-lg flex items-center justify-center mb-2">
+                      <img src={kit.logo} alt="" className="max-h-10 max-w-[60%] object-contain" />
+                    </div>
+                    <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+                      {WATERMARK_POSITIONS.map(position => (
+                        <button
+                          key={position}
+                          onClick={() => update({ logoPosition: position })}
+                          className={segmentClass(kit.logoPosition === position)}
+                          title={t.positions[position]}
+                        >
+                          <i className={`fa-solid ${POSITION_ICONS[position]}`}></i>
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-[11px] text-gray-500 mt-2 mb-1 flex justify-between">
+                      <span>{t.logoWidth}</span>
+                      <span className="font-mono">{kit.logoWidth}px</span>
+                    </p>
+                    <input
+                      type="range"
+                      min={MIN_LOGO_WIDTH}
+                      max={MAX_LOGO_WIDTH}
+                      step={10}
+                      value={kit.logoWidth}
+                      onChange={(e) => update({ logoWidth: Number(e.target.value) })}
+                      className="w-full accent-brand-600"
+                    />
+                    <p className="text-[11px] text-gray-500 mt-1 mb-1 flex justify-between">
+                      <span>{t.logoOpacity}</span>
+                      <span className="font-mono">{Math.round(kit.logoOpacity * 100)}%</span>
+                    </p>
+                    <input
+                      type="range"
+                      min={10}
+                      max={100}
+                      step={5}
+                      value={Math.round(kit.logoOpacity * 100)}
+                      onChange={(e) => update({ logoOpacity: Number(e.target.value) / 100 })}
+                      className="w-full accent-brand-600"
+                    />
+                  </>
+                )}
+              </div>
+
+              <button
+                onClick={() => onChange({ ...DEFAULT_BRAND_KIT, enabled: kit.enabled })}
+                className="text-xs text-gray-400 hover:text-gray-600"
+              >
+                <i className="fa-solid fa-rotate-left mr-1"></i>{t.reset}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BrandKitPanel;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import CodeEditor from './CodeEditor';
+import { CodeSection, getCodeSections, setCodeSection } from '../utils/codeSections';
+import { translations, Language } from '../utils/translations';
+
+interface CardEditorProps {
+  code: string;
+  onChange: (code: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onClose: () => void;
+  lang: Language;
+}
+
+const CardEditor: React.FC<CardEditorProps> = ({ code, onChange, onUndo, onRedo, canUndo, canRedo, onClose, lang }) => {
+  const [section, setSection] = useState<CodeSection>('body');
+  const t = translations[lang].editor;
+  const sections = getCodeSections(code);
+
+  // Controlled textareas lose the browser's native undo, so route the usual shortcuts to the card history
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      onUndo();
+    } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+      e.preventDefault();
+      onRedo();
+    }
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 rounded-md text-xs font-bold transition-all ${active ? 'bg-white text-brand-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`;
+
+  const iconButtonClass = 'text-xs text-gray-500 hover:text-brand-600 disabled:text-gray-300 disabled:cursor-not-allowed px-2 py-1 rounded transition-colors';
+
+  return (
+    <div className="border-t border-gray-200 bg-white p-3 flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+          <button onClick={() => setSection('styles')} className={tabClass(section === 'styles')}>
+            <i className="fa-brands fa-css3-alt mr-1"></i>{t.styles}
+          </button>
+          <button onClick={() => setSection('body')} className={tabClass(section === 'body')}>
+            <i className="fa-brands fa-html5 mr-1"></i>{t.body}
+          </button>
+        </div>
+        <div className="flex items-center">
+          <button onClick={onUndo} disabled={!canUndo} className={iconButtonClass} title={t.undo}>
+            <i className="fa-solid fa-rotate-left"></i>
+          </button>
+          <button onClick={onRedo} disabled={!canRedo} className={iconButtonClass} title={t.redo}>
+            <i className="fa-solid fa-rotate-right"></i>
+          </button>
+          <button onClick={onClose} className={iconButtonClass} title={t.close}>
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+      </div>
+      <div className="h-72">
+        <CodeEditor
+          key={section}
+          value={sections[section]}
+          onChange={(value) => onChange(setCodeSection(code, section, value))}
+          language={section === 'styles' ? 'css' : 'html'}
+          onKeyDown={handleKeyDown}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default CardEditor;
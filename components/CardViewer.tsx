@@ -0,0 +1,325 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Artifact, BrandKit, OutputSize, RenderSettings, SafeZonePresetId, SafeZoneSettings } from '../types';
+import { buildFrameDocument } from '../utils/cardFrame';
+import { getSandboxAttribute } from '../utils/renderSettings';
+import { toFullHtml } from '../utils/parser';
+import { applyBrandKit } from '../utils/brandKit';
+import { formatSize } from '../utils/sizePresets';
+import { SAFE_ZONE_PRESETS } from '../utils/safeZones';
+import { translations, Language } from '../utils/translations';
+import SafeZoneOverlay from './SafeZoneOverlay';
+
+type Zoom = 'fit' | 1 | 2;
+
+const ZOOMS: Zoom[] = ['fit', 1, 2];
+const GRID_SIZE = 54; // px in output space: 20 cells across a 1080px card
+
+interface CardViewerProps {
+  artifacts: Artifact[];
+  startIndex: number;
+  sessionSize: OutputSize;
+  renderSettings: RenderSettings;
+  brandKit: BrandKit;
+  safeZone: SafeZoneSettings;
+  onSafeZoneChange: (settings: SafeZoneSettings) => void;
+  onClose: () => void;
+  lang: Language;
+}
+
+interface CardFrameProps {
+  artifact: Artifact;
+  size: OutputSize;
+  scale: number;
+  renderSettings: RenderSettings;
+  brandKit: BrandKit;
+  showGrid?: boolean;
+  safeZone?: SafeZonePresetId; // Overlay for this platform, if shown
+  lang?: Language;
+}
+
+// One card at an exact scale; the layout box matches the scaled size so scrolling works when zoomed in
+const CardFrame: React.FC<CardFrameProps> = ({ artifact, size, scale, renderSettings, brandKit, showGrid, safeZone, lang = 'en' }) => {
+  const frameDocument = useMemo(
+    () => buildFrameDocument(applyBrandKit(toFullHtml(artifact, '#fff'), brandKit), size, renderSettings),
+    [artifact.code, artifact.title, size.width, size.height, renderSettings, brandKit]
+  );
+
+  return (
+    <div className="relative flex-shrink-0 bg-white shadow-2xl" style={{ width: size.width * scale, height: size.height * scale }}>
+      <div style={{ width: size.width, height: size.height, transform: `scale(${scale})`, transformOrigin: 'top left' }}>
+        <iframe
+          title={artifact.title}
+          sandbox={getSandboxAttribute(renderSettings.scriptPolicy)}
+          srcDoc={frameDocument}
+          className="w-full h-full border-0 pointer-events-none"
+        />
+      </div>
+      {showGrid && (
+        <div
+          className="absolute inset-0 pointer-events-none"
+          style={{
+            backgroundImage: 'linear-gradient(to right, rgba(236,72,153,0.35) 1px, transparent 1px), linear-gradient(to bottom, rgba(236,72,153,0.35) 1px, transparent 1px)',
+            backgroundSize: `${GRID_SIZE * scale}px ${GRID_SIZE * scale}px`
+          }}
+        />
+      )}
+      {safeZone && (
+        <SafeZoneOverlay preset={safeZone} size={size} scale={scale} labels={translations[lang].safeZones.zones} />
+      )}
+    </div>
+  );
+};
+
+// Track an element's size so "fit" can be recomputed on resize and when entering full screen
+const useElementSize = (ref: React.RefObject<HTMLElement | null>) => {
+  const [rect, setRect] = useState({ width: 0, height: 0 });
+  useLayoutEffect(() => {
+    if (!ref.current) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setRect({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [ref]);
+  return rect;
+};
+
+const fitScale = (size: OutputSize, area: { width: number, height: number }, padding: number) => {
+  if (area.width === 0 || area.height === 0) return 0.1;
+  return Math.min((area.width - padding) / size.width, (area.height - padding) / size.height);
+};
+
+const CardViewer: React.FC<CardViewerProps> = ({ artifacts, startIndex, sessionSize, renderSettings, brandKit, safeZone, onSafeZoneChange, onClose, lang }) => {
+  const [index, setIndex] = useState(startIndex);
+  const [zoom, setZoom] = useState<Zoom>('fit');
+  const [showGrid, setShowGrid] = useState(false);
+  const [showSafeZone, setShowSafeZone] = useState(false);
+  const [isPresenting, setIsPresenting] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const area = useElementSize(stageRef);
+  const t = translations[lang].viewer;
+  const tZones = translations[lang].safeZones;
+
+  const current = artifacts[Math.min(index, artifacts.length - 1)];
+  const size = current?.size ?? sessionSize;
+  const scale = zoom === 'fit' ? fitScale(size, area, isPresenting ? 0 : 64) : zoom;
+
+  const go = (delta: number) => setIndex(i => Math.max(0, Math.min(artifacts.length - 1, i + delta)));
+
+  const togglePresentation = async () => {
+    if (!isPresenting) {
+      setZoom('fit');
+      setIsPresenting(true);
+      await rootRef.current?.requestFullscreen?.().catch(() => {});
+    } else {
+      setIsPresenting(false);
+      if (document.fullscreenElement) await document.exitFullscreen().catch(() => {});
+    }
+  };
+
+  // Leaving full screen with the browser's own Esc also ends the presentation
+  useEffect(() => {
+    const onFullscreenChange = () => {
+      if (!document.fullscreenElement) setIsPresenting(false);
+    };
+    document.addEventListener('fullscreenchange', onFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', onFullscreenChange);
+  }, []);
+
+  useEffect(() => {
+    document.body.style.overflow = 'hidden';
+    return () => { document.body.style.overflow = 'unset'; };
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return;
+      switch (e.key) {
+        case 'ArrowLeft':
+        case 'PageUp':
+          go(-1);
+          break;
+        case 'ArrowRight':
+        case 'PageDown':
+        case ' ':
+          e.preventDefault();
+          go(1);
+          break;
+        case 'Home':
+          setIndex(0);
+          break;
+        case 'End':
+          setIndex(artifacts.length - 1);
+          break;
+        case 'Escape':
+          if (isPresenting) togglePresentation();
+          else onClose();
+          break;
+        case '0':
+          setZoom('fit');
+          break;
+        case '1':
+          setZoom(1);
+          break;
+        case '2':
+          setZoom(2);
+          break;
+        case 'g':
+          setShowGrid(v => !v);
+          break;
+        case 's':
+          setShowSafeZone(v => !v);
+          break;
+        case 'p':
+          togglePresentation();
+          break;
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [artifacts.length, isPresenting, onClose]);
+
+  if (!current) return null;
+
+  const buttonClass = (active: boolean) =>
+    `px-2.5 py-1.5 rounded-md text-xs font-bold transition-all ${active ? 'bg-white text-slate-900' : 'text-slate-300 hover:text-white hover:bg-white/10'}`;
+
+  const zoomLabel = (z: Zoom) => z === 'fit' ? t.fit : `${z * 100}%`;
+
+  return (
+    <div ref={rootRef} className="fixed inset-0 z-50 bg-slate-950/95 flex flex-col text-white">
+      {!isPresenting && (
+        <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-white/10 shrink-0">
+          <div className="min-w-0">
+            <p className="text-sm font-semibold truncate">
+              <span className="text-slate-400 mr-2">{String(index + 1).padStart(2, '0')} / {String(artifacts.length).padStart(2, '0')}</span>
+              {current.title}
+            </p>
+            <p className="text-[11px] text-slate-500">{formatSize(size)} · {Math.round(scale * 100)}%</p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <div className="flex gap-1 bg-white/5 p-1 rounded-lg">
+              {ZOOMS.map(z => (
+                <button key={String(z)} onClick={() => setZoom(z)} className={buttonClass(zoom === z)}>
+                  {zoomLabel(z)}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-1 bg-white/5 p-1 rounded-lg">
+              <button onClick={() => setShowGrid(!showGrid)} className={buttonClass(showGrid)} title={`${t.grid} (G)`}>
+                <i className="fa-solid fa-border-all mr-1"></i>{t.grid}
+              </button>
+              <button onClick={() => setShowSafeZone(!showSafeZone)} className={buttonClass(showSafeZone)} title={`${t.safeZone} (S)`}>
+                <i className="fa-regular fa-square mr-1"></i>{t.safeZone}
+              </button>
+              {showSafeZone && (
+                <select
+                  value={safeZone.preset}
+                  onChange={(e) => onSafeZoneChange({ ...safeZone, preset: e.target.value as SafeZonePresetId })}
+                  className="bg-transparent text-slate-200 text-xs font-bold rounded-md px-1.5 focus:outline-none focus:ring-1 focus:ring-white/30 cursor-pointer"
+                >
+                  {SAFE_ZONE_PRESETS.map(preset => (
+                    <option key={preset} value={preset} className="text-slate-900">{tZones.presets[preset]}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <button
+              onClick={togglePresentation}
+              className="bg-brand-600 hover:bg-brand-500 px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-2 transition-colors"
+              title={`${t.present} (P)`}
+            >
+              <i className="fa-solid fa-play"></i> {t.present}
+            </button>
+            <button
+              onClick={onClose}
+              className="text-slate-400 hover:text-white w-8 h-8 flex items-center justify-center rounded-full hover:bg-white/10 transition-colors"
+              title={`${t.close} (Esc)`}
+            >
+              <i className="fa-solid fa-xmark text-lg"></i>
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div ref={stageRef} className={`relative flex-1 min-h-0 ${isPresenting ? 'overflow-hidden bg-black' : zoom === 'fit' ? 'overflow-hidden' : 'overflow-auto custom-scrollbar'}`}>
+        {isPresenting ? (
+          // Carousel: every card side by side, sliding one viewport width per step
+          <div
+            className="flex h-full transition-transform duration-500 ease-out"
+            style={{ transform: `translateX(-${index * 100}%)` }}
+          >
+            {artifacts.map(artifact => {
+              const slideSize = artifact.size ?? sessionSize;
+              return (
+                <div key={artifact.id} className="w-full h-full flex-shrink-0 flex items-center justify-center">
+                  <CardFrame
+                    artifact={artifact}
+                    size={slideSize}
+                    scale={fitScale(slideSize, area, 0)}
+                    renderSettings={renderSettings}
+                    brandKit={brandKit}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="min-w-full min-h-full w-max h-max flex items-center justify-center p-8">
+            <CardFrame
+              key={current.id}
+              artifact={current}
+              size={size}
+              scale={scale}
+              renderSettings={renderSettings}
+              brandKit={brandKit}
+              showGrid={showGrid}
+              safeZone={showSafeZone ? safeZone.preset : undefined}
+              lang={lang}
+            />
+          </div>
+        )}
+
+        {/* Previous / next */}
+        {index > 0 && (
+          <button
+            onClick={() => go(-1)}
+            className="absolute left-4 top-1/2 -translate-y-1/2 w-11 h-11 rounded-full bg-black/40 hover:bg-black/70 text-white flex items-center justify-center transition-colors"
+            title={t.previous}
+          >
+            <i className="fa-solid fa-chevron-left"></i>
+          </button>
+        )}
+        {index < artifacts.length - 1 && (
+          <button
+            onClick={() => go(1)}
+            className="absolute right-4 top-1/2 -translate-y-1/2 w-11 h-11 rounded-full bg-black/40 hover:bg-black/70 text-white flex items-center justify-center transition-colors"
+            title={t.next}
+          >
+            <i className="fa-solid fa-chevron-right"></i>
+          </button>
+        )}
+
+        {isPresenting && (
+          <div className="absolute bottom-5 left-1/2 -translate-x-1/2 flex gap-2">
+            {artifacts.map((artifact, i) => (
+              <button
+                key={artifact.id}
+                onClick={() => setIndex(i)}
+                className={`w-2 h-2 rounded-full transition-all ${i === index ? 'bg-white w-5' : 'bg-white/40 hover:bg-white/70'}`}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!isPresenting && (
+        <p className="text-center text-[11px] text-slate-500 py-2 shrink-0">{t.shortcuts}</p>
+      )}
+    </div>
+  );
+};
+
+export default CardViewer;
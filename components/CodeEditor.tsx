@@ -0,0 +1,65 @@
+import React, { useMemo, useRef } from 'react';
+import { highlightCss, highlightHtml } from '../utils/syntaxHighlight';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  language: 'html' | 'css';
+  onKeyDown?: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void;
+}
+
+// A transparent textarea laid over a highlighted <pre>; both must share font metrics and padding
+const sharedClass = 'absolute inset-0 m-0 p-3 font-mono text-xs leading-5 whitespace-pre overflow-auto';
+
+const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, language, onKeyDown }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+
+  // A trailing newline would otherwise collapse in the <pre> and shift the last line
+  const highlighted = useMemo(
+    () => (language === 'css' ? highlightCss(value) : highlightHtml(value)) + '\n',
+    [value, language]
+  );
+
+  const syncScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (preRef.current) {
+      preRef.current.scrollTop = e.currentTarget.scrollTop;
+      preRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    onKeyDown?.(e);
+    if (e.defaultPrevented) return;
+
+    // Indent instead of moving focus out of the editor
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      const el = e.currentTarget;
+      const { selectionStart, selectionEnd } = el;
+      onChange(value.slice(0, selectionStart) + '  ' + value.slice(selectionEnd));
+      requestAnimationFrame(() => el.setSelectionRange(selectionStart + 2, selectionStart + 2));
+    }
+  };
+
+  return (
+    <div className="relative h-full bg-gray-50 rounded-lg border border-gray-200 overflow-hidden">
+      <pre
+        ref={preRef}
+        aria-hidden="true"
+        className={`${sharedClass} text-gray-800 pointer-events-none`}
+        dangerouslySetInnerHTML={{ __html: highlighted }}
+      />
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={syncScroll}
+        onKeyDown={handleKeyDown}
+        wrap="off"
+        spellCheck={false}
+        className={`${sharedClass} w-full h-full resize-none bg-transparent text-transparent caret-gray-800 focus:outline-none focus:ring-2 focus:ring-brand-500 rounded-lg custom-scrollbar`}
+      />
+    </div>
+  );
+};
+
+export default CodeEditor;
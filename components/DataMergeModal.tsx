@@ -0,0 +1,178 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Artifact } from '../types';
+import { Dataset, DataRow, fillTemplate, findPlaceholders, getDefaultTitleTemplate, parseDataset } from '../utils/templateData';
+import { translations, Language } from '../utils/translations';
+
+interface DataMergeModalProps {
+  artifact: Artifact;
+  onApply: (rows: DataRow[], titleTemplate: string) => void;
+  onClose: () => void;
+  lang: Language;
+}
+
+const PREVIEW_ROWS = 5;
+
+const DataMergeModal: React.FC<DataMergeModalProps> = ({ artifact, onApply, onClose, lang }) => {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [titleTemplate, setTitleTemplate] = useState<string | null>(null);
+  const t = translations[lang].dataMerge;
+
+  const placeholders = useMemo(() => findPlaceholders(artifact.code), [artifact.code]);
+
+  const parsed = useMemo((): { dataset: Dataset | null, error: string | null } => {
+    if (!text.trim()) return { dataset: null, error: null };
+    try {
+      return { dataset: parseDataset(text, fileName), error: null };
+    } catch (e) {
+      return { dataset: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [text, fileName]);
+
+  const dataset = parsed.dataset;
+  const title = titleTemplate ?? getDefaultTitleTemplate(artifact.title, dataset?.columns ?? []);
+  const missing = dataset ? placeholders.filter(p => !dataset.columns.includes(p)) : [];
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    document.body.style.overflow = 'hidden';
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      document.body.style.overflow = 'unset';
+    };
+  }, [onClose]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setText(await file.text());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose}></div>
+
+      <div className="relative w-full max-w-2xl max-h-[90vh] bg-white rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-gray-100 bg-gray-50 flex justify-between items-center shrink-0">
+          <h2 className="font-semibold text-gray-700 flex items-center gap-2">
+            <i className="fa-solid fa-table-list text-brand-500"></i>
+            {t.title}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 w-8 h-8 flex items-center justify-center rounded-full hover:bg-gray-100" title={t.cancel}>
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-4 custom-scrollbar">
+          <div>
+            <p className="text-xs font-semibold text-gray-500 mb-1.5">{t.placeholders}</p>
+            <div className="flex flex-wrap gap-1.5">
+              {placeholders.map(name => (
+                <span
+                  key={name}
+                  className={`text-[11px] font-mono px-2 py-0.5 rounded ${missing.includes(name) ? 'bg-amber-50 text-amber-700' : dataset ? 'bg-emerald-50 text-emerald-700' : 'bg-gray-100 text-gray-600'}`}
+                >
+                  {`{{${name}}}`}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-1.5">
+              <p className="text-xs font-semibold text-gray-500">{t.data}</p>
+              <label className="text-xs text-brand-600 hover:text-brand-700 font-medium cursor-pointer flex items-center gap-1.5">
+                <i className="fa-solid fa-upload"></i> {t.upload}
+                <input type="file" accept=".csv,.tsv,.json,.txt,text/csv,application/json" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+              </label>
+            </div>
+            <textarea
+              value={text}
+              onChange={(e) => { setText(e.target.value); setFileName(''); }}
+              placeholder={t.dataPlaceholder}
+              className="w-full h-32 resize-none p-3 rounded-lg border border-gray-200 bg-gray-50 text-gray-800 font-mono text-xs focus:ring-2 focus:ring-brand-500 focus:outline-none focus:bg-white custom-scrollbar"
+              spellCheck={false}
+            />
+            {fileName && <p className="text-[10px] text-gray-400 mt-1">{fileName}</p>}
+            {parsed.error && <p className="text-xs text-red-600 mt-1">{parsed.error}</p>}
+          </div>
+
+          {dataset && (
+            <>
+              {missing.length > 0 && (
+                <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2">
+                  <i className="fa-solid fa-triangle-exclamation mr-1.5"></i>
+                  {t.missingColumns}: <span className="font-mono">{missing.join(', ')}</span>
+                </p>
+              )}
+
+              <div>
+                <p className="text-xs font-semibold text-gray-500 mb-1.5">{t.preview} ({dataset.rows.length} {t.rows})</p>
+                <div className="overflow-x-auto border border-gray-200 rounded-lg custom-scrollbar">
+                  <table className="w-full text-xs">
+                    <thead className="bg-gray-50 text-gray-500">
+                      <tr>
+                        {dataset.columns.map(column => (
+                          <th key={column} className={`px-2 py-1.5 text-left font-mono font-medium whitespace-nowrap ${placeholders.includes(column) ? 'text-emerald-700' : ''}`}>
+                            {column}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {dataset.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                        <tr key={i} className="border-t border-gray-100">
+                          {dataset.columns.map(column => (
+                            <td key={column} className="px-2 py-1.5 text-gray-700 max-w-[160px] truncate">{row[column]}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {dataset.rows.length > PREVIEW_ROWS && (
+                  <p className="text-[10px] text-gray-400 mt-1">+{dataset.rows.length - PREVIEW_ROWS} {t.rows}</p>
+                )}
+              </div>
+
+              <div>
+                <p className="text-xs font-semibold text-gray-500 mb-1.5">{t.cardTitle}</p>
+                <input
+                  value={title}
+                  onChange={(e) => setTitleTemplate(e.target.value)}
+                  className="w-full text-xs font-mono border border-gray-200 rounded-md px-2 py-1.5 focus:ring-2 focus:ring-brand-500 focus:outline-none"
+                  spellCheck={false}
+                />
+                {dataset.rows[0] && (
+                  <p className="text-[10px] text-gray-400 mt-1 truncate">
+                    {t.example}: <span className="text-gray-600">{fillTemplate(title, dataset.rows[0], false)}</span>
+                  </p>
+                )}
+                <p className="text-[10px] text-gray-400 mt-1">{t.fileNameHint}</p>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 bg-gray-50 flex justify-between items-center gap-3 shrink-0">
+          <p className="text-[11px] text-gray-400">{t.replaceNotice}</p>
+          <div className="flex gap-2 shrink-0">
+            <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">
+              {t.cancel}
+            </button>
+            <button
+              onClick={() => dataset && onApply(dataset.rows, title)}
+              disabled={!dataset || dataset.rows.length === 0}
+              className="px-4 py-2 text-sm font-bold text-white bg-brand-600 hover:bg-brand-700 rounded-lg shadow-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {t.generate} ({dataset?.rows.length ?? 0})
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataMergeModal;
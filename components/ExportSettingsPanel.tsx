@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { ExportSettings, ImageFormat } from '../types';
+import {
+  ANIMATION_FORMATS,
+  ANIMATION_FPS,
+  EXPORT_SCALES,
+  IMAGE_FORMATS,
+  MAX_ANIMATION_DURATION,
+  MIN_ANIMATION_DURATION,
+  supportsQuality,
+  supportsTransparency
+} from '../utils/exportSettings';
+import { getVideoMimeType } from '../utils/animationExport';
+import { DEFAULT_FILE_NAME_TEMPLATE, FILE_NAME_TOKENS, formatFileName } from '../utils/fileNames';
+import { translations, Language } from '../utils/translations';
+
+interface ExportSettingsPanelProps {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  lang: Language;
+}
+
+const ExportSettingsPanel: React.FC<ExportSettingsPanelProps> = ({ settings, onChange, lang }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const t = translations[lang].exportSettings;
+
+  const update = (patch: Partial<ExportSettings>) => onChange({ ...settings, ...patch });
+  const canRecordVideo = getVideoMimeType() !== null;
+
+  const segmentClass = (active: boolean) =>
+    `flex-1 px-2 py-1.5 rounded-md text-xs font-bold transition-all ${active ? 'bg-white text-brand-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 px-3 py-2.5 rounded-lg text-sm font-medium flex items-center gap-2 shadow-sm transition-all"
+        title={t.title}
+      >
+        <i className="fa-solid fa-sliders text-brand-600"></i>
+        {settings.format.toUpperCase()} · {settings.scale}×
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setIsOpen(false)}></div>
+          <div className="absolute right-0 mt-2 w-72 bg-white border border-gray-200 rounded-xl shadow-2xl p-4 z-40 space-y-4 max-h-[80vh] overflow-y-auto custom-scrollbar">
+            <h4 className="text-sm font-bold text-gray-700">{t.title}</h4>
+
+            <div>
+              <p className="text-xs font-semibold text-gray-500 mb-1.5">{t.format}</p>
+              <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+                {IMAGE_FORMATS.map((format: ImageFormat) => (
+                  <button key={format} onClick={() => update({ format })} className={segmentClass(settings.format === format)}>
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {supportsQuality(settings.format) && (
+              <div>
+                <p className="text-xs font-semibold text-gray-500 mb-1.5 flex justify-between">
+                  <span>{t.quality}</span>
+                  <span className="font-mono">{Math.round(settings.quality * 100)}%</span>
+                </p>
+                <input
+                  type="range"
+                  min={10}
+                  max={100}
+                  step={5}
+                  value={Math.round(settings.quality * 100)}
+                  onChange={(e) => update({ quality: Number(e.target.value) / 100 })}
+                  className="w-full accent-brand-600"
+                />
+              </div>
+            )}
+
+            <div>
+              <p className="text-xs font-semibold text-gray-500 mb-1.5">{t.scale}</p>
+              <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+                {EXPORT_SCALES.map(scale => (
+                  <button key={scale} onClick={() => update({ scale })} className={segmentClass(settings.scale === scale)}>
+                    {scale}×
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold text-gray-500 mb-1.5">{t.background}</p>
+              <div className="flex items-center gap-2">
+                <div className="flex flex-1 gap-1 bg-gray-100 p-1 rounded-lg">
+                  <button
+                    onClick={() => update({ background: 'fill' })}
+                    className={segmentClass(settings.background === 'fill' || !supportsTransparency(settings.format))}
+                  >
+                    {t.fill}
+                  </button>
+                  <button
+                    onClick={() => update({ background: 'transparent' })}
+                    disabled={!supportsTransparency(settings.format)}
+                    className={`${segmentClass(settings.background === 'transparent' && supportsTransparency(settings.format))} disabled:opacity-40 disabled:cursor-not-allowed`}
+                  >
+                    {t.transparent}
+                  </button>
+                </div>
+                <input
+                  type="color"
+                  value={settings.backgroundColor}
+                  onChange={(e) => update({ backgroundColor: e.target.value })}
+                  className="w-9 h-9 rounded border border-gray-200 cursor-pointer"
+                  title={t.fillColor}
+                />
+              </div>
+              {!supportsTransparency(settings.format) && (
+                <p className="text-[10px] text-gray-400 mt-1">{t.jpgNoAlpha}</p>
+              )}
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold text-gray-500 mb-1.5">{t.fileName}</p>
+              <input
+                type="text"
+                value={settings.fileNameTemplate}
+                onChange={(e) => update({ fileNameTemplate: e.target.value })}
+                onBlur={() => !settings.fileNameTemplate.trim() && update({ fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE })}
+                className="w-full text-xs font-mono border border-gray-200 rounded-md px-2 py-1.5 focus:ring-2 focus:ring-brand-500 focus:outline-none"
+                spellCheck={false}
+              />
+              <div className="flex flex-wrap gap-1 mt-1.5">
+                {FILE_NAME_TOKENS.map(token => (
+                  <button
+                    key={token}
+                    onClick={() => update({ fileNameTemplate: settings.fileNameTemplate + token })}
+                    className="text-[10px] font-mono bg-gray-100 hover:bg-brand-50 hover:text-brand-600 text-gray-500 px-1.5 py-0.5 rounded"
+                  >
+                    {token}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-gray-400 mt-1.5 truncate">
+                {t.fileNameExample}: <span className="font-mono text-gray-500">
+                  {formatFileName(settings.fileNameTemplate, { index: 1, total: 10, title: t.exampleTitle, width: 1080, height: 1350, set: 'cards' })}.{settings.format}
+                </span>
+              </p>
+            </div>
+
+            <div className="border-t border-gray-100 pt-4 space-y-3">
+              <p className="text-xs font-semibold text-gray-500">{t.animation}</p>
+              <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+                {ANIMATION_FORMATS.map(format => (
+                  <button
+                    key={format}
+                    onClick={() => update({ animationFormat: format })}
+                    disabled={format === 'webm' && !canRecordVideo}
+                    className={`${segmentClass(settings.animationFormat === format)} disabled:opacity-40 disabled:cursor-not-allowed`}
+                  >
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+              {settings.animationFormat === 'webm' && !canRecordVideo && (
+                <p className="text-[10px] text-amber-600">{t.videoUnsupported}</p>
+              )}
+
+              <div>
+                <p className="text-[11px] text-gray-500 mb-1">{t.fps}</p>
+                <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+                  {ANIMATION_FPS.map(fps => (
+                    <button key={fps} onClick={() => update({ animationFps: fps })} className={segmentClass(settings.animationFps === fps)}>
+                      {fps}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <p className="text-[11px] text-gray-500 mb-1 flex justify-between">
+                  <span>{t.duration}</span>
+                  <span className="font-mono">{(settings.animationDuration / 1000).toFixed(1)}s</span>
+                </p>
+                <input
+                  type="range"
+                  min={MIN_ANIMATION_DURATION}
+                  max={MAX_ANIMATION_DURATION}
+                  step={500}
+                  value={settings.animationDuration}
+                  onChange={(e) => update({ animationDuration: Number(e.target.value) })}
+                  className="w-full accent-brand-600"
+                />
+              </div>
+              <p className="text-[10px] text-gray-400">{t.animationHint}</p>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportSettingsPanel;
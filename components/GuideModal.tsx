@@ -32,7 +32,8 @@ const GuideModal: React.FC<GuideModalProps> = ({ isOpen, onClose, language }) =>
                 "Or drag & drop .html, .txt, or code files to upload them.",
                 "The preview will be generated automatically after 1 second.",
                 "Click 'Download All HTML' to save the code locally.",
-                "Click 'Download All Images' to save high-quality JPG screenshots."
+                "Click 'Download All Images' to save high-quality JPG, PNG or WebP images as a single ZIP archive.",
+                "Click 'Download PDF' to combine every card into one multi-page PDF."
             ],
             casesTitle: "Use Cases",
             cases: [
@@ -50,7 +51,8 @@ const GuideModal: React.FC<GuideModalProps> = ({ isOpen, onClose, language }) =>
                 "또는 .html, .txt, 코드 파일을 드래그 앤 드롭하여 업로드하세요.",
                 "입력 후 1초 뒤에 자동으로 미리보기가 생성됩니다.",
                 "'전체 HTML 다운로드'를 클릭하여 코드를 파일로 저장하세요.",
-                "'전체 이미지 다운로드'를 클릭하여 고화질 JPG 스크린샷을 저장하세요."
+                "'전체 이미지 다운로드'를 클릭하여 고화질 JPG·PNG·WebP 이미지를 하나의 ZIP 파일로 저장하세요.",
+                "'PDF 다운로드'를 클릭하면 모든 카드를 여러 페이지의 PDF 하나로 저장합니다."
             ],
             casesTitle: "활용 사례",
             cases: [
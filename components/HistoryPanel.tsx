@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Session } from '../types';
+import { translations, Language } from '../utils/translations';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  sessions: Session[];
+  currentSessionId: string | null;
+  onClose: () => void;
+  onOpen: (session: Session) => void;
+  onNew: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (session: Session) => void;
+  onDelete: (id: string) => void;
+  lang: Language;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  isOpen,
+  sessions,
+  currentSessionId,
+  onClose,
+  onOpen,
+  onNew,
+  onRename,
+  onDuplicate,
+  onDelete,
+  lang
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const t = translations[lang].history;
+
+  if (!isOpen) return null;
+
+  const startRename = (session: Session) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(lang === 'ko' ? 'ko-KR' : 'en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+  const actionClass = 'text-xs text-gray-400 hover:text-brand-600 px-1.5 py-1 rounded transition-colors';
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose}></div>
+
+      <div className="relative w-full max-w-md h-full bg-white shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-gray-100 bg-gray-50 flex justify-between items-center shrink-0">
+          <h2 className="font-semibold text-gray-700 flex items-center gap-2">
+            <i className="fa-solid fa-clock-rotate-left text-brand-500"></i>
+            {t.title}
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onNew}
+              className="text-xs bg-white border border-gray-200 text-gray-600 hover:text-brand-600 hover:border-brand-200 px-3 py-1.5 rounded-md transition-all shadow-sm flex items-center gap-1.5"
+            >
+              <i className="fa-solid fa-plus"></i> {t.newSession}
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 w-8 h-8 flex items-center justify-center rounded-full hover:bg-gray-100 transition-colors"
+            >
+              <i className="fa-solid fa-xmark text-lg"></i>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
+          {sessions.length === 0 && (
+            <p className="text-sm text-gray-400 text-center py-12">{t.empty}</p>
+          )}
+
+          {sessions.map(session => (
+            <div
+              key={session.id}
+              className={`flex gap-3 p-2 rounded-xl border transition-colors ${session.id === currentSessionId ? 'border-brand-300 bg-brand-50/40' : 'border-gray-200 hover:bg-gray-50'}`}
+            >
+              <button
+                onClick={() => onOpen(session)}
+                className="w-20 h-20 flex-shrink-0 rounded-lg bg-gray-100 overflow-hidden flex items-center justify-center"
+                title={t.open}
+              >
+                {session.thumbnail
+                  ? <img src={session.thumbnail} alt="" className="w-full h-full object-contain" />
+                  : <i className="fa-solid fa-file-code text-2xl text-gray-300"></i>}
+              </button>
+
+              <div className="flex-1 min-w-0 flex flex-col justify-between">
+                {editingId === session.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="text-sm font-semibold border border-brand-300 rounded px-1.5 py-0.5 focus:outline-none focus:ring-2 focus:ring-brand-500"
+                  />
+                ) : (
+                  <button onClick={() => onOpen(session)} className="text-left text-sm font-semibold text-gray-700 truncate hover:text-brand-600">
+                    {session.name}
+                  </button>
+                )}
+                <p className="text-[11px] text-gray-400">
+                  {formatDate(session.updatedAt)} · {session.artifacts.length} {t.cards}
+                  {session.id === currentSessionId && <span className="ml-1 text-brand-600 font-semibold">· {t.current}</span>}
+                </p>
+                <div className="flex -ml-1.5">
+                  <button onClick={() => startRename(session)} className={actionClass} title={t.rename}>
+                    <i className="fa-solid fa-pen"></i>
+                  </button>
+                  <button onClick={() => onDuplicate(session)} className={actionClass} title={t.duplicate}>
+                    <i className="fa-regular fa-copy"></i>
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm(t.confirmDelete)) onDelete(session.id);
+                    }}
+                    className="text-xs text-gray-400 hover:text-red-500 px-1.5 py-1 rounded transition-colors"
+                    title={t.delete}
+                  >
+                    <i className="fa-regular fa-trash-can"></i>
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -1,29 +1,91 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { translations, Language } from '../utils/translations';
+import { looksLikeHtml } from '../utils/parser';
+import { InputMode, OutputSize, PromptSelection, PromptTemplate, SplitMode, SplitOptions } from '../types';
+import { findTemplateVariables, MAX_SLIDES, MIN_SLIDES, PROMPT_LANGUAGES, PROMPT_TONES } from '../utils/promptTemplates';
+import SizeSelector from './SizeSelector';
 
 interface InputSectionProps {
-  onProcess: (text: string) => void;
+  onProcess: (text: string, mode: InputMode, auto?: boolean) => void; // auto: fired by the typing debounce, not by the user
   isLoading: boolean;
+  splitOptions: SplitOptions;
+  onSplitOptionsChange: (options: SplitOptions) => void;
+  initialText?: string; // Restored from a saved session; not auto-processed again
+  initialMode?: InputMode;
+  onInputChange?: (text: string, mode: InputMode) => void;
+  templates: PromptTemplate[];
+  promptSelection: PromptSelection;
+  onPromptSelectionChange: (selection: PromptSelection) => void;
+  onManageTemplates: () => void;
+  sessionSize: OutputSize; // The templates' aspect ratio
+  onSessionSizeChange: (size: OutputSize) => void;
   lang: Language;
 }
 
-const InputSection: React.FC<InputSectionProps> = ({ onProcess, isLoading, lang }) => {
-  const [text, setText] = useState('');
+const SPLIT_MODES: SplitMode[] = ['auto', 'never', 'selector', 'marker'];
+
+const InputSection: React.FC<InputSectionProps> = ({
+  onProcess,
+  isLoading,
+  splitOptions,
+  onSplitOptionsChange,
+  initialText = '',
+  initialMode = 'auto',
+  onInputChange,
+  templates,
+  promptSelection,
+  onPromptSelectionChange,
+  onManageTemplates,
+  sessionSize,
+  onSessionSizeChange,
+  lang
+}) => {
+  const [text, setText] = useState(initialText);
   const [fileName, setFileName] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [mode, setMode] = useState<InputMode>(initialMode);
+  // The selector is applied on Enter or blur, not while it is half typed
+  const [selectorDraft, setSelectorDraft] = useState(splitOptions.selector);
+
+  useEffect(() => {
+    setSelectorDraft(splitOptions.selector);
+  }, [splitOptions.selector]);
+
+  // Reset the draft right away: if the change is declined it reverts, if applied the effect above picks it up
+  const commitSelector = () => {
+    if (selectorDraft === splitOptions.selector) return;
+    onSplitOptionsChange({ ...splitOptions, selector: selectorDraft });
+    setSelectorDraft(splitOptions.selector);
+  };
 
   const t = translations[lang].inputSection;
 
+  // Prompts cost an API call, so they are never auto-submitted while the user is still typing
+  const isPrompt = mode === 'prompt' || (mode === 'auto' && !!text.trim() && !looksLikeHtml(text));
+
+  const template = templates.find(tp => tp.id === promptSelection.templateId) ?? null;
+  const templateVariables = template ? findTemplateVariables(template.instruction) : [];
+  const updateVariables = (patch: Partial<PromptSelection['variables']>) => {
+    onPromptSelectionChange({ ...promptSelection, variables: { ...promptSelection.variables, ...patch } });
+  };
+
   // Refs to manage auto-submit logic and prevent double submissions
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const lastProcessedTextRef = useRef<string>('');
+  const lastProcessedTextRef = useRef<string>(initialText);
   const isFileUploadRef = useRef<boolean>(false);
 
+  useEffect(() => {
+    onInputChange?.(text, mode);
+  }, [text, mode]);
+
   // Auto-process effect for manual text entry (Debounce 1s)
   useEffect(() => {
     // If empty or currently loading, do nothing
     if (!text.trim() || isLoading) return;
 
+    // Prompt input waits for an explicit click on the generate button
+    if (isPrompt) return;
+
     // If this text update was triggered by a file upload, 
     // it's handled immediately in processFiles, so we skip the debounce here.
     if (isFileUploadRef.current) {
@@ -37,11 +99,11 @@ const InputSection: React.FC<InputSectionProps> = ({ onProcess, isLoading, lang
     const timer = setTimeout(() => {
       console.log("Auto-processing text input...");
       lastProcessedTextRef.current = text;
-      onProcess(text);
+      onProcess(text, mode, true);
     }, 1000); // 1 second delay
 
     return () => clearTimeout(timer);
-  }, [text, onProcess, isLoading]);
+  }, [text, onProcess, isLoading, isPrompt, mode]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -60,7 +122,7 @@ const InputSection: React.FC<InputSectionProps> = ({ onProcess, isLoading, lang
     // Explicitly cast to File[] to handle iterator
     const files = Array.from(e.dataTransfer.files) as File[];
     processFiles(files);
-  }, []);
+  }, [mode]);
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
@@ -116,7 +178,7 @@ const InputSection: React.FC<InputSectionProps> = ({ onProcess, isLoading, lang
       if (combinedText.trim() !== lastProcessedTextRef.current) {
         console.log("File loaded. Processing immediately.");
         lastProcessedTextRef.current = combinedText;
-        onProcess(combinedText);
+        onProcess(combinedText, mode);
       }
 
     } catch (error) {
@@ -155,6 +217,131 @@ const InputSection: React.FC<InputSectionProps> = ({ onProcess, isLoading, lang
       </div>
 
       <div className="flex-1 flex flex-col p-4 gap-4 overflow-hidden min-h-0">
+        {/* Input Mode Selector */}
+        <div className="flex items-center gap-1 bg-gray-100 p-1 rounded-lg shrink-0">
+          {(['auto', 'html', 'prompt'] as InputMode[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`flex-1 px-3 py-1.5 rounded-md text-xs font-bold transition-all ${mode === m ? 'bg-white text-brand-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              {m === 'auto' ? t.modeAuto : m === 'html' ? t.modeHtml : t.modePrompt}
+            </button>
+          ))}
+        </div>
+
+        {/* Card Split Rule */}
+        <div className="shrink-0 space-y-1.5">
+          <div className="flex items-center gap-2">
+            <label className="text-xs font-semibold text-gray-500 whitespace-nowrap">
+              <i className="fa-solid fa-scissors mr-1"></i>{t.splitMode}
+            </label>
+            <select
+              value={splitOptions.mode}
+              onChange={(e) => onSplitOptionsChange({ ...splitOptions, mode: e.target.value as SplitMode })}
+              className="flex-1 text-xs border border-gray-200 rounded-md px-2 py-1.5 bg-white text-gray-700 focus:ring-2 focus:ring-brand-500 focus:outline-none"
+            >
+              {SPLIT_MODES.map(m => (
+                <option key={m} value={m}>{t.splitModes[m]}</option>
+              ))}
+            </select>
+          </div>
+          {splitOptions.mode === 'selector' && (
+            <input
+              type="text"
+              value={selectorDraft}
+              onChange={(e) => setSelectorDraft(e.target.value)}
+              onBlur={commitSelector}
+              onKeyDown={(e) => { if (e.key === 'Enter') commitSelector(); }}
+              placeholder=".slides > .slide"
+              className="w-full text-xs font-mono border border-gray-200 rounded-md px-2 py-1.5 bg-white text-gray-700 focus:ring-2 focus:ring-brand-500 focus:outline-none"
+              spellCheck={false}
+            />
+          )}
+          {splitOptions.mode === 'marker' && (
+            <p className="text-[10px] text-gray-400">
+              {t.splitMarkerHint} <code className="font-mono text-gray-500">&lt;!-- page-break --&gt;</code>
+            </p>
+          )}
+        </div>
+
+        {/* Prompt Template */}
+        {mode !== 'html' && (
+          <div className="shrink-0 space-y-1.5">
+            <div className="flex items-center gap-2">
+              <label className="text-xs font-semibold text-gray-500 whitespace-nowrap">
+                <i className="fa-solid fa-swatchbook mr-1"></i>{t.template}
+              </label>
+              <select
+                value={promptSelection.templateId ?? ''}
+                onChange={(e) => onPromptSelectionChange({ ...promptSelection, templateId: e.target.value || null })}
+                className="flex-1 min-w-0 text-xs border border-gray-200 rounded-md px-2 py-1.5 bg-white text-gray-700 focus:ring-2 focus:ring-brand-500 focus:outline-none"
+              >
+                <option value="">{t.noTemplate}</option>
+                {templates.map(tp => (
+                  <option key={tp.id} value={tp.id}>{tp.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={onManageTemplates}
+                className="text-xs text-gray-400 hover:text-brand-600 px-1.5 py-1.5 rounded hover:bg-gray-100 transition-colors"
+                title={t.manageTemplates}
+              >
+                <i className="fa-solid fa-pen"></i>
+              </button>
+            </div>
+            {template && (
+              <>
+                {template.description && <p className="text-[10px] text-gray-400">{template.description}</p>}
+                <div className="flex flex-wrap items-center gap-2">
+                  {templateVariables.includes('slides') && (
+                    <label className="flex items-center gap-1 text-[11px] text-gray-500">
+                      {t.slides}
+                      <input
+                        type="number"
+                        min={MIN_SLIDES}
+                        max={MAX_SLIDES}
+                        value={promptSelection.variables.slides}
+                        onChange={(e) => updateVariables({ slides: Math.min(MAX_SLIDES, Math.max(MIN_SLIDES, Number(e.target.value) || MIN_SLIDES)) })}
+                        className="w-14 text-xs border border-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-brand-500 focus:outline-none"
+                      />
+                    </label>
+                  )}
+                  {templateVariables.includes('language') && (
+                    <input
+                      value={promptSelection.variables.language}
+                      onChange={(e) => updateVariables({ language: e.target.value })}
+                      placeholder={t.languagePlaceholder}
+                      list="prompt-languages"
+                      className="w-28 text-xs border border-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-brand-500 focus:outline-none"
+                      title={t.language}
+                    />
+                  )}
+                  {templateVariables.includes('tone') && (
+                    <input
+                      value={promptSelection.variables.tone}
+                      onChange={(e) => updateVariables({ tone: e.target.value })}
+                      placeholder={t.tone}
+                      list="prompt-tones"
+                      className="w-28 text-xs border border-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-brand-500 focus:outline-none"
+                      title={t.tone}
+                    />
+                  )}
+                  {templateVariables.some(v => v === 'width' || v === 'height' || v === 'aspect') && (
+                    <SizeSelector value={sessionSize} onChange={(size) => size && onSessionSizeChange(size)} compact lang={lang} />
+                  )}
+                </div>
+                <datalist id="prompt-languages">
+                  {PROMPT_LANGUAGES.map(l => <option key={l} value={l} />)}
+                </datalist>
+                <datalist id="prompt-tones">
+                  {PROMPT_TONES.map(tone => <option key={tone} value={tone} />)}
+                </datalist>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Drag & Drop Zone - Compact */}
         <div
           className={`flex-shrink-0 h-24 border-2 border-dashed rounded-xl flex flex-col items-center justify-center cursor-pointer transition-all duration-200 group
@@ -218,11 +405,17 @@ const InputSection: React.FC<InputSectionProps> = ({ onProcess, isLoading, lang
         </div>
       </div>
 
-      <div className="p-4 border-t border-gray-100 bg-gray-50 flex justify-end shrink-0">
+      <div className="p-4 border-t border-gray-100 bg-gray-50 flex items-center justify-end gap-3 shrink-0">
+        {isPrompt && !isLoading && (
+          <p className="text-[11px] text-brand-600 flex-1 leading-snug">
+            <i className="fa-solid fa-wand-magic-sparkles mr-1"></i>
+            {t.promptHint}
+          </p>
+        )}
         <button
           onClick={() => {
             lastProcessedTextRef.current = text; // Update ref to avoid double fire
-            onProcess(text);
+            onProcess(text, mode);
           }}
           disabled={!text.trim() || isLoading}
           className={`px-6 py-3 rounded-lg font-bold text-white shadow-md transition-all flex items-center gap-2 relative z-10 w-full justify-center sm:w-auto
@@ -0,0 +1,92 @@
+import React, { useEffect } from 'react';
+import { Artifact, LintIssue } from '../types';
+import { formatLintIssue } from '../utils/cardLint';
+import { translations, Language } from '../utils/translations';
+
+interface LintSummaryModalProps {
+  artifacts: Artifact[];
+  results: Record<string, LintIssue[] | null>; // null (or missing) while a card is still being checked
+  onConfirm: () => void;
+  onClose: () => void;
+  lang: Language;
+}
+
+const LintSummaryModal: React.FC<LintSummaryModalProps> = ({ artifacts, results, onConfirm, onClose, lang }) => {
+  const t = translations[lang].lint;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    document.body.style.overflow = 'hidden';
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      document.body.style.overflow = 'unset';
+    };
+  }, [onClose]);
+
+  const flagged = artifacts
+    .map((artifact, index) => ({ artifact, index, issues: results[artifact.id] ?? [] }))
+    .filter(item => item.issues.length > 0);
+  const allIssues = flagged.flatMap(item => item.issues);
+  const errors = allIssues.filter(issue => issue.severity === 'error').length;
+  const pending = artifacts.filter(artifact => !results[artifact.id]).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose}></div>
+
+      <div className="relative w-full max-w-lg max-h-[80vh] bg-white rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-gray-100 bg-gray-50 flex justify-between items-center shrink-0">
+          <h2 className="font-semibold text-gray-700 flex items-center gap-2">
+            <i className="fa-solid fa-universal-access text-brand-500"></i>
+            {t.summaryTitle}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 w-8 h-8 flex items-center justify-center rounded-full hover:bg-gray-100" title={t.cancel}>
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-4 custom-scrollbar">
+          <p className="text-sm text-gray-600">{flagged.length > 0 ? t.summaryHint : t.checkingHint}</p>
+          <div className="flex flex-wrap gap-2 text-xs font-semibold">
+            <span className="px-2 py-1 rounded-full bg-red-50 text-red-600">{errors} {t.errors}</span>
+            <span className="px-2 py-1 rounded-full bg-amber-50 text-amber-600">{allIssues.length - errors} {t.warnings}</span>
+            {pending > 0 && (
+              <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-500">
+                <i className="fa-solid fa-circle-notch fa-spin mr-1"></i>{pending} {t.pending}
+              </span>
+            )}
+          </div>
+
+          {flagged.map(({ artifact, index, issues }) => (
+            <div key={artifact.id}>
+              <p className="text-xs font-semibold text-gray-700 mb-1 truncate">{index + 1}. {artifact.title}</p>
+              <ul className="space-y-0.5">
+                {issues.map((issue, i) => (
+                  <li key={i} className="text-xs text-gray-600 flex gap-2">
+                    <i className={`fa-solid fa-circle text-[6px] mt-1.5 ${issue.severity === 'error' ? 'text-red-500' : 'text-amber-500'}`}></i>
+                    <span className="break-all">{formatLintIssue(issue, { rules: t.rules, zones: translations[lang].safeZones.zones })}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 bg-gray-50 flex justify-end gap-2 shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">
+            {t.cancel}
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-4 py-2 text-sm font-bold text-white bg-brand-600 hover:bg-brand-700 rounded-lg shadow-sm transition-colors"
+          >
+            {t.downloadAnyway}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LintSummaryModal;
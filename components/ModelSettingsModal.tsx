@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { LlmProviderId, LlmSettings, ProviderConfig } from '../types';
+import { DEFAULT_TEMPERATURE, getProviderInfo, LLM_PROVIDERS } from '../utils/llmSettings';
+import { translations, Language } from '../utils/translations';
+
+interface ModelSettingsModalProps {
+  settings: LlmSettings;
+  onSave: (settings: LlmSettings) => void;
+  onClose: () => void;
+  lang: Language;
+}
+
+const ModelSettingsModal: React.FC<ModelSettingsModalProps> = ({ settings, onSave, onClose, lang }) => {
+  const [draft, setDraft] = useState<LlmSettings>(settings);
+  const [showKey, setShowKey] = useState(false);
+  const t = translations[lang].modelSettings;
+
+  const info = getProviderInfo(draft.provider);
+  const config = draft.providers[draft.provider];
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    document.body.style.overflow = 'hidden';
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      document.body.style.overflow = 'unset';
+    };
+  }, [onClose]);
+
+  const updateConfig = (patch: Partial<ProviderConfig>) => {
+    setDraft({ ...draft, providers: { ...draft.providers, [draft.provider]: { ...config, ...patch } } });
+  };
+
+  const selectProvider = (provider: LlmProviderId) => {
+    setDraft({ ...draft, provider });
+    setShowKey(false);
+  };
+
+  const segmentClass = (active: boolean) =>
+    `flex-1 px-2 py-1.5 rounded-md text-xs font-bold transition-all ${active ? 'bg-white text-brand-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`;
+  const inputClass = 'w-full text-sm border border-gray-200 rounded-md px-3 py-2 focus:ring-2 focus:ring-brand-500 focus:outline-none';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose}></div>
+
+      <div className="relative w-full max-w-lg max-h-[90vh] bg-white rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-gray-100 bg-gray-50 flex justify-between items-center shrink-0">
+          <h2 className="font-semibold text-gray-700 flex items-center gap-2">
+            <i className="fa-solid fa-microchip text-brand-500"></i>
+            {t.title}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 w-8 h-8 flex items-center justify-center rounded-full hover:bg-gray-100" title={t.cancel}>
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5 custom-scrollbar">
+          <div>
+            <p className="text-xs font-semibold text-gray-500 mb-1.5">{t.provider}</p>
+            <div className="grid grid-cols-2 gap-1 bg-gray-100 p-1 rounded-lg">
+              {LLM_PROVIDERS.map(provider => (
+                <button key={provider.id} onClick={() => selectProvider(provider.id)} className={segmentClass(draft.provider === provider.id)}>
+                  {provider.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold text-gray-500 mb-1.5">{t.model}</p>
+            <input
+              value={config.model}
+              onChange={(e) => updateConfig({ model: e.target.value })}
+              placeholder={info.defaultModel}
+              list="model-suggestions"
+              className={`${inputClass} font-mono`}
+              spellCheck={false}
+            />
+            <datalist id="model-suggestions">
+              {info.models.map(model => <option key={model} value={model} />)}
+            </datalist>
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold text-gray-500 mb-1.5 flex justify-between">
+              <span>{t.temperature}</span>
+              <span className="font-mono">{draft.temperature.toFixed(1)}</span>
+            </p>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={draft.temperature}
+              onChange={(e) => setDraft({ ...draft, temperature: Number(e.target.value) })}
+              className="w-full accent-brand-600"
+            />
+            <div className="flex justify-between text-[10px] text-gray-400">
+              <span>{t.precise}</span>
+              <button onClick={() => setDraft({ ...draft, temperature: DEFAULT_TEMPERATURE })} className="hover:text-gray-600">
+                {t.resetTemperature}
+              </button>
+              <span>{t.creative}</span>
+            </div>
+            {draft.temperature > info.maxTemperature && (
+              <p className="text-[11px] text-amber-700 mt-1">{t.temperatureCapped} {info.maxTemperature.toFixed(1)}</p>
+            )}
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold text-gray-500 mb-1.5">
+              {t.apiKey}{!info.needsKey && <span className="font-normal text-gray-400"> ({t.optional})</span>}
+            </p>
+            <div className="relative">
+              <input
+                type={showKey ? 'text' : 'password'}
+                value={config.apiKey}
+                onChange={(e) => updateConfig({ apiKey: e.target.value })}
+                placeholder={info.needsKey ? t.apiKeyPlaceholder : ''}
+                autoComplete="off"
+                className={`${inputClass} font-mono pr-10`}
+                spellCheck={false}
+              />
+              <button
+                onClick={() => setShowKey(!showKey)}
+                className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 w-7 h-7"
+                title={showKey ? t.hideKey : t.showKey}
+              >
+                <i className={`fa-regular ${showKey ? 'fa-eye-slash' : 'fa-eye'}`}></i>
+              </button>
+            </div>
+            <p className="text-[10px] text-gray-400 mt-1">
+              <i className="fa-solid fa-lock mr-1"></i>{t.keyNotice}
+            </p>
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold text-gray-500 mb-1.5">{t.baseUrl}</p>
+            <input
+              value={config.baseUrl}
+              onChange={(e) => updateConfig({ baseUrl: e.target.value })}
+              placeholder={info.defaultBaseUrl}
+              className={`${inputClass} font-mono`}
+              spellCheck={false}
+            />
+            <p className="text-[10px] text-gray-400 mt-1">{t.baseUrlHint}</p>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-100 bg-gray-50 flex justify-end gap-2 shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">
+            {t.cancel}
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-4 py-2 text-sm font-bold text-white bg-brand-600 hover:bg-brand-700 rounded-lg shadow-sm transition-colors"
+          >
+            {t.save}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettingsModal;
@@ -1,47 +1,143 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Artifact } from '../types';
-import { parseHtmlForPreview } from '../utils/parser';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { Artifact, BrandKit, ExportSettings, GeneratedImage, LintIssue, OutputSize, ParsedHtml, ReadinessReport, RenderSettings, SafeZoneSettings } from '../types';
+import { loadStylesheets, parseHtmlForPreview, toFullHtml } from '../utils/parser';
+import { sanitizeFileName } from '../utils/fileNames';
 import { translations, Language } from '../utils/translations';
+import { getExtensionFromDataUrl, supportsTransparency, toCaptureOptions } from '../utils/exportSettings';
+import { buildFrameDocument, captureInFrame } from '../utils/cardFrame';
+import { getSandboxAttribute } from '../utils/renderSettings';
+import { formatFailedAssets, InlineAssetsResult } from '../utils/inlineAssets';
+import { createHistory, recordEdit, recordSnapshot, redo, undo } from '../utils/editHistory';
+import { AnimationProgress, exportAnimation, hasCssAnimation } from '../utils/animationExport';
+import { findPlaceholders } from '../utils/templateData';
+import { getCurrentVersion, getVersions } from '../utils/cardVersions';
+import { applyBrandKit } from '../utils/brandKit';
+import { checkCard, formatLintIssue } from '../utils/cardLint';
+import SizeSelector from './SizeSelector';
+import CardEditor from './CardEditor';
+import SafeZoneOverlay from './SafeZoneOverlay';
 
 interface PreviewCardProps {
   artifact: Artifact;
   index: number;
-  useNumbering: boolean;
+  getFileName: (extension: string) => string; // Expands the export file name template for this card
+  sessionSize: OutputSize;
+  exportSettings: ExportSettings;
+  renderSettings: RenderSettings;
+  brandKit: BrandKit;
+  safeZone: SafeZoneSettings;
+  onPrepareHtml: (html: string) => Promise<InlineAssetsResult>;
+  onSizeChange: (id: string, size: OutputSize | undefined) => void;
+  onTitleChange: (id: string, title: string) => void;
+  onOpenViewer: (id: string) => void;
+  onFillTemplate: (id: string) => void;
+  onRefine: (id: string, instruction: string) => Promise<void>; // Rejects with a message to show under the prompt
+  onSelectVersion: (id: string, index: number) => void;
+  onCodeChange: (id: string, code: string) => void;
+  onSplit: (id: string) => void;
+  onMergeWithNext?: (id: string) => void; // Omitted for the last card
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onDragStart: (id: string) => void;
+  onDragEnd: () => void;
   onDownloadStart: () => void;
   onDownloadEnd: () => void;
-  onRegister: (id: string, fn: () => Promise<{ name: string, dataUrl: string } | null>) => void;
+  onRegister: (id: string, fn: () => Promise<GeneratedImage | null>) => void;
   onUnregister: (id: string) => void;
+  onLintResult: (id: string, issues: LintIssue[] | null) => void; // null while a check is pending
   lang: Language;
 }
 
 const PreviewCard: React.FC<PreviewCardProps> = ({
   artifact,
   index,
-  useNumbering,
+  getFileName,
+  sessionSize,
+  exportSettings,
+  renderSettings,
+  brandKit,
+  safeZone,
+  onPrepareHtml,
+  onSizeChange,
+  onTitleChange,
+  onOpenViewer,
+  onFillTemplate,
+  onRefine,
+  onSelectVersion,
+  onCodeChange,
+  onSplit,
+  onMergeWithNext,
+  onDuplicate,
+  onDelete,
+  onDragStart,
+  onDragEnd,
   onDownloadStart,
   onDownloadEnd,
   onRegister,
   onUnregister,
+  onLintResult,
   lang
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [animationProgress, setAnimationProgress] = useState<AnimationProgress | null>(null);
+  const [draftTitle, setDraftTitle] = useState<string | null>(null);
   const [scale, setScale] = useState(0.2);
-  const [parsed, setParsed] = useState<{ styles: string; bodyContent: string }>({ styles: '', bodyContent: '' });
+  const [readiness, setReadiness] = useState<ReadinessReport | null>(null);
+  const [lintIssues, setLintIssues] = useState<LintIssue[] | null>(null);
+  const [parsed, setParsed] = useState<ParsedHtml>({ styles: '', bodyContent: '', stylesheets: [] });
+  const [isEditing, setIsEditing] = useState(false);
+  const [isRefineOpen, setIsRefineOpen] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [isRefining, setIsRefining] = useState(false);
+  const [refineError, setRefineError] = useState<string | null>(null);
+  const [history, setHistory] = useState(() => createHistory(artifact.code));
   const wrapperId = `preview-${artifact.id}`;
+  const size = artifact.size ?? sessionSize;
+  const isTransparent = exportSettings.background === 'transparent' && supportsTransparency(exportSettings.format);
+  // With scripts disabled the card is inlined as scoped markup; otherwise it gets its own sandboxed frame
+  const useFramePreview = renderSettings.scriptPolicy !== 'off';
 
   const t = translations[lang].previewCard;
+  const tLint = translations[lang].lint;
+  const tZones = translations[lang].safeZones;
 
+  // Changes made outside the editor (e.g. re-extraction) become an undoable step
   useEffect(() => {
-    const { styles, bodyContent } = parseHtmlForPreview(artifact.code, wrapperId);
-    setParsed({ styles, bodyContent });
-  }, [artifact.code, wrapperId]);
+    setHistory(h => h.present === artifact.code ? h : recordSnapshot(h, artifact.code));
+  }, [artifact.code]);
+
+  // Push edits to the artifact after a short pause so the preview doesn't reload on every keystroke
+  useEffect(() => {
+    if (history.present === artifact.code) return;
+    const timer = setTimeout(() => onCodeChange(artifact.id, history.present), 300);
+    return () => clearTimeout(timer);
+  }, [history.present]);
+
+  useEffect(() => {
+    if (useFramePreview) return;
+
+    const initial = parseHtmlForPreview(artifact.code, wrapperId, '', brandKit);
+    setParsed(initial);
+    if (initial.stylesheets.length === 0) return;
+
+    // Re-scope once linked stylesheets arrive so they can't leak into the app either
+    let cancelled = false;
+    loadStylesheets(initial.stylesheets).then(externalCss => {
+      if (!cancelled && externalCss) {
+        setParsed(parseHtmlForPreview(artifact.code, wrapperId, externalCss, brandKit));
+      }
+    });
+    return () => { cancelled = true; };
+  }, [artifact.code, wrapperId, useFramePreview, brandKit]);
 
   useEffect(() => {
     const updateScale = () => {
       if (containerRef.current) {
         const availableWidth = containerRef.current.offsetWidth;
-        const designWidth = 1080;
-        const newScale = Math.min(availableWidth / designWidth, 1);
+        const availableHeight = containerRef.current.offsetHeight;
+        const newScale = Math.min(availableWidth / size.width, availableHeight / size.height, 1);
         setScale(newScale - 0.05);
       }
     };
@@ -52,122 +148,84 @@ const PreviewCard: React.FC<PreviewCardProps> = ({
       window.removeEventListener('resize', updateScale);
       clearTimeout(timer);
     };
-  }, [parsed]);
+  }, [parsed, size.width, size.height]);
 
-  const getFullHtml = () => {
-    const code = artifact.code.trim();
-    if (code.match(/^\s*<!DOCTYPE/i) || code.match(/^\s*<html/i)) {
-      return code;
-    }
-
-    return `<!DOCTYPE html>\n<html lang="ko">\n<head>\n<meta charset="UTF-8">\n<title>${artifact.title}</title>\n</head>\n<body style="margin:0;padding:0;background:#fff;">\n${artifact.code}\n</body>\n</html>`;
-  };
+  // The brand kit is part of the card everywhere it leaves this component: frame preview, capture and HTML download
+  const getFullHtml = (transparent = false) => applyBrandKit(toFullHtml(artifact, transparent ? 'transparent' : '#fff'), brandKit);
 
-  const generateImage = useCallback(async (): Promise<{ name: string, dataUrl: string } | null> => {
-    const fullHtml = getFullHtml();
-    const iframe = document.createElement('iframe');
-    Object.assign(iframe.style, {
-      position: 'fixed',
-      left: '0',
-      top: '0',
-      zIndex: '-9999',
-      visibility: 'visible',
-      border: 'none',
-      backgroundColor: '#ffffff',
-      width: '1920px',
-      height: '1080px'
-    });
+  const frameDocument = useMemo(
+    () => useFramePreview ? buildFrameDocument(getFullHtml(), size, renderSettings) : '',
+    [useFramePreview, artifact.code, artifact.title, size.width, size.height, renderSettings, brandKit]
+  );
 
-    document.body.appendChild(iframe);
+  // Re-check readability once edits settle; the check renders the card as it will be exported
+  useEffect(() => {
+    let cancelled = false;
+    onLintResult(artifact.id, null);
+    const timer = setTimeout(() => {
+      checkCard(getFullHtml(), size, renderSettings, safeZone.check ? safeZone.preset : null)
+        .then(issues => {
+          if (cancelled) return;
+          setLintIssues(issues);
+          onLintResult(artifact.id, issues);
+        })
+        .catch(() => {
+          // A card that can't be checked shouldn't hold up downloads
+          if (cancelled) return;
+          setLintIssues(null);
+          onLintResult(artifact.id, []);
+        });
+    }, 800);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [artifact.code, artifact.title, size.width, size.height, renderSettings, brandKit, safeZone.check, safeZone.preset]);
 
+  const generateImage = useCallback(async (): Promise<GeneratedImage | null> => {
     try {
-      const doc = iframe.contentDocument || iframe.contentWindow?.document;
-      if (!doc) throw new Error("Could not access iframe document");
-
-      doc.open();
-      doc.write(fullHtml);
-      doc.close();
-
-      await new Promise<void>((resolve) => {
-        iframe.onload = () => {
-          if ((doc as any).fonts) {
-            (doc as any).fonts.ready.then(() => setTimeout(resolve, 500));
-          } else {
-            setTimeout(resolve, 1000);
-          }
-        };
-        setTimeout(resolve, 3000);
-      });
-
-      const body = doc.body;
-      const html = doc.documentElement;
-      body.style.margin = '0';
-      body.style.padding = '0';
-      html.style.margin = '0';
-      html.style.padding = '0';
-
-      const fullHeight = Math.max(body.scrollHeight, body.offsetHeight, html.scrollHeight, html.offsetHeight);
-      iframe.style.height = `${fullHeight + 100}px`;
-
-      let targetNode: HTMLElement = body;
-      const visualChildren = Array.from(body.children).filter(el =>
-        !['SCRIPT', 'STYLE', 'LINK', 'META', 'TITLE'].includes(el.tagName) &&
-        el.nodeType === 1
-      );
-
-      if (visualChildren.length === 1) {
-        targetNode = visualChildren[0] as HTMLElement;
-      } else {
-        body.style.width = 'fit-content';
-        body.style.height = 'fit-content';
-        body.style.display = 'inline-block';
-      }
+      const capture = await captureInFrame(getFullHtml(isTransparent), size, renderSettings, toCaptureOptions(exportSettings));
+      setReadiness(capture.readiness);
+      const extension = getExtensionFromDataUrl(capture.dataUrl, exportSettings.format);
+      const safeTitle = sanitizeFileName(artifact.title, 'image');
 
-      const rect = targetNode.getBoundingClientRect();
-      const width = rect.width > 0 ? rect.width : 1920;
-      const height = rect.height > 0 ? rect.height : fullHeight;
-
-      const w = window as any;
-      const canvas = await w.html2canvas(targetNode, {
-        scale: 2,
-        useCORS: true,
-        allowTaint: true,
-        backgroundColor: '#ffffff',
-        width: width,
-        height: height,
-        windowWidth: width,
-        windowHeight: height,
-        logging: false,
-        imageTimeout: 5000,
-        removeContainer: true
-      });
-
-      const dataUrl = canvas.toDataURL('image/jpeg', 0.90);
-      const safeTitle = artifact.title.replace(/[\\/:*?"<>|]/g, '_').trim() || 'image';
-
-      return { name: safeTitle, dataUrl };
+      return { name: safeTitle, dataUrl: capture.dataUrl, extension, width: capture.width, height: capture.height, readiness: capture.readiness };
     } catch (err) {
       console.error("Image generation failed:", err);
       return null;
+    }
+  }, [artifact.title, artifact.code, size.width, size.height, exportSettings, renderSettings, isTransparent, brandKit]);
+
+  const commitTitle = () => {
+    const title = draftTitle?.trim();
+    if (title && title !== artifact.title) onTitleChange(artifact.id, title);
+    setDraftTitle(null);
+  };
+
+  const handleHtmlDownload = async () => {
+    onDownloadStart();
+    try {
+      const exported = await onPrepareHtml(getFullHtml());
+
+      const blob = new Blob([exported.html], { type: 'text/html' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getFileName('html');
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      if (exported.failed.length > 0) {
+        alert(`${translations[lang].resultsSection.failedAssets}\n${formatFailedAssets(exported.failed)}`);
+      }
+    } catch (err) {
+      console.error("HTML export failed:", err);
+      alert(`${t.htmlFailed}\n${err instanceof Error ? err.message : String(err)}`);
     } finally {
-      if (document.body.contains(iframe)) document.body.removeChild(iframe);
+      onDownloadEnd();
     }
-  }, [artifact.title, artifact.code]);
-
-  const handleHtmlDownload = () => {
-    const prefix = useNumbering ? `${String(index + 1).padStart(2, '0')}_` : '';
-    const safeTitle = artifact.title.replace(/[\\/:*?"<>|]/g, '_').trim() || 'design';
-    const fullHtml = getFullHtml();
-
-    const blob = new Blob([fullHtml], { type: 'text/html' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${prefix}${safeTitle}.html`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
   };
 
   useEffect(() => {
@@ -175,13 +233,54 @@ const PreviewCard: React.FC<PreviewCardProps> = ({
     return () => onUnregister(artifact.id);
   }, [artifact.id, generateImage, onRegister, onUnregister]);
 
+  const handleAnimationDownload = async () => {
+    onDownloadStart();
+    setAnimationProgress({ stage: 'capturing', frame: 0, total: 0 });
+    try {
+      const result = await exportAnimation(getFullHtml(isTransparent), size, renderSettings, exportSettings, setAnimationProgress);
+      setReadiness(result.readiness);
+
+      const url = URL.createObjectURL(result.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getFileName(result.extension);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Animation export failed:", err);
+      alert(`${t.animationFailed}\n${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setAnimationProgress(null);
+      onDownloadEnd();
+    }
+  };
+
+  const handleRefine = async () => {
+    if (!instruction.trim() || isRefining) return;
+    setIsRefining(true);
+    setRefineError(null);
+    try {
+      await onRefine(artifact.id, instruction);
+      setInstruction('');
+    } catch (err) {
+      setRefineError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const versions = getVersions(artifact);
+  const currentVersion = getCurrentVersion(artifact);
+  const lintErrors = lintIssues?.filter(issue => issue.severity === 'error').length ?? 0;
+
   const handleManualDownloadClick = async () => {
     onDownloadStart();
     const result = await generateImage();
     if (result) {
-      const prefix = useNumbering ? `${String(index + 1).padStart(2, '0')}_` : '';
       const link = document.createElement('a');
-      link.download = `${prefix}${result.name}.jpg`;
+      link.download = getFileName(result.extension);
       link.href = result.dataUrl;
       link.click();
     } else {
@@ -191,17 +290,141 @@ const PreviewCard: React.FC<PreviewCardProps> = ({
   };
 
   return (
-    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden flex flex-col">
+    <div ref={cardRef} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden flex flex-col">
       <div className="p-3 border-b border-gray-100 bg-gray-50 flex justify-between items-center">
         <div className="flex items-center gap-2 overflow-hidden">
+          {/* Drag handle; the whole card is shown as the drag image */}
+          <span
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              e.dataTransfer.setData('text/plain', artifact.id);
+              if (cardRef.current) e.dataTransfer.setDragImage(cardRef.current, 24, 24);
+              onDragStart(artifact.id);
+            }}
+            onDragEnd={onDragEnd}
+            className="flex-shrink-0 text-gray-300 hover:text-gray-500 cursor-grab active:cursor-grabbing px-0.5"
+            title={t.dragToReorder}
+          >
+            <i className="fa-solid fa-grip-vertical"></i>
+          </span>
           <span className="flex-shrink-0 w-6 h-6 rounded bg-gray-200 text-gray-500 text-[10px] font-bold flex items-center justify-center">
             {String(index + 1).padStart(2, '0')}
           </span>
-          <h3 className="font-semibold text-gray-700 text-sm truncate max-w-[150px]" title={artifact.title}>
-            {artifact.title}
-          </h3>
+          {draftTitle !== null ? (
+            <input
+              autoFocus
+              value={draftTitle}
+              onChange={(e) => setDraftTitle(e.target.value)}
+              onFocus={(e) => e.target.select()}
+              onBlur={commitTitle}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitTitle();
+                if (e.key === 'Escape') setDraftTitle(null);
+              }}
+              className="font-semibold text-gray-700 text-sm w-[150px] border border-brand-300 rounded px-1 py-0.5 focus:outline-none focus:ring-2 focus:ring-brand-500"
+            />
+          ) : (
+            <h3
+              onClick={() => setDraftTitle(artifact.title)}
+              className="font-semibold text-gray-700 text-sm truncate max-w-[150px] cursor-text hover:bg-white hover:ring-1 hover:ring-gray-200 rounded px-1 -mx-1"
+              title={`${artifact.title}\n${t.editTitle}`}
+            >
+              {artifact.title}
+            </h3>
+          )}
+          {readiness && (readiness.failed.length > 0 || readiness.timedOut) && (
+            <span
+              className="flex-shrink-0 text-amber-500 text-xs cursor-help"
+              title={[
+                readiness.failed.length > 0 ? `${t.resourcesFailed} (${readiness.failed.length}):\n${readiness.failed.join('\n')}` : '',
+                readiness.timedOut ? `${t.captureTimedOut}${readiness.pending.length > 0 ? `:\n${readiness.pending.join('\n')}` : ''}` : ''
+              ].filter(Boolean).join('\n\n')}
+            >
+              <i className="fa-solid fa-triangle-exclamation"></i>
+            </span>
+          )}
+          {lintIssues && (
+            <span
+              className={`flex-shrink-0 text-xs cursor-help flex items-center gap-0.5 ${lintErrors > 0 ? 'text-red-500' : lintIssues.length > 0 ? 'text-amber-500' : 'text-gray-300'}`}
+              title={lintIssues.length > 0 ? `${tLint.title}:\n${lintIssues.map(issue => formatLintIssue(issue, { rules: tLint.rules, zones: tZones.zones })).join('\n')}` : tLint.passed}
+            >
+              <i className="fa-solid fa-universal-access"></i>
+              {lintIssues.length > 0 && <span className="text-[10px] font-bold">{lintIssues.length}</span>}
+            </span>
+          )}
         </div>
-        <div className="flex gap-2">
+        <div className="flex gap-2 items-center">
+          <div className="flex">
+            <button
+              onClick={() => setIsRefineOpen(!isRefineOpen)}
+              className={`text-xs px-1.5 py-1.5 rounded transition-colors flex items-center gap-1 ${isRefineOpen ? 'text-brand-600 bg-white' : 'text-gray-400 hover:text-brand-600 hover:bg-white'}`}
+              title={t.refine}
+            >
+              <i className="fa-solid fa-wand-magic-sparkles"></i>
+              {versions.length > 1 && <span className="text-[10px] font-bold">v{currentVersion + 1}</span>}
+            </button>
+            <button
+              onClick={() => setIsEditing(!isEditing)}
+              className={`text-xs px-1.5 py-1.5 rounded transition-colors ${isEditing ? 'text-brand-600 bg-white' : 'text-gray-400 hover:text-brand-600 hover:bg-white'}`}
+              title={t.editCode}
+            >
+              <i className="fa-solid fa-pen-to-square"></i>
+            </button>
+            <div className="relative">
+              <button
+                onClick={() => setIsMenuOpen(!isMenuOpen)}
+                className={`text-xs px-1.5 py-1.5 rounded transition-colors ${isMenuOpen ? 'text-brand-600 bg-white' : 'text-gray-400 hover:text-brand-600 hover:bg-white'}`}
+                title={t.moreActions}
+              >
+                <i className="fa-solid fa-ellipsis-vertical"></i>
+              </button>
+              {isMenuOpen && (
+                <>
+                  <div className="fixed inset-0 z-30" onClick={() => setIsMenuOpen(false)}></div>
+                  <div className="absolute right-0 mt-1 w-52 bg-white border border-gray-200 rounded-lg shadow-xl py-1 z-40 text-xs">
+                    {[
+                      { icon: 'fa-regular fa-copy', label: t.duplicate, action: () => onDuplicate(artifact.id) },
+                      { icon: 'fa-solid fa-scissors', label: t.split, action: () => onSplit(artifact.id) },
+                      ...(onMergeWithNext ? [{ icon: 'fa-solid fa-object-group', label: t.mergeWithNext, action: () => onMergeWithNext(artifact.id) }] : []),
+                      ...(findPlaceholders(artifact.code).length > 0 ? [{
+                        icon: 'fa-solid fa-table-list',
+                        label: t.fillFromData,
+                        action: () => onFillTemplate(artifact.id)
+                      }] : []),
+                      ...(hasCssAnimation(artifact.code) && !animationProgress ? [{
+                        icon: 'fa-solid fa-film',
+                        label: `${t.downloadAnimation} (${exportSettings.animationFormat.toUpperCase()})`,
+                        action: handleAnimationDownload
+                      }] : [])
+                    ].map(item => (
+                      <button
+                        key={item.label}
+                        onClick={() => { setIsMenuOpen(false); item.action(); }}
+                        className="w-full text-left px-3 py-2 text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                      >
+                        <i className={`${item.icon} w-4 text-gray-400`}></i> {item.label}
+                      </button>
+                    ))}
+                    <div className="border-t border-gray-100 my-1"></div>
+                    <button
+                      onClick={() => { setIsMenuOpen(false); onDelete(artifact.id); }}
+                      className="w-full text-left px-3 py-2 text-red-600 hover:bg-red-50 flex items-center gap-2"
+                    >
+                      <i className="fa-regular fa-trash-can w-4"></i> {t.delete}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+          <SizeSelector
+            value={artifact.size}
+            onChange={(newSize) => onSizeChange(artifact.id, newSize)}
+            allowInherit
+            compact
+            lang={lang}
+          />
           <button
             onClick={handleHtmlDownload}
             className="text-xs bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-2.5 py-1.5 rounded transition-colors flex items-center gap-1.5"
@@ -212,32 +435,135 @@ const PreviewCard: React.FC<PreviewCardProps> = ({
             onClick={handleManualDownloadClick}
             className="text-xs bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-2.5 py-1.5 rounded transition-colors flex items-center gap-1.5"
           >
-            <i className="fa-solid fa-download text-brand-600"></i> {t.jpgBtn}
+            <i className="fa-solid fa-download text-brand-600"></i> {exportSettings.format.toUpperCase()}
           </button>
         </div>
       </div>
 
       <div
         ref={containerRef}
-        className="relative flex-1 bg-gray-100 overflow-hidden flex items-center justify-center min-h-[300px]"
+        onClick={() => onOpenViewer(artifact.id)}
+        className="group relative flex-1 bg-gray-100 overflow-hidden min-h-[300px] cursor-zoom-in"
+        style={{ aspectRatio: `${size.width} / ${size.height}` }}
+        title={t.openViewer}
       >
+        <span className="absolute top-2 right-2 z-10 w-8 h-8 rounded-full bg-black/50 text-white text-xs flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+          <i className="fa-solid fa-expand"></i>
+        </span>
+        {isRefining && (
+          <div className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10 bg-slate-800/90 text-white text-xs font-medium px-3 py-1.5 rounded-full flex items-center gap-2 whitespace-nowrap">
+            <i className="fa-solid fa-circle-notch fa-spin"></i>
+            {t.refining}
+          </div>
+        )}
+        {animationProgress && (
+          <div className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10 bg-slate-800/90 text-white text-xs font-medium px-3 py-1.5 rounded-full flex items-center gap-2 whitespace-nowrap">
+            <i className="fa-solid fa-circle-notch fa-spin"></i>
+            {animationProgress.stage === 'capturing'
+              ? `${t.capturingFrames} ${animationProgress.frame}/${animationProgress.total || '…'}`
+              : t.encodingAnimation}
+          </div>
+        )}
         <div
           style={{
-            transform: `scale(${scale})`,
+            position: 'absolute',
+            left: '50%',
+            top: '50%',
+            transform: `translate(-50%, -50%) scale(${scale})`,
             transformOrigin: 'center center',
-            width: '1080px',
-            height: '1080px',
+            width: `${size.width}px`,
+            height: `${size.height}px`,
           }}
-          className="flex-shrink-0 bg-white shadow-xl flex items-center justify-center"
+          className="bg-white shadow-xl flex items-center justify-center"
         >
-          <style>{parsed.styles}</style>
-          <div
-            id={wrapperId}
-            className="w-full h-full overflow-hidden"
-            dangerouslySetInnerHTML={{ __html: parsed.bodyContent }}
-          />
+          {useFramePreview ? (
+            <iframe
+              title={artifact.title}
+              sandbox={getSandboxAttribute(renderSettings.scriptPolicy)}
+              srcDoc={frameDocument}
+              className="w-full h-full border-0 pointer-events-none"
+            />
+          ) : (
+            <>
+              <style>{parsed.styles}</style>
+              <div
+                id={wrapperId}
+                className="w-full h-full overflow-hidden"
+                dangerouslySetInnerHTML={{ __html: parsed.bodyContent }}
+              />
+            </>
+          )}
         </div>
+        {safeZone.showOverlay && (
+          <div
+            className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+            style={{ width: size.width * scale, height: size.height * scale }}
+          >
+            <SafeZoneOverlay preset={safeZone.preset} size={size} scale={scale} />
+          </div>
+        )}
       </div>
+
+      {isRefineOpen && (
+        <div className="border-t border-gray-100 bg-gray-50 p-3 space-y-2">
+          {versions.length > 1 && (
+            <div className="flex items-center gap-1 flex-wrap">
+              <span className="text-[11px] font-semibold text-gray-500 mr-1">{t.versions}</span>
+              {versions.map((version, i) => (
+                <button
+                  key={i}
+                  onClick={() => onSelectVersion(artifact.id, i)}
+                  disabled={isRefining}
+                  className={`text-[11px] font-bold px-2 py-0.5 rounded transition-colors disabled:opacity-50 ${i === currentVersion ? 'bg-brand-600 text-white' : 'bg-white border border-gray-200 text-gray-600 hover:border-brand-300'}`}
+                  title={version.instruction ?? (i === 0 ? t.originalVersion : t.editedVersion)}
+                >
+                  v{i + 1}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2 items-end">
+            <textarea
+              autoFocus
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleRefine();
+                }
+                if (e.key === 'Escape') setIsRefineOpen(false);
+              }}
+              placeholder={t.refinePlaceholder}
+              rows={2}
+              disabled={isRefining}
+              className="flex-1 resize-none text-xs p-2 rounded-md border border-gray-200 bg-white focus:ring-2 focus:ring-brand-500 focus:outline-none disabled:opacity-60"
+            />
+            <button
+              onClick={handleRefine}
+              disabled={!instruction.trim() || isRefining}
+              className="text-xs font-bold text-white bg-brand-600 hover:bg-brand-700 px-3 py-2 rounded-md shadow-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-1.5"
+            >
+              <i className={`fa-solid ${isRefining ? 'fa-circle-notch fa-spin' : 'fa-wand-magic-sparkles'}`}></i>
+              {t.refineBtn}
+            </button>
+          </div>
+          {refineError && <p className="text-xs text-red-600">{refineError}</p>}
+        </div>
+      )}
+
+      {isEditing && (
+        <CardEditor
+          code={history.present}
+          onChange={(code) => setHistory(h => recordEdit(h, code))}
+          onUndo={() => setHistory(undo)}
+          onRedo={() => setHistory(redo)}
+          canUndo={history.past.length > 0}
+          canRedo={history.future.length > 0}
+          onClose={() => setIsEditing(false)}
+          lang={lang}
+        />
+      )}
     </div>
   );
 };
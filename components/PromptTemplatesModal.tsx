@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { PromptTemplate } from '../types';
+import { BUILT_IN_TEMPLATES, createTemplateId, TEMPLATE_VARIABLES } from '../utils/promptTemplates';
+import { translations, Language } from '../utils/translations';
+
+interface PromptTemplatesModalProps {
+  templates: PromptTemplate[];
+  initialId: string | null;
+  onSave: (templates: PromptTemplate[], selectedId: string | null) => void;
+  onClose: () => void;
+  lang: Language;
+}
+
+const PromptTemplatesModal: React.FC<PromptTemplatesModalProps> = ({ templates, initialId, onSave, onClose, lang }) => {
+  const [drafts, setDrafts] = useState<PromptTemplate[]>(templates);
+  const [selectedId, setSelectedId] = useState<string | null>(initialId ?? templates[0]?.id ?? null);
+  const t = translations[lang].promptTemplates;
+
+  const selected = drafts.find(d => d.id === selectedId) ?? null;
+  const original = selected?.builtIn ? BUILT_IN_TEMPLATES.find(b => b.id === selected.id) : undefined;
+  const isModified = !!original && !!selected && (
+    original.name !== selected.name || original.description !== selected.description || original.instruction !== selected.instruction
+  );
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    document.body.style.overflow = 'hidden';
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      document.body.style.overflow = 'unset';
+    };
+  }, [onClose]);
+
+  const update = (patch: Partial<PromptTemplate>) => {
+    setDrafts(prev => prev.map(d => d.id === selectedId ? { ...d, ...patch } : d));
+  };
+
+  const addTemplate = (source?: PromptTemplate) => {
+    const template: PromptTemplate = source
+      ? { ...source, id: createTemplateId(), name: `${source.name} ${t.copySuffix}`, builtIn: false }
+      : { id: createTemplateId(), name: t.untitled, description: '', instruction: t.newInstruction, builtIn: false };
+    setDrafts(prev => [...prev, template]);
+    setSelectedId(template.id);
+  };
+
+  const removeTemplate = (id: string) => {
+    const remaining = drafts.filter(d => d.id !== id);
+    setDrafts(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const insertVariable = (name: string) => {
+    if (selected) update({ instruction: `${selected.instruction}{${name}}` });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose}></div>
+
+      <div className="relative w-full max-w-4xl h-[80vh] bg-white rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-gray-100 bg-gray-50 flex justify-between items-center shrink-0">
+          <h2 className="font-semibold text-gray-700 flex items-center gap-2">
+            <i className="fa-solid fa-swatchbook text-brand-500"></i>
+            {t.title}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 w-8 h-8 flex items-center justify-center rounded-full hover:bg-gray-100" title={t.cancel}>
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-56 border-r border-gray-100 flex flex-col shrink-0">
+            <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
+              {drafts.map(template => (
+                <button
+                  key={template.id}
+                  onClick={() => setSelectedId(template.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${template.id === selectedId ? 'bg-brand-50 text-brand-700' : 'text-gray-700 hover:bg-gray-50'}`}
+                >
+                  <span className="font-semibold block truncate">{template.name || t.untitled}</span>
+                  <span className="text-[10px] text-gray-400 block truncate">{template.builtIn ? t.builtIn : t.custom}</span>
+                </button>
+              ))}
+            </div>
+            <div className="p-2 border-t border-gray-100">
+              <button
+                onClick={() => addTemplate()}
+                className="w-full text-xs text-brand-600 hover:text-brand-700 hover:bg-brand-50 font-medium px-3 py-2 rounded-lg"
+              >
+                <i className="fa-solid fa-plus mr-1"></i>{t.newTemplate}
+              </button>
+            </div>
+          </div>
+
+          {selected ? (
+            <div className="flex-1 flex flex-col p-5 gap-3 min-w-0 overflow-y-auto custom-scrollbar">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <p className="text-xs font-semibold text-gray-500 mb-1.5">{t.name}</p>
+                  <input
+                    value={selected.name}
+                    onChange={(e) => update({ name: e.target.value })}
+                    className="w-full text-sm border border-gray-200 rounded-md px-3 py-2 focus:ring-2 focus:ring-brand-500 focus:outline-none"
+                  />
+                </div>
+                <div>
+                  <p className="text-xs font-semibold text-gray-500 mb-1.5">{t.description}</p>
+                  <input
+                    value={selected.description}
+                    onChange={(e) => update({ description: e.target.value })}
+                    className="w-full text-sm border border-gray-200 rounded-md px-3 py-2 focus:ring-2 focus:ring-brand-500 focus:outline-none"
+                  />
+                </div>
+              </div>
+
+              <div className="flex-1 flex flex-col min-h-[200px]">
+                <div className="flex justify-between items-center mb-1.5 gap-2">
+                  <p className="text-xs font-semibold text-gray-500">{t.instruction}</p>
+                  <div className="flex flex-wrap gap-1 justify-end">
+                    {TEMPLATE_VARIABLES.map(name => (
+                      <button
+                        key={name}
+                        onClick={() => insertVariable(name)}
+                        className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-gray-100 text-gray-600 hover:bg-brand-50 hover:text-brand-700"
+                        title={t.insertVariable}
+                      >
+                        {`{${name}}`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <textarea
+                  value={selected.instruction}
+                  onChange={(e) => update({ instruction: e.target.value })}
+                  className="flex-1 w-full resize-none p-3 rounded-lg border border-gray-200 bg-gray-50 text-gray-800 font-mono text-xs leading-relaxed focus:ring-2 focus:ring-brand-500 focus:outline-none focus:bg-white custom-scrollbar"
+                  spellCheck={false}
+                />
+                <p className="text-[10px] text-gray-400 mt-1">{t.instructionHint}</p>
+              </div>
+
+              <div className="flex gap-3 text-xs">
+                <button onClick={() => addTemplate(selected)} className="text-gray-500 hover:text-gray-700">
+                  <i className="fa-regular fa-copy mr-1"></i>{t.duplicate}
+                </button>
+                {selected.builtIn ? (
+                  isModified && original && (
+                    <button onClick={() => update(original)} className="text-gray-500 hover:text-gray-700">
+                      <i className="fa-solid fa-rotate-left mr-1"></i>{t.resetBuiltIn}
+                    </button>
+                  )
+                ) : (
+                  <button onClick={() => removeTemplate(selected.id)} className="text-red-500 hover:text-red-600">
+                    <i className="fa-regular fa-trash-can mr-1"></i>{t.delete}
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-sm text-gray-400">{t.empty}</div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 bg-gray-50 flex justify-end gap-2 shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">
+            {t.cancel}
+          </button>
+          <button
+            onClick={() => onSave(drafts, null)}
+            className="px-4 py-2 text-sm font-medium text-brand-700 bg-brand-50 hover:bg-brand-100 rounded-lg transition-colors"
+          >
+            {t.save}
+          </button>
+          <button
+            onClick={() => onSave(drafts, selectedId)}
+            disabled={!selected}
+            className="px-4 py-2 text-sm font-bold text-white bg-brand-600 hover:bg-brand-700 rounded-lg shadow-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {t.saveAndUse}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatesModal;
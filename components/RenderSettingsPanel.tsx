@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { RenderSettings, ScriptPolicy } from '../types';
+import { MAX_READY_TIMEOUT, MIN_READY_TIMEOUT, READY_MODES, SCRIPT_POLICIES } from '../utils/renderSettings';
+import { translations, Language } from '../utils/translations';
+
+interface RenderSettingsPanelProps {
+  settings: RenderSettings;
+  onChange: (settings: RenderSettings) => void;
+  lang: Language;
+}
+
+const RenderSettingsPanel: React.FC<RenderSettingsPanelProps> = ({ settings, onChange, lang }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const t = translations[lang].renderSettings;
+
+  const update = (patch: Partial<RenderSettings>) => onChange({ ...settings, ...patch });
+
+  const segmentClass = (active: boolean) =>
+    `flex-1 px-2 py-1.5 rounded-md text-xs font-bold transition-all ${active ? 'bg-white text-brand-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`;
+
+  const policyIcon: Record<ScriptPolicy, string> = {
+    off: 'fa-ban',
+    sandboxed: 'fa-shield-halved',
+    trusted: 'fa-triangle-exclamation'
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 px-3 py-2.5 rounded-lg text-sm font-medium flex items-center gap-2 shadow-sm transition-all"
+        title={t.title}
+      >
+        <i className={`fa-solid ${policyIcon[settings.scriptPolicy]} ${settings.scriptPolicy === 'trusted' ? 'text-amber-500' : 'text-brand-600'}`}></i>
+        {t.scripts}: {t.policies[settings.scriptPolicy]}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setIsOpen(false)}></div>
+          <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-xl shadow-2xl p-4 z-40 space-y-4">
+            <h4 className="text-sm font-bold text-gray-700">{t.title}</h4>
+
+            <div>
+              <p className="text-xs font-semibold text-gray-500 mb-1.5">{t.scriptPolicy}</p>
+              <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+                {SCRIPT_POLICIES.map(policy => (
+                  <button key={policy} onClick={() => update({ scriptPolicy: policy })} className={segmentClass(settings.scriptPolicy === policy)}>
+                    {t.policies[policy]}
+                  </button>
+                ))}
+              </div>
+              <p className={`text-[10px] mt-1 ${settings.scriptPolicy === 'trusted' ? 'text-amber-600' : 'text-gray-400'}`}>
+                {t.policyHints[settings.scriptPolicy]}
+              </p>
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold text-gray-500 mb-1.5">{t.readyMode}</p>
+              <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+                {READY_MODES.map(mode => (
+                  <button key={mode} onClick={() => update({ readyMode: mode })} className={segmentClass(settings.readyMode === mode)}>
+                    {t.readyModes[mode]}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-gray-400 mt-1">
+                {t.readyModeHints[settings.readyMode]}
+                {settings.readyMode === 'hook' && <code className="font-mono text-gray-500 ml-1">window.__cardReady()</code>}
+              </p>
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold text-gray-500 mb-1.5 flex justify-between">
+                <span>{settings.readyMode === 'timeout' ? t.waitTime : t.readyTimeout}</span>
+                <span className="font-mono">{(settings.readyTimeout / 1000).toFixed(1)}s</span>
+              </p>
+              <input
+                type="range"
+                min={MIN_READY_TIMEOUT}
+                max={MAX_READY_TIMEOUT}
+                step={500}
+                value={settings.readyTimeout}
+                onChange={(e) => update({ readyTimeout: Number(e.target.value) })}
+                className="w-full accent-brand-600"
+              />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RenderSettingsPanel;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { OutputSize, SafeZonePresetId, SafeZoneRegionId } from '../types';
+import { getSafeZoneRegions } from '../utils/safeZones';
+
+interface SafeZoneOverlayProps {
+  preset: SafeZonePresetId;
+  size: OutputSize;
+  scale: number;
+  labels?: Record<SafeZoneRegionId, string>; // Omit on small previews where the text wouldn't fit
+}
+
+// Drawn over a scaled card: crops are shaded, regions covered by app UI are tinted red
+const SafeZoneOverlay: React.FC<SafeZoneOverlayProps> = ({ preset, size, scale, labels }) => {
+  const regions = getSafeZoneRegions(preset, size);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden">
+      {regions.map((region, i) => {
+        const isCrop = region.id === 'feed-crop' || region.id === 'grid-crop';
+        return (
+          <div
+            key={i}
+            className={`absolute flex items-start justify-start ${isCrop ? 'bg-slate-900/30 border border-dashed border-white/70' : 'bg-rose-500/15 border border-dashed border-rose-400'}`}
+            style={{
+              left: region.left * scale,
+              top: region.top * scale,
+              width: region.width * scale,
+              height: region.height * scale
+            }}
+          >
+            {labels && regions.findIndex(r => r.id === region.id) === i && (
+              <span className={`m-1 px-1.5 py-0.5 rounded text-[10px] font-semibold whitespace-nowrap ${isCrop ? 'bg-slate-900/70 text-white' : 'bg-rose-500/80 text-white'}`}>
+                {labels[region.id]}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SafeZoneOverlay;
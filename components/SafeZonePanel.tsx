@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { SafeZoneSettings } from '../types';
+import { SAFE_ZONE_PRESETS } from '../utils/safeZones';
+import { translations, Language } from '../utils/translations';
+
+interface SafeZonePanelProps {
+  settings: SafeZoneSettings;
+  onChange: (settings: SafeZoneSettings) => void;
+  lang: Language;
+}
+
+const SafeZonePanel: React.FC<SafeZonePanelProps> = ({ settings, onChange, lang }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const t = translations[lang].safeZones;
+
+  const update = (patch: Partial<SafeZoneSettings>) => onChange({ ...settings, ...patch });
+
+  const isActive = settings.showOverlay || settings.check;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 px-3 py-2.5 rounded-lg text-sm font-medium flex items-center gap-2 shadow-sm transition-all"
+        title={t.title}
+      >
+        <i className={`fa-solid fa-crop-simple ${isActive ? 'text-brand-600' : 'text-gray-400'}`}></i>
+        {t.button}{isActive && `: ${t.presets[settings.preset]}`}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setIsOpen(false)}></div>
+          <div className="absolute right-0 mt-2 w-72 bg-white border border-gray-200 rounded-xl shadow-2xl p-4 z-40 space-y-4">
+            <div>
+              <h4 className="text-sm font-bold text-gray-700">{t.title}</h4>
+              <p className="text-[10px] text-gray-400 mt-1">{t.hint}</p>
+            </div>
+
+            <div className="space-y-1">
+              {SAFE_ZONE_PRESETS.map(preset => (
+                <button
+                  key={preset}
+                  onClick={() => update({ preset })}
+                  className={`w-full text-left px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${settings.preset === preset ? 'bg-brand-50 text-brand-700' : 'text-gray-600 hover:bg-gray-50'}`}
+                >
+                  {t.presets[preset]}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2 border-t border-gray-100 pt-3">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.showOverlay}
+                  onChange={(e) => update({ showOverlay: e.target.checked })}
+                  className="w-4 h-4 text-brand-600 rounded focus:ring-brand-500 cursor-pointer"
+                />
+                <span className="text-xs font-medium text-gray-600 select-none">{t.showOverlay}</span>
+              </label>
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.check}
+                  onChange={(e) => update({ check: e.target.checked })}
+                  className="w-4 h-4 mt-0.5 text-brand-600 rounded focus:ring-brand-500 cursor-pointer"
+                />
+                <span className="select-none">
+                  <span className="text-xs font-medium text-gray-600 block">{t.check}</span>
+                  <span className="text-[10px] text-gray-400">{t.checkHint}</span>
+                </span>
+              </label>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SafeZonePanel;
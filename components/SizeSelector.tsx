@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { OutputSize } from '../types';
+import { SIZE_PRESETS, clampDimension, findPreset, formatSize } from '../utils/sizePresets';
+import { translations, Language } from '../utils/translations';
+
+interface SizeSelectorProps {
+  value: OutputSize | undefined;
+  onChange: (size: OutputSize | undefined) => void;
+  allowInherit?: boolean; // Cards can fall back to the session size
+  compact?: boolean;
+  lang: Language;
+}
+
+const SizeSelector: React.FC<SizeSelectorProps> = ({ value, onChange, allowInherit = false, compact = false, lang }) => {
+  const t = translations[lang].sizes;
+  const [isCustom, setIsCustom] = useState(() => !!value && !findPreset(value));
+  const [customWidth, setCustomWidth] = useState(String(value?.width ?? 1080));
+  const [customHeight, setCustomHeight] = useState(String(value?.height ?? 1080));
+
+  // Keep the inputs in sync when the size is changed from outside (e.g. session preset)
+  useEffect(() => {
+    if (value) {
+      setCustomWidth(String(value.width));
+      setCustomHeight(String(value.height));
+    }
+  }, [value?.width, value?.height]);
+
+  const selected = isCustom ? 'custom' : value ? (findPreset(value)?.id ?? 'custom') : 'inherit';
+
+  const handleSelect = (id: string) => {
+    if (id === 'inherit') {
+      setIsCustom(false);
+      onChange(undefined);
+    } else if (id === 'custom') {
+      setIsCustom(true);
+      onChange({ width: clampDimension(Number(customWidth)), height: clampDimension(Number(customHeight)) });
+    } else {
+      const preset = SIZE_PRESETS.find(p => p.id === id);
+      if (preset) {
+        setIsCustom(false);
+        onChange({ width: preset.width, height: preset.height });
+      }
+    }
+  };
+
+  const commitCustom = () => {
+    const size = { width: clampDimension(Number(customWidth)), height: clampDimension(Number(customHeight)) };
+    setCustomWidth(String(size.width));
+    setCustomHeight(String(size.height));
+    onChange(size);
+  };
+
+  const inputClass = compact
+    ? 'w-14 text-[11px] border border-gray-300 rounded px-1 py-1 text-center'
+    : 'w-16 text-sm border border-gray-300 rounded-md px-1.5 py-1.5 text-center';
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <select
+        value={selected}
+        onChange={(e) => handleSelect(e.target.value)}
+        title={t.label}
+        className={compact
+          ? 'text-[11px] bg-white border border-gray-300 rounded px-1.5 py-1 text-gray-700 max-w-[120px]'
+          : 'text-sm bg-white border border-gray-200 rounded-lg px-3 py-2 text-gray-600 font-medium shadow-sm'}
+      >
+        {allowInherit && <option value="inherit">{t.inherit}</option>}
+        {SIZE_PRESETS.map(preset => (
+          <option key={preset.id} value={preset.id}>
+            {t[preset.id]} ({formatSize(preset)})
+          </option>
+        ))}
+        <option value="custom">{t.custom}</option>
+      </select>
+
+      {selected === 'custom' && (
+        <>
+          <input
+            type="number"
+            value={customWidth}
+            onChange={(e) => setCustomWidth(e.target.value)}
+            onBlur={commitCustom}
+            onKeyDown={(e) => e.key === 'Enter' && commitCustom()}
+            className={inputClass}
+            aria-label={t.width}
+          />
+          <span className="text-gray-400 text-xs">×</span>
+          <input
+            type="number"
+            value={customHeight}
+            onChange={(e) => setCustomHeight(e.target.value)}
+            onBlur={commitCustom}
+            onKeyDown={(e) => e.key === 'Enter' && commitCustom()}
+            className={inputClass}
+            aria-label={t.height}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SizeSelector;
@@ -0,0 +1,46 @@
+import { ArtifactGenerator, ensureOk, GeneratorConfig, getSystemInstruction, readServerSentEvents } from "./generator";
+
+const MAX_TOKENS = 16000; // Several full HTML documents per reply
+
+export const createAnthropicGenerator = (config: GeneratorConfig): ArtifactGenerator => {
+  return async (prompt, onProgress, options) => {
+    try {
+      if (!config.apiKey) {
+        throw new Error("API Key is missing.");
+      }
+
+      const response = await (config.fetch ?? fetch)(`${config.baseUrl}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': config.apiKey,
+          'anthropic-version': '2023-06-01',
+          // The key is the user's own and never leaves their browser except to the API
+          'anthropic-dangerous-direct-browser-access': 'true'
+        },
+        body: JSON.stringify({
+          model: config.model,
+          max_tokens: MAX_TOKENS,
+          temperature: config.temperature,
+          stream: true,
+          system: getSystemInstruction(options),
+          messages: [{ role: 'user', content: prompt }]
+        })
+      });
+
+      let text = '';
+      for await (const event of readServerSentEvents(await ensureOk(response, 'Anthropic'))) {
+        if (event.type === 'error') throw new Error(event.error?.message ?? 'Anthropic stream error.');
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          text += event.delta.text;
+          onProgress?.(text);
+        }
+      }
+
+      return text;
+    } catch (error) {
+      console.error("Anthropic API Error:", error);
+      throw error;
+    }
+  };
+};
@@ -0,0 +1,109 @@
+import { BrandKit, OutputSize } from "../types";
+import { getBrandInstruction } from "../utils/brandKit";
+
+// Receives the markdown accumulated so far each time a streamed chunk arrives
+export type ProgressCallback = (text: string) => void;
+
+// Per-request context that shapes the generated designs
+export interface GenerateOptions {
+  brandKit?: BrandKit | null;
+  styleGuide?: string; // A filled-in prompt template
+  size?: OutputSize; // The cards' output size; unknown sizes get the generic square guidance
+}
+
+// Any function that turns a prompt into markdown containing ```html blocks.
+// The UI only depends on this signature so a local fake can be swapped in for testing.
+export type ArtifactGenerator = (prompt: string, onProgress?: ProgressCallback, options?: GenerateOptions) => Promise<string>;
+
+// What every provider needs to make a request
+export interface GeneratorConfig {
+  apiKey: string;
+  baseUrl: string; // Empty uses the provider's public endpoint
+  model: string;
+  temperature: number;
+  fetch?: typeof fetch; // Defaults to window.fetch
+}
+
+const getSizeRule = (size?: OutputSize) => size
+  ? `Each card is rendered at exactly ${size.width}x${size.height} pixels and converted to an image; design for that fixed size.`
+  : 'The design should be responsive but primarily optimized for a fixed card size (e.g., 1080x1080 or 1280x1280) as these will be converted to images.';
+
+const getBaseInstruction = (size?: OutputSize) => `
+      You are an expert Frontend Developer and UI Designer.
+      Your task is to generate high-quality, modern, and aesthetic HTML/CSS code artifacts based on the user's description.
+
+      Requirements:
+      1. Return valid HTML5 code blocks.
+      2. Embed ALL CSS within <style> tags in the <head>. Do not use external CSS files (CDN links for fonts/libraries are okay).
+      3. ${getSizeRule(size)}
+      4. Use a container div with a specific class or ID to wrap the content.
+      5. If the user asks for multiple slides/cards (e.g., for Instagram), generate multiple HTML code blocks, one for each card.
+      6. Unless a style guide below says otherwise, use 'Pretendard' or 'Inter' or system fonts for modern typography.
+      7. Ensure high contrast and readability.
+
+      Return ONLY the code blocks formatted as markdown:
+      \`\`\`html
+      ... code ...
+      \`\`\`
+    `;
+
+export const getSystemInstruction = (options: GenerateOptions = {}): string => {
+  // Later sections are more specific: the template's style guide, then the brand kit
+  return [getBaseInstruction(options.size), options.styleGuide?.trim(), getBrandInstruction(options.brandKit)].filter(Boolean).join('\n');
+};
+
+// Follow-up prompt for a single card; the reply is parsed like any other generation
+export const getRefinePrompt = (code: string, instruction: string): string => `
+Here is an existing card:
+
+\`\`\`html
+${code}
+\`\`\`
+
+Change it as follows: ${instruction.trim()}
+
+Keep everything else about the design, content and size as it is.
+Return the complete updated card as a single \`\`\`html code block.
+`.trim();
+
+// Yields each complete line of a streamed response body (SSE and NDJSON are both line based)
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split(/\r?\n/);
+    buffer = done ? '' : lines.pop()!;
+    for (const line of lines) yield line;
+    if (done) return;
+  }
+}
+
+// JSON payloads of a server-sent event stream, stopping at the OpenAI-style [DONE] marker
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  for await (const line of readLines(body)) {
+    if (!line.startsWith('data:')) continue;
+    const data = line.slice(5).trim();
+    if (data === '[DONE]') return;
+    if (data) yield JSON.parse(data);
+  }
+}
+
+// Fails with the provider's own error message when it sends one
+export const ensureOk = async (response: Response, label: string): Promise<ReadableStream<Uint8Array>> => {
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    let detail = text;
+    try {
+      const json = JSON.parse(text);
+      detail = json.error?.message ?? json.error ?? json.message ?? text;
+    } catch {
+      // Not JSON; use the body as is
+    }
+    throw new Error(`${label} request failed (${response.status}): ${String(detail).slice(0, 300) || response.statusText}`);
+  }
+  if (!response.body) throw new Error(`${label} returned an empty response.`);
+  return response.body;
+};
@@ -0,0 +1,29 @@
+import { LlmProviderId, LlmSettings } from "../types";
+import { getProviderInfo, resolveBaseUrl } from "../utils/llmSettings";
+import { ArtifactGenerator, GeneratorConfig } from "./generator";
+import { createGeminiGenerator } from "./geminiService";
+import { createOpenAiGenerator } from "./openaiService";
+import { createAnthropicGenerator } from "./anthropicService";
+import { createOllamaGenerator } from "./ollamaService";
+
+const FACTORIES: Record<LlmProviderId, (config: GeneratorConfig) => ArtifactGenerator> = {
+  gemini: createGeminiGenerator,
+  openai: createOpenAiGenerator,
+  anthropic: createAnthropicGenerator,
+  ollama: createOllamaGenerator
+};
+
+// The generator for the provider picked in settings
+export const createGenerator = (settings: LlmSettings, fetcher?: typeof fetch): ArtifactGenerator => {
+  const id = settings.provider;
+  const config = settings.providers[id];
+  const info = getProviderInfo(id);
+  return FACTORIES[id]({
+    apiKey: config.apiKey.trim(),
+    // The Gemini SDK knows its own endpoint; only pass one when it was overridden
+    baseUrl: id === 'gemini' ? config.baseUrl.trim().replace(/\/+$/, '') : resolveBaseUrl(id, config),
+    model: config.model.trim() || info.defaultModel,
+    temperature: Math.min(info.maxTemperature, settings.temperature),
+    fetch: fetcher
+  });
+};
@@ -0,0 +1,39 @@
+import { ArtifactGenerator, ensureOk, GeneratorConfig, getSystemInstruction, readLines } from "./generator";
+
+// A local Ollama server (or anything serving its /api/chat NDJSON stream); no key needed
+export const createOllamaGenerator = (config: GeneratorConfig): ArtifactGenerator => {
+  return async (prompt, onProgress, options) => {
+    try {
+      const response = await (config.fetch ?? fetch)(`${config.baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: config.model,
+          stream: true,
+          options: { temperature: config.temperature },
+          messages: [
+            { role: 'system', content: getSystemInstruction(options) },
+            { role: 'user', content: prompt }
+          ]
+        })
+      });
+
+      let text = '';
+      for await (const line of readLines(await ensureOk(response, 'Ollama'))) {
+        if (!line.trim()) continue;
+        const chunk = JSON.parse(line);
+        if (chunk.error) throw new Error(chunk.error);
+        if (chunk.message?.content) {
+          text += chunk.message.content;
+          onProgress?.(text);
+        }
+        if (chunk.done) break;
+      }
+
+      return text;
+    } catch (error) {
+      console.error("Ollama API Error:", error);
+      throw error;
+    }
+  };
+};
@@ -0,0 +1,39 @@
+import { ArtifactGenerator, ensureOk, GeneratorConfig, getSystemInstruction, readServerSentEvents } from "./generator";
+
+// Any endpoint that speaks the OpenAI chat completions API (OpenAI, OpenRouter, LM Studio, vLLM, ...)
+export const createOpenAiGenerator = (config: GeneratorConfig): ArtifactGenerator => {
+  return async (prompt, onProgress, options) => {
+    try {
+      const response = await (config.fetch ?? fetch)(`${config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: config.model,
+          temperature: config.temperature,
+          stream: true,
+          messages: [
+            { role: 'system', content: getSystemInstruction(options) },
+            { role: 'user', content: prompt }
+          ]
+        })
+      });
+
+      let text = '';
+      for await (const event of readServerSentEvents(await ensureOk(response, 'OpenAI'))) {
+        const delta = event.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onProgress?.(text);
+        }
+      }
+
+      return text;
+    } catch (error) {
+      console.error("OpenAI API Error:", error);
+      throw error;
+    }
+  };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { getFrameCount, getGifDelays, hasCssAnimation } from '../utils/animationExport';
+
+describe('hasCssAnimation', () => {
+  it('detects keyframes and animation declarations', () => {
+    expect(hasCssAnimation('<style>@keyframes pulse { to { opacity: 0 } }</style>')).toBe(true);
+    expect(hasCssAnimation('<div style="animation: spin 1s infinite"></div>')).toBe(true);
+    expect(hasCssAnimation('.a { animation-name: fade; }')).toBe(true);
+  });
+
+  it('ignores static cards', () => {
+    expect(hasCssAnimation('<div class="card" style="transition: none">Static</div>')).toBe(false);
+  });
+});
+
+describe('getFrameCount', () => {
+  it('covers the duration at the chosen frame rate', () => {
+    expect(getFrameCount({ animationFps: 15, animationDuration: 3000 })).toBe(45);
+    expect(getFrameCount({ animationFps: 24, animationDuration: 500 })).toBe(12);
+    expect(getFrameCount({ animationFps: 10, animationDuration: 0 })).toBe(1);
+  });
+});
+
+describe('getGifDelays', () => {
+  it('spreads centisecond rounding so the total matches the duration', () => {
+    const delays = getGifDelays(45, 15);
+    expect(delays.reduce((a, b) => a + b, 0)).toBe(300);
+    expect(new Set(delays)).toEqual(new Set([6, 7]));
+    expect(getGifDelays(3, 10)).toEqual([10, 10, 10]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { BrandKit } from '../types';
+import {
+  applyBrandKit,
+  DEFAULT_BRAND_KIT,
+  getBrandCss,
+  getBrandInstruction,
+  getColorVariable,
+  isBrandKitActive
+} from '../utils/brandKit';
+
+const kit = (overrides: Partial<BrandKit> = {}): BrandKit => ({ ...DEFAULT_BRAND_KIT, enabled: true, ...overrides });
+
+describe('isBrandKitActive', () => {
+  it('is off until enabled', () => {
+    expect(isBrandKitActive(DEFAULT_BRAND_KIT)).toBe(false);
+    expect(isBrandKitActive(null)).toBe(false);
+    expect(isBrandKitActive(kit())).toBe(true);
+  });
+
+  it('is off when the enabled kit has nothing to apply', () => {
+    expect(isBrandKitActive(kit({ colors: [] }))).toBe(false);
+    expect(isBrandKitActive(kit({ colors: [], logo: 'data:image/png;base64,AA', logoPosition: 'none' }))).toBe(false);
+    expect(isBrandKitActive(kit({ colors: [], bodyFont: 'Inter' }))).toBe(true);
+  });
+});
+
+describe('getBrandCss', () => {
+  it('exposes colours as variables with normalised names', () => {
+    expect(getColorVariable('Brand Blue')).toBe('--brand-brand-blue');
+    const css = getBrandCss(kit({ colors: [{ name: 'Brand Blue', value: '#0000ff' }] }));
+    expect(css).toContain('--brand-brand-blue: #0000ff;');
+  });
+
+  it('forces the fonts but leaves icon fonts alone', () => {
+    const css = getBrandCss(kit({ headingFont: 'Playfair Display', bodyFont: "Inter'; }" }));
+    expect(css).toContain("--brand-font-heading: 'Playfair Display', sans-serif;");
+    expect(css).toContain("--brand-font-body: 'Inter; }', sans-serif;");
+    expect(css).toMatch(/body, body \*:not\(\[class\*="fa-"\].*\) \{ font-family: var\(--brand-font-body\) !important; \}/);
+    expect(css).toContain('font-family: var(--brand-font-heading) !important;');
+  });
+
+  it('skips font rules when no fonts are set', () => {
+    expect(getBrandCss(kit())).not.toContain('font-family');
+  });
+});
+
+describe('applyBrandKit', () => {
+  const page = '<!DOCTYPE html><html><head><style>h1 { color: red; }</style></head><body><h1>Hi</h1></body></html>';
+
+  it('returns the HTML untouched when the kit is inactive', () => {
+    expect(applyBrandKit(page, DEFAULT_BRAND_KIT)).toBe(page);
+    expect(applyBrandKit(page, undefined)).toBe(page);
+  });
+
+  it('adds the stylesheet and variables after the card styles', () => {
+    const result = applyBrandKit(page, kit({ fontStylesheet: 'https://fonts.example/css?family=Inter' }));
+    expect(result.indexOf('<link rel="stylesheet" href="https://fonts.example/css?family=Inter">'))
+      .toBeGreaterThan(result.indexOf('h1 { color: red; }'));
+    expect(result).toMatch(/<style data-brand-kit>[\s\S]*--brand-primary: #4f46e5;[\s\S]*<\/style>\n<\/head>/);
+  });
+
+  it('places the logo in the chosen corner at the end of the body', () => {
+    const result = applyBrandKit(page, kit({ logo: 'data:image/png;base64,AA', logoPosition: 'top-left', logoWidth: 120, logoOpacity: 0.5 }));
+    expect(result).toMatch(/<img data-brand-logo alt="" src="data:image\/png;base64,AA" style="[^"]*top:48px;left:48px;width:120px;[^"]*opacity:0.5[^"]*">\n<\/body>/);
+  });
+
+  it('leaves the logo out when hidden', () => {
+    const result = applyBrandKit(page, kit({ logo: 'data:image/png;base64,AA', logoPosition: 'none' }));
+    expect(result).not.toContain('data-brand-logo');
+  });
+
+  it('wraps snippets without a head or body', () => {
+    const result = applyBrandKit('<div>Card</div>', kit({ logo: 'data:image/png;base64,AA' }));
+    expect(result.startsWith('<style data-brand-kit>')).toBe(true);
+    expect(result.trim().endsWith('>')).toBe(true);
+    expect(result).toContain('<div>Card</div>');
+    expect(result.indexOf('data-brand-logo')).toBeGreaterThan(result.indexOf('<div>Card</div>'));
+  });
+});
+
+describe('getBrandInstruction', () => {
+  it('is empty when the kit is inactive', () => {
+    expect(getBrandInstruction(DEFAULT_BRAND_KIT)).toBe('');
+  });
+
+  it('describes fonts, colour variables and the logo area', () => {
+    const instruction = getBrandInstruction(kit({ headingFont: 'Playfair Display', logo: 'data:image/png;base64,AA' }));
+    expect(instruction).toContain('font-family: var(--brand-font-heading)');
+    expect(instruction).toContain('primary: var(--brand-primary, #4f46e5)');
+    expect(instruction).toContain('bottom right corner');
+    expect(instruction).not.toContain('--brand-font-body');
+  });
+});
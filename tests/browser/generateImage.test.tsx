@@ -0,0 +1,110 @@
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import { afterEach, describe, expect, it } from 'vitest';
+import PreviewCard from '../../components/PreviewCard';
+import { Artifact, ExportSettings, GeneratedImage, OutputSize } from '../../types';
+import { DEFAULT_EXPORT_SETTINGS } from '../../utils/exportSettings';
+import { DEFAULT_RENDER_SETTINGS } from '../../utils/renderSettings';
+import { DEFAULT_BRAND_KIT } from '../../utils/brandKit';
+import { DEFAULT_SAFE_ZONE_SETTINGS } from '../../utils/safeZones';
+
+// Runs in a real Chromium (see the "browser" project in vitest.config.ts): html2canvas
+// needs actual layout and canvas encoding, which jsdom does not provide.
+
+const artifact: Artifact = {
+  id: 'snapshot-card',
+  title: 'Snapshot: card/1',
+  type: 'html',
+  code: `<!DOCTYPE html><html><head><style>
+    .card { width: 100%; height: 100%; background: linear-gradient(135deg, #6366f1, #ec4899); color: #fff; font: 700 64px sans-serif; }
+  </style></head><body><div class="card">Hello</div></body></html>`
+};
+
+const containers: HTMLElement[] = [];
+
+afterEach(() => {
+  containers.splice(0).forEach(el => el.remove());
+});
+
+// Mount a card and hand back the capture function it registers with the app
+const mountCard = async (sessionSize: OutputSize, exportSettings: ExportSettings) => {
+  let generate: (() => Promise<GeneratedImage | null>) | null = null;
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  containers.push(container);
+
+  await act(async () => {
+    createRoot(container).render(
+      <PreviewCard
+        artifact={artifact}
+        index={0}
+        getFileName={(extension) => `01_card.${extension}`}
+        sessionSize={sessionSize}
+        exportSettings={exportSettings}
+        renderSettings={{ ...DEFAULT_RENDER_SETTINGS, readyTimeout: 2000 }}
+        brandKit={DEFAULT_BRAND_KIT}
+        safeZone={DEFAULT_SAFE_ZONE_SETTINGS}
+        onPrepareHtml={async (html) => ({ html, failed: [] })}
+        onSizeChange={() => {}}
+        onTitleChange={() => {}}
+        onOpenViewer={() => {}}
+        onFillTemplate={() => {}}
+        onRefine={async () => {}}
+        onSelectVersion={() => {}}
+        onCodeChange={() => {}}
+        onSplit={() => {}}
+        onDuplicate={() => {}}
+        onDelete={() => {}}
+        onDragStart={() => {}}
+        onDragEnd={() => {}}
+        onDownloadStart={() => {}}
+        onDownloadEnd={() => {}}
+        onRegister={(_, fn) => { generate = fn; }}
+        onUnregister={() => {}}
+        onLintResult={() => {}}
+        lang="en"
+      />
+    );
+  });
+
+  if (!generate) throw new Error('PreviewCard did not register a download handler');
+  return generate as () => Promise<GeneratedImage | null>;
+};
+
+const summarize = (image: GeneratedImage | null) => image && {
+  name: image.name,
+  extension: image.extension,
+  width: image.width,
+  height: image.height,
+  dataUrlPrefix: image.dataUrl.substring(0, image.dataUrl.indexOf(','))
+};
+
+describe('PreviewCard generateImage', () => {
+  it('captures at the session size', async () => {
+    const generate = await mountCard({ width: 1080, height: 1350 }, DEFAULT_EXPORT_SETTINGS);
+
+    expect(summarize(await generate())).toMatchInlineSnapshot(`
+      {
+        "dataUrlPrefix": "data:image/jpeg;base64",
+        "extension": "jpg",
+        "height": 1350,
+        "name": "Snapshot_ card_1",
+        "width": 1080,
+      }
+    `);
+  }, 40000);
+
+  it('multiplies the pixel size by the export scale', async () => {
+    const generate = await mountCard({ width: 1200, height: 627 }, { ...DEFAULT_EXPORT_SETTINGS, format: 'png', scale: 2 });
+
+    expect(summarize(await generate())).toMatchInlineSnapshot(`
+      {
+        "dataUrlPrefix": "data:image/png;base64",
+        "extension": "png",
+        "height": 1254,
+        "name": "Snapshot_ card_1",
+        "width": 2400,
+      }
+    `);
+  }, 40000);
+});
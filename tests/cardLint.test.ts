@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { FrameLintResult, FrameTextSample } from '../utils/cardFrame';
+import { formatLintIssue, getContrastRatio, getEffectiveBackground, getMinFontSize, lintCard, parseColor } from '../utils/cardLint';
+
+const size = { width: 1080, height: 1080 };
+
+const sample = (overrides: Partial<FrameTextSample> = {}): FrameTextSample => ({
+  text: 'Hello',
+  color: 'rgb(0, 0, 0)',
+  backgrounds: ['rgba(0, 0, 0, 0)', 'rgb(255, 255, 255)'],
+  opacity: 1,
+  fontSize: 40,
+  fontWeight: 400,
+  clipped: false,
+  ...overrides
+});
+
+const result = (overrides: Partial<FrameLintResult> = {}): FrameLintResult => ({
+  texts: [sample()],
+  keyElements: [],
+  imagesWithoutAlt: [],
+  contentWidth: 1080,
+  contentHeight: 1080,
+  readiness: { timedOut: false, failed: [], pending: [] },
+  ...overrides
+});
+
+const labels = {
+  rules: { contrast: 'Contrast', 'font-size': 'Small', overflow: 'Overflow', clipped: 'Clipped', 'alt-text': 'Alt', 'safe-zone': 'Unsafe' },
+  zones: { margin: 'margin', 'feed-crop': 'feed', 'grid-crop': 'grid', 'top-bar': 'top bar', caption: 'caption', actions: 'actions', timestamp: 'timestamp' }
+};
+
+describe('colours', () => {
+  it('parses computed colour formats', () => {
+    expect(parseColor('rgb(10, 20, 30)')).toEqual({ r: 10, g: 20, b: 30, a: 1 });
+    expect(parseColor('rgba(10, 20, 30, 0.5)')).toEqual({ r: 10, g: 20, b: 30, a: 0.5 });
+    expect(parseColor('rgb(10 20 30 / 50%)')).toEqual({ r: 10, g: 20, b: 30, a: 0.5 });
+    expect(parseColor('oklch(0.5 0.1 200)')).toBeNull();
+  });
+
+  it('computes WCAG contrast ratios', () => {
+    expect(getContrastRatio({ r: 0, g: 0, b: 0, a: 1 }, { r: 255, g: 255, b: 255, a: 1 })).toBeCloseTo(21);
+    expect(getContrastRatio({ r: 118, g: 118, b: 118, a: 1 }, { r: 255, g: 255, b: 255, a: 1 })).toBeCloseTo(4.54, 1);
+  });
+
+  it('blends translucent layers down to the first opaque one', () => {
+    expect(getEffectiveBackground(['rgba(0, 0, 0, 0)', 'rgb(0, 0, 255)', 'rgb(255, 0, 0)'])).toEqual({ r: 0, g: 0, b: 255, a: 1 });
+    expect(getEffectiveBackground(['rgba(0, 0, 0, 0.5)'])).toEqual({ r: 127.5, g: 127.5, b: 127.5, a: 1 });
+    expect(getEffectiveBackground(['rgba(0, 0, 0, 0)', 'image', 'rgb(0, 0, 0)'])).toBeNull();
+  });
+});
+
+describe('lintCard', () => {
+  it('passes dark text on white', () => {
+    expect(lintCard(result(), size)).toEqual([]);
+  });
+
+  it('flags low contrast with the large-text threshold where it applies', () => {
+    const grey = sample({ color: 'rgb(150, 150, 150)', fontSize: 30 });
+    const body = sample({ text: 'Body', color: 'rgb(130, 130, 130)', fontSize: 20 });
+    const issues = lintCard(result({ texts: [grey, body], contentWidth: 400, contentHeight: 400 }), { width: 400, height: 400 });
+    expect(issues).toEqual([
+      expect.objectContaining({ rule: 'contrast', target: 'Hello', required: 3 }),
+      expect.objectContaining({ rule: 'contrast', target: 'Body', required: 4.5 })
+    ]);
+  });
+
+  it('counts opacity against the contrast', () => {
+    const faded = sample({ opacity: 0.3 });
+    expect(lintCard(result({ texts: [faded] }), size)[0]).toMatchObject({ rule: 'contrast', severity: 'error' });
+  });
+
+  it('skips contrast over images', () => {
+    const overPhoto = sample({ color: 'rgb(255, 255, 255)', backgrounds: ['image', 'rgb(255, 255, 255)'] });
+    expect(lintCard(result({ texts: [overPhoto] }), size)).toEqual([]);
+  });
+
+  it('scales the minimum font size with the export width', () => {
+    expect(getMinFontSize({ width: 1080, height: 1080 })).toBe(24);
+    expect(getMinFontSize({ width: 400, height: 400 })).toBe(9);
+    const small = sample({ fontSize: 16 });
+    expect(lintCard(result({ texts: [small] }), size)).toEqual([
+      { rule: 'font-size', severity: 'warning', target: 'Hello', value: 16, required: 24 }
+    ]);
+  });
+
+  it('reports overflow, cut-off content and missing alt text, errors first', () => {
+    const issues = lintCard(result({
+      texts: [sample({ clipped: true })],
+      imagesWithoutAlt: ['photo.jpg', 'data:image/png;base64,AAAA'],
+      contentHeight: 1200
+    }), size);
+    expect(issues.map(i => `${i.severity}:${i.rule}`)).toEqual(['error:overflow', 'error:clipped', 'warning:alt-text', 'warning:alt-text']);
+    expect(issues[1].value).toBe(120);
+    expect(issues[3].target).toBe('data:…');
+  });
+
+  it('checks key elements against the safe-zone preset only when one is given', () => {
+    const heading = { text: 'Title', left: 100, top: 40, right: 600, bottom: 120 };
+    const story = { width: 1080, height: 1920 };
+    const input = result({ texts: [], keyElements: [heading], contentWidth: 1080, contentHeight: 1920 });
+    expect(lintCard(input, story)).toEqual([]);
+    expect(lintCard(input, story, 'tiktok')).toEqual([{ rule: 'safe-zone', severity: 'warning', target: 'Title', zone: 'top-bar' }]);
+    expect(lintCard(input, story, 'youtube-thumbnail')).toEqual([]);
+  });
+
+  it('reports repeated text once per rule', () => {
+    const texts = [sample({ fontSize: 12 }), sample({ fontSize: 12 })];
+    expect(lintCard(result({ texts }), size)).toHaveLength(1);
+  });
+});
+
+describe('formatLintIssue', () => {
+  it('includes the measurement and the offending text', () => {
+    expect(formatLintIssue({ rule: 'contrast', severity: 'error', target: 'Hi', value: 2.1, required: 4.5 }, labels)).toBe('Contrast 2.1:1 < 4.5:1 — "Hi"');
+    expect(formatLintIssue({ rule: 'clipped', severity: 'error', target: '', value: 40 }, labels)).toBe('Clipped 40px');
+    expect(formatLintIssue({ rule: 'safe-zone', severity: 'warning', target: 'Title', zone: 'caption' }, labels)).toBe('Unsafe (caption) — "Title"');
+  });
+});
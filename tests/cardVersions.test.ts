@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { Artifact } from '../types';
+import { addVersion, getCurrentVersion, getVersions, MAX_VERSIONS, selectVersion } from '../utils/cardVersions';
+
+const card: Artifact = { id: 'a', code: '<div>v1</div>', title: 'Card', type: 'html' };
+
+describe('card versions', () => {
+  it('treats a card without history as its only version', () => {
+    expect(getVersions(card)).toEqual([{ code: '<div>v1</div>', instruction: null, createdAt: 0 }]);
+    expect(getCurrentVersion(card)).toBe(0);
+  });
+
+  it('adds refined variants after the original and makes them current', () => {
+    const refined = addVersion(card, '<div>v2</div>', 'bigger', 100);
+    expect(refined.code).toBe('<div>v2</div>');
+    expect(refined.versions).toEqual({
+      entries: [
+        { code: '<div>v1</div>', instruction: null, createdAt: 0 },
+        { code: '<div>v2</div>', instruction: 'bigger', createdAt: 100 }
+      ],
+      current: 1
+    });
+  });
+
+  it('steps back without dropping later variants', () => {
+    const refined = addVersion(addVersion(card, '<div>v2</div>', 'bigger', 100), '<div>v3</div>', 'dark', 200);
+    const back = selectVersion(refined, 0, 300);
+    expect(back.code).toBe('<div>v1</div>');
+    expect(back.versions!.entries).toHaveLength(3);
+    expect(back.versions!.current).toBe(0);
+
+    // Refining an earlier variant keeps the whole history
+    const branched = addVersion(back, '<div>v4</div>', 'blue', 400);
+    expect(branched.versions!.entries.map(v => v.code)).toEqual(['<div>v1</div>', '<div>v2</div>', '<div>v3</div>', '<div>v4</div>']);
+    expect(branched.versions!.current).toBe(3);
+  });
+
+  it('keeps manual edits as their own version', () => {
+    const refined = addVersion(card, '<div>v2</div>', 'bigger', 100);
+    const edited = { ...refined, code: '<div>v2 edited</div>' };
+    const back = selectVersion(edited, 0, 200);
+    expect(back.versions!.entries[2]).toEqual({ code: '<div>v2 edited</div>', instruction: null, createdAt: 200 });
+    expect(back.code).toBe('<div>v1</div>');
+  });
+
+  it('ignores unknown versions', () => {
+    expect(selectVersion(card, 5)).toBe(card);
+  });
+
+  it('drops the oldest variants past the limit', () => {
+    let artifact = card;
+    for (let i = 0; i < MAX_VERSIONS + 5; i++) artifact = addVersion(artifact, `<div>${i}</div>`, `step ${i}`, i);
+    expect(artifact.versions!.entries).toHaveLength(MAX_VERSIONS);
+    expect(artifact.versions!.current).toBe(MAX_VERSIONS - 1);
+    expect(artifact.versions!.entries[MAX_VERSIONS - 1].code).toBe(artifact.code);
+  });
+});
@@ -0,0 +1,76 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseRenderArgs, parseSize } from '../cli/options';
+import { planRender } from '../cli/plan';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, 'fixtures', name), 'utf-8');
+
+describe('parseSize', () => {
+  it('accepts WIDTHxHEIGHT and preset names', () => {
+    expect(parseSize('1080x1350')).toEqual({ width: 1080, height: 1350 });
+    expect(parseSize('1200×627')).toEqual({ width: 1200, height: 627 });
+    expect(parseSize('story')).toEqual({ width: 1080, height: 1920 });
+  });
+
+  it('clamps dimensions and rejects anything else', () => {
+    expect(parseSize('50x9000')).toEqual({ width: 100, height: 4096 });
+    expect(() => parseSize('big')).toThrow(/Invalid --size/);
+  });
+});
+
+describe('parseRenderArgs', () => {
+  it('falls back to the web app defaults', () => {
+    const options = parseRenderArgs(['input.md'])!;
+
+    expect(options.input).toBe('input.md');
+    expect(options.outDir).toBe('cards');
+    expect(options.size).toEqual({ width: 1080, height: 1080 });
+    expect(options.split).toEqual({ mode: 'auto', selector: '' });
+    expect(options.exportSettings).toMatchObject({ format: 'jpg', quality: 0.9, scale: 2, background: 'fill', fileNameTemplate: '{index}_{title}' });
+    expect(options.renderSettings).toEqual({ scriptPolicy: 'sandboxed', readyMode: 'all', readyTimeout: 10000 });
+    expect(options.numbering).toBe(true);
+    expect(options.selfContained).toBe(false);
+  });
+
+  it('maps flags onto export and render settings', () => {
+    const options = parseRenderArgs([
+      'deck.html', '--out', 'out', '-f', 'png', '--size', '1080x1350', '--scale', '2',
+      '--background', 'transparent', '--split', 'selector', '--selector', '.slide',
+      '--name', '{set}-{index}', '--no-numbering', '--scripts', 'off', '--ready', 'hook', '--timeout', '99999'
+    ])!;
+
+    expect(options.exportSettings).toMatchObject({ format: 'png', scale: 2, background: 'transparent', fileNameTemplate: '{set}-{index}' });
+    expect(options.split).toEqual({ mode: 'selector', selector: '.slide' });
+    expect(options.renderSettings).toEqual({ scriptPolicy: 'off', readyMode: 'hook', readyTimeout: 30000 });
+    expect(options.numbering).toBe(false);
+  });
+
+  it('returns null for --help and reports invalid values', () => {
+    expect(parseRenderArgs(['--help'])).toBeNull();
+    expect(() => parseRenderArgs([])).toThrow(/Missing <input>/);
+    expect(() => parseRenderArgs(['a.md', '-f', 'gif'])).toThrow(/Invalid --format "gif"/);
+    expect(() => parseRenderArgs(['a.md', '--scale', '5'])).toThrow(/Invalid --scale/);
+    expect(() => parseRenderArgs(['a.md', '--split', 'selector'])).toThrow(/needs --selector/);
+    expect(() => parseRenderArgs(['a.md', '--self-contained'])).toThrow(/needs --html/);
+  });
+});
+
+describe('planRender', () => {
+  it('splits and names cards like the web app batch download', () => {
+    const options = parseRenderArgs(['in.md', '--html'])!;
+    const plan = planRender(fixture('chatgpt-multi-block.md'), options, 'jpg');
+
+    expect(plan.setName).toBe('Morning Routine');
+    expect(plan.jobs.map(j => j.imagePath)).toEqual(['01_Morning Routine.jpg', '02_Deep Work.jpg', '03_Artifact 3.jpg']);
+    expect(plan.jobs.map(j => j.htmlPath)).toEqual(['01_Morning Routine.html', '02_Deep Work.html', '03_Artifact 3.html']);
+    expect(plan.jobs[0].size).toEqual({ width: 1080, height: 1080 });
+  });
+
+  it('keeps paths unique when numbering is off', () => {
+    const options = parseRenderArgs(['in.html', '--split', 'marker', '--name', '{set}', '--no-numbering', '--set', 'deck'])!;
+    const plan = planRender(fixture('page-break-markers.html'), options, 'png');
+
+    expect(plan.jobs.map(j => j.imagePath)).toEqual(['deck.png', 'deck (2).png', 'deck (3).png']);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { getCodeSections, setCodeSection } from '../utils/codeSections';
+
+const document = `<!DOCTYPE html>
+<html>
+<head>
+  <title>Card</title>
+  <style>
+    .card { color: red; }
+  </style>
+</head>
+<body class="dark">
+  <div class="card">Hello</div>
+  <style>.late { color: blue; }</style>
+</body>
+</html>`;
+
+describe('getCodeSections', () => {
+  it('splits a full document into head styles and body markup', () => {
+    const { styles, body } = getCodeSections(document);
+
+    expect(styles).toBe('\n    .card { color: red; }\n  ');
+    expect(body).toBe('\n  <div class="card">Hello</div>\n  <style>.late { color: blue; }</style>\n');
+  });
+
+  it('treats everything but the first style element as markup in snippets', () => {
+    const snippet = '<style>.a { margin: 0 }</style>\n<div class="a">A</div>';
+    expect(getCodeSections(snippet)).toEqual({ styles: '.a { margin: 0 }', body: '\n<div class="a">A</div>' });
+  });
+
+  it('returns empty styles when there are none', () => {
+    expect(getCodeSections('<div>Plain</div>').styles).toBe('');
+  });
+});
+
+describe('setCodeSection', () => {
+  it('replaces only the edited range and keeps the rest byte-for-byte', () => {
+    const edited = setCodeSection(document, 'body', '<div class="card">Bye</div>');
+
+    expect(edited).toContain('<body class="dark"><div class="card">Bye</div></body>');
+    expect(edited.startsWith(document.slice(0, document.indexOf('<body')))).toBe(true);
+  });
+
+  it('round-trips half-typed markup untouched', () => {
+    const partial = '\n  <div class="card">Hel\n  <span style="col';
+    expect(getCodeSections(setCodeSection(document, 'body', partial)).body).toBe(partial);
+  });
+
+  it('adds a style element to the head when the card has none', () => {
+    const plain = '<html><head><title>x</title></head><body><p>x</p></body></html>';
+    const edited = setCodeSection(plain, 'styles', 'p { color: red; }');
+
+    expect(edited).toContain('<style>p { color: red; }</style>\n</head>');
+    expect(getCodeSections(edited).styles).toBe('p { color: red; }');
+  });
+
+  it('is the inverse of getCodeSections for snippets', () => {
+    const snippet = '<div class="a">A</div>\n<style>.a { margin: 0 }</style>';
+    const withStyles = setCodeSection(snippet, 'styles', '.a { margin: 4px }');
+    const withBody = setCodeSection(withStyles, 'body', '<p>B</p>');
+
+    expect(getCodeSections(withStyles).styles).toBe('.a { margin: 4px }');
+    expect(getCodeSections(withBody)).toEqual({ styles: '.a { margin: 4px }', body: '<p>B</p>' });
+  });
+});
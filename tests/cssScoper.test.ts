@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { resolveCssUrls, scopeCss } from '../utils/cssScoper';
+
+const SCOPE = '#card-1';
+
+const scope = (css: string) => scopeCss(css, SCOPE, 'c1');
+
+// Collapse whitespace so assertions don't depend on how blocks are re-joined
+const normalize = (css: string) => css.replace(/\s+/g, ' ').trim();
+
+describe('scopeCss', () => {
+  it('prefixes plain selectors and keeps declarations', () => {
+    expect(scope('.title { color: red; }').css).toBe(`${SCOPE} .title { color: red; }`);
+  });
+
+  it('scopes rules inside nested @media and @supports', () => {
+    const { css } = scope('@media (min-width: 600px) { @supports (display: grid) { .grid { display: grid; } } }');
+    expect(normalize(css)).toBe(`@media (min-width: 600px) { @supports (display: grid) { ${SCOPE} .grid { display: grid; } } }`);
+  });
+
+  it('renames keyframes and the animations that use them', () => {
+    const { css } = scope(`
+      @keyframes fade { from { opacity: 0; } to { opacity: 1; } }
+      @-webkit-keyframes "spin" { to { transform: rotate(1turn); } }
+      .a { animation: fade 1s ease-in; }
+      .b { -webkit-animation-name: spin; }
+      .c { animation: slide 1s; }
+    `);
+
+    expect(css).toContain('@keyframes fade__c1 {');
+    expect(css).toContain('@-webkit-keyframes spin__c1 {');
+    expect(css).toContain('animation: fade__c1 1s ease-in;');
+    expect(css).toContain('-webkit-animation-name: spin__c1;');
+    expect(css).toContain('animation: slide 1s;');
+  });
+
+  it('renames @font-face families and the font declarations that use them', () => {
+    const { css } = scope(`
+      @font-face { font-family: "Brand Sans"; src: url(brand.woff2); }
+      h1 { font-family: 'Brand Sans', sans-serif; }
+      p { font: 16px/1.4 Brand Sans; }
+      small { font-family: Georgia, serif; }
+    `);
+
+    expect(css).toContain('@font-face { font-family: "Brand Sans__c1";');
+    expect(css).toContain(`${SCOPE} h1 { font-family: "Brand Sans__c1", sans-serif; }`);
+    expect(css).toContain('font: 16px/1.4 "Brand Sans__c1";');
+    expect(css).toContain('font-family: Georgia, serif;');
+  });
+
+  it('maps html, :root and body onto the scope element, keeping qualifiers', () => {
+    const { css } = scope(`
+      html { font-size: 20px; }
+      :root { --accent: red; }
+      body.dark { background: #000; }
+      html[lang="ko"] body > main { padding: 0; }
+      * { box-sizing: border-box; }
+      .body-copy { margin: 0; }
+    `);
+
+    expect(css).toContain(`${SCOPE} { font-size: 20px; }`);
+    expect(css).toContain(`${SCOPE} { --accent: red; }`);
+    expect(css).toContain(`${SCOPE}.dark { background: #000; }`);
+    expect(css).toContain(`${SCOPE}[lang="ko"] > main { padding: 0; }`);
+    expect(css).toContain(`${SCOPE}, ${SCOPE} * { box-sizing: border-box; }`);
+    expect(css).toContain(`${SCOPE} .body-copy { margin: 0; }`);
+  });
+
+  it('splits selector lists only on top-level commas', () => {
+    const { css } = scope(':is(h1, h2) span, a[title="a,b"], .x { color: red; }');
+    expect(css).toBe(`${SCOPE} :is(h1, h2) span, ${SCOPE} a[title="a,b"], ${SCOPE} .x { color: red; }`);
+  });
+
+  it('ignores braces in strings and comments', () => {
+    const { css } = scope('/* .gone { } */ .q::before { content: "}"; } .r { color: blue; }');
+    expect(css).toBe(`${SCOPE} .q::before { content: "}"; }\n${SCOPE} .r { color: blue; }`);
+  });
+
+  it('moves @import out of the sheet and keeps other statements', () => {
+    const { css, imports } = scope(`
+      @charset "utf-8";
+      @import url("https://fonts.test/a.css");
+      @import 'local.css' screen;
+      .a { color: red; }
+    `);
+
+    expect(imports).toEqual(['https://fonts.test/a.css', 'local.css']);
+    expect(css).not.toContain('@import');
+    expect(css).toContain('@charset "utf-8";');
+    expect(css).toContain(`${SCOPE} .a { color: red; }`);
+  });
+});
+
+describe('resolveCssUrls', () => {
+  it('makes relative urls absolute against the stylesheet and leaves embedded ones alone', () => {
+    const css = '.a { background: url(img/a.png); } .b { background: url("/b.png"); } .c { background: url(data:image/png;base64,AAAA); } .d { fill: url(#grad); }';
+    expect(resolveCssUrls(css, 'https://cdn.test/css/main.css')).toBe(
+      '.a { background: url(https://cdn.test/css/img/a.png); } .b { background: url("https://cdn.test/b.png"); } .c { background: url(data:image/png;base64,AAAA); } .d { fill: url(#grad); }'
+    );
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { createHistory, recordEdit, recordSnapshot, redo, undo } from '../utils/editHistory';
+
+describe('editHistory', () => {
+  it('coalesces quick successive edits into one undo step', () => {
+    let history = createHistory('a');
+    history = recordEdit(history, 'ab', 1000);
+    history = recordEdit(history, 'abc', 1200);
+    history = recordEdit(history, 'abcd', 5000);
+
+    expect(history.past).toEqual(['a', 'abc']);
+    expect(undo(history).present).toBe('abc');
+    expect(undo(undo(history)).present).toBe('a');
+  });
+
+  it('redoes undone edits until a new edit clears the future', () => {
+    let history = recordEdit(createHistory('one'), 'two', 1000);
+    history = undo(history);
+
+    expect(history.present).toBe('one');
+    expect(redo(history).present).toBe('two');
+    expect(recordEdit(history, 'three', 9000).future).toEqual([]);
+  });
+
+  it('never merges outside changes into the current typing burst', () => {
+    let history = recordEdit(createHistory('a'), 'ab', Date.now());
+    history = recordSnapshot(history, 'external');
+    history = recordEdit(history, 'external!');
+
+    expect(history.past).toEqual(['a', 'ab', 'external']);
+  });
+
+  it('ignores no-op edits and empty stacks', () => {
+    const history = createHistory('same');
+
+    expect(recordEdit(history, 'same')).toBe(history);
+    expect(undo(history)).toBe(history);
+    expect(redo(history)).toBe(history);
+  });
+});
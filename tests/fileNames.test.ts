@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { formatFileName, FileNameContext, sanitizeFileName, slugify } from '../utils/fileNames';
+
+describe('sanitizeFileName', () => {
+  it('replaces characters that are invalid in file names', () => {
+    expect(sanitizeFileName('Q&A: why/how? <"draft"> | v2*', 'design')).toBe('Q&A_ why_how_ __draft__ _ v2_');
+    expect(sanitizeFileName('C:\\cards\\01', 'design')).toBe('C__cards_01');
+  });
+
+  it('keeps unicode titles intact', () => {
+    expect(sanitizeFileName('카드뉴스 1. 문제 정의', 'design')).toBe('카드뉴스 1. 문제 정의');
+  });
+
+  it('falls back when nothing usable is left', () => {
+    expect(sanitizeFileName('   ', 'image')).toBe('image');
+    expect(sanitizeFileName('', 'design')).toBe('design');
+  });
+});
+
+describe('slugify', () => {
+  it('lowercases and joins words with dashes', () => {
+    expect(slugify('  Hello, World! 2 ')).toBe('hello-world-2');
+    expect(slugify('1. 문제 정의')).toBe('1-문제-정의');
+  });
+});
+
+describe('formatFileName', () => {
+  const ctx: FileNameContext = {
+    index: 3,
+    total: 12,
+    title: 'Deep Work: 90 min',
+    width: 1080,
+    height: 1350,
+    set: 'Productivity',
+    date: new Date(2025, 0, 9)
+  };
+
+  it('expands every token', () => {
+    expect(formatFileName('{index}_{title}', ctx)).toBe('03_Deep Work_ 90 min');
+    expect(formatFileName('{set}-{index}-{slug}', ctx)).toBe('Productivity-03-deep-work-90-min');
+    expect(formatFileName('{date}_{width}x{height}', ctx)).toBe('2025-01-09_1080x1350');
+  });
+
+  it('pads the index to the number of cards', () => {
+    expect(formatFileName('{index}', { ...ctx, total: 120 })).toBe('003');
+  });
+
+  it('drops separators left behind by an empty index', () => {
+    expect(formatFileName('{index}_{title}', { ...ctx, index: null })).toBe('Deep Work_ 90 min');
+    expect(formatFileName('{set}_{index}_{slug}', { ...ctx, index: null })).toBe('Productivity_deep-work-90-min');
+  });
+
+  it('keeps doubled separators that are part of the values', () => {
+    expect(formatFileName('{index}_{title}', { ...ctx, title: 'A__B--C' })).toBe('03_A__B--C');
+    expect(formatFileName('{index}__{title}', ctx)).toBe('03__Deep Work_ 90 min');
+  });
+
+  it('keeps unknown tokens and falls back to the title when nothing is left', () => {
+    expect(formatFileName('{nope}', ctx)).toBe('{nope}');
+    expect(formatFileName('{constructor}_{toString}', ctx)).toBe('{constructor}_{toString}');
+    expect(formatFileName('{index}_{{constructor}}', { ...ctx, fields: {} })).toBe('03');
+    expect(formatFileName('{index}', { ...ctx, index: null })).toBe('Deep Work_ 90 min');
+  });
+
+  it('fills {{field}} tokens from a merged card\'s data row', () => {
+    const fields = { name: 'Alice/Kim', 'author.city': 'Seoul' };
+    expect(formatFileName('{index}_{{name}}_{{ author.city }}', { ...ctx, fields })).toBe('03_Alice_Kim_Seoul');
+    expect(formatFileName('{index}_{{missing}}', ctx)).toBe('03');
+  });
+});
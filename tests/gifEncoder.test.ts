@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { createGifEncoder, quantizeFrame } from '../utils/gifEncoder';
+
+interface DecodedFrame {
+  delay: number;
+  transparentIndex: number | null;
+  palette: number[][];
+  indices: number[];
+}
+
+// Just enough of a GIF decoder to check what the encoder wrote
+const decodeGif = (bytes: Uint8Array) => {
+  let pos = 0;
+  const u8 = () => bytes[pos++];
+  const u16 = () => bytes[pos++] | (bytes[pos++] << 8);
+  const text = (n: number) => String.fromCharCode(...bytes.slice(pos, (pos += n)));
+  const subBlocks = () => {
+    const data: number[] = [];
+    for (let size = u8(); size > 0; size = u8()) {
+      data.push(...bytes.slice(pos, pos + size));
+      pos += size;
+    }
+    return data;
+  };
+
+  const header = text(6);
+  const width = u16();
+  const height = u16();
+  pos += 3;
+
+  const frames: DecodedFrame[] = [];
+  let loops = false;
+  let delay = 0;
+  let transparentIndex: number | null = null;
+
+  for (;;) {
+    const block = u8();
+    if (block === 0x3b) break;
+    if (block === 0x21) {
+      const label = u8();
+      if (label === 0xf9) {
+        u8();
+        const packed = u8();
+        delay = u16();
+        const index = u8();
+        transparentIndex = packed & 1 ? index : null;
+        u8();
+      } else {
+        const data = subBlocks();
+        if (label === 0xff && String.fromCharCode(...data.slice(0, 11)) === 'NETSCAPE2.0') loops = true;
+      }
+      continue;
+    }
+
+    expect(block).toBe(0x2c);
+    pos += 8;
+    const packed = u8();
+    const tableSize = 1 << ((packed & 7) + 1);
+    const palette: number[][] = [];
+    for (let i = 0; i < tableSize; i++) palette.push([u8(), u8(), u8()]);
+
+    const minCodeSize = u8();
+    const data = subBlocks();
+    const indices: number[] = [];
+    const clearCode = 1 << minCodeSize;
+    let codeSize = minCodeSize + 1;
+    let table: number[][] = [];
+    const reset = () => {
+      table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+      codeSize = minCodeSize + 1;
+    };
+    reset();
+
+    let bitPos = 0;
+    let previous: number[] | null = null;
+    while (bitPos + codeSize <= data.length * 8) {
+      let code = 0;
+      for (let i = 0; i < codeSize; i++, bitPos++) {
+        code |= ((data[bitPos >> 3] >> (bitPos & 7)) & 1) << i;
+      }
+      if (code === clearCode) {
+        reset();
+        previous = null;
+        continue;
+      }
+      if (code === clearCode + 1) break;
+
+      const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+      indices.push(...entry);
+      if (previous) table.push([...previous, entry[0]]);
+      previous = entry;
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+
+    frames.push({ delay, transparentIndex, palette, indices });
+  }
+
+  return { header, width, height, loops, frames };
+};
+
+const solidFrame = (width: number, height: number, colorAt: (x: number, y: number) => number[]) => {
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      rgba.set(colorAt(x, y), (y * width + x) * 4);
+    }
+  }
+  return rgba;
+};
+
+const pixelsOf = (frame: DecodedFrame) => frame.indices.map(i => frame.palette[i]);
+
+describe('quantizeFrame', () => {
+  it('keeps images with few colours exact', () => {
+    const colors = [[255, 0, 0, 255], [0, 128, 255, 255], [17, 34, 51, 255], [250, 250, 250, 255]];
+    const rgba = solidFrame(4, 4, (x, y) => colors[(x + y) % 4]);
+    const { palette, indices, transparentIndex } = quantizeFrame(rgba);
+
+    expect(palette).toHaveLength(4);
+    expect(transparentIndex).toBeNull();
+    Array.from(indices).forEach((index, i) => {
+      expect(palette[index]).toEqual(Array.from(rgba.slice(i * 4, i * 4 + 3)));
+    });
+  });
+
+  it('caps the palette at 256 entries', () => {
+    const rgba = solidFrame(64, 64, (x, y) => [x * 4, y * 4, (x * y) % 256, 255]);
+    expect(quantizeFrame(rgba).palette.length).toBeLessThanOrEqual(256);
+  });
+
+  it('reserves index 0 for transparent pixels', () => {
+    const rgba = solidFrame(2, 2, (x) => x === 0 ? [0, 0, 0, 0] : [10, 200, 30, 255]);
+    const { palette, indices, transparentIndex } = quantizeFrame(rgba, true);
+
+    expect(transparentIndex).toBe(0);
+    expect(Array.from(indices)).toEqual([0, 1, 0, 1]);
+    expect(palette[1]).toEqual([10, 200, 30]);
+  });
+});
+
+describe('createGifEncoder', () => {
+  it('writes a looping GIF89a whose frames decode back to the input', () => {
+    const width = 6;
+    const height = 5;
+    const first = solidFrame(width, height, (x, y) => (x + y) % 2 ? [255, 255, 255, 255] : [0, 0, 0, 255]);
+    const second = solidFrame(width, height, (x) => x < 3 ? [200, 30, 30, 255] : [30, 30, 200, 255]);
+
+    const encoder = createGifEncoder(width, height);
+    encoder.addFrame(first, 7);
+    encoder.addFrame(second, 6);
+    const gif = decodeGif(encoder.finish());
+
+    expect(gif.header).toBe('GIF89a');
+    expect([gif.width, gif.height]).toEqual([width, height]);
+    expect(gif.loops).toBe(true);
+    expect(gif.frames.map(f => f.delay)).toEqual([7, 6]);
+
+    [first, second].forEach((rgba, i) => {
+      const expected = Array.from({ length: width * height }, (_, p) => Array.from(rgba.slice(p * 4, p * 4 + 3)));
+      expect(pixelsOf(gif.frames[i])).toEqual(expected);
+    });
+  });
+
+  it('round-trips a frame long enough to reset the LZW table', () => {
+    const width = 128;
+    const height = 96;
+    const rgba = solidFrame(width, height, (x, y) => [(x * 7) & 255, (y * 13) & 255, ((x ^ y) * 5) & 255, 255]);
+
+    const encoder = createGifEncoder(width, height, { loop: false });
+    encoder.addFrame(rgba, 10);
+    const gif = decodeGif(encoder.finish());
+    const { palette, indices } = quantizeFrame(rgba);
+
+    expect(gif.loops).toBe(false);
+    expect(gif.frames[0].indices).toEqual(Array.from(indices));
+    expect(gif.frames[0].palette.slice(0, palette.length)).toEqual(palette);
+  });
+
+  it('marks the transparent index on transparent frames', () => {
+    const rgba = solidFrame(3, 3, (x, y) => x === y ? [0, 0, 0, 0] : [0, 255, 0, 255]);
+    const encoder = createGifEncoder(3, 3, { transparent: true });
+    encoder.addFrame(rgba, 5);
+    const frame = decodeGif(encoder.finish()).frames[0];
+
+    expect(frame.transparentIndex).toBe(0);
+    expect(frame.indices.filter(i => i === 0)).toHaveLength(3);
+  });
+
+  it('rejects frames of the wrong size', () => {
+    const encoder = createGifEncoder(4, 4);
+    expect(() => encoder.addFrame(new Uint8ClampedArray(4), 5)).toThrow(/expected 4×4/);
+  });
+});
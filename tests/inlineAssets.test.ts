@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { AssetFetcher, formatFailedAssets, inlineAssets, parseSrcset } from '../utils/inlineAssets';
+
+const BASE = 'https://cards.test/deck/';
+
+// Stands in for the network: known URLs answer with their body, anything else fails like a 404
+const createFetcher = (assets: Record<string, { body: string, type?: string }>) => {
+  const requested: string[] = [];
+  const fetcher: AssetFetcher = async (url) => {
+    requested.push(url);
+    const asset = assets[url];
+    if (!asset) throw new Error('HTTP 404');
+    return new Blob([asset.body], { type: asset.type ?? '' });
+  };
+  return { fetcher, requested };
+};
+
+const dataUrl = (body: string, type: string) => `data:${type};base64,${btoa(body)}`;
+
+describe('parseSrcset', () => {
+  it('splits candidates and keeps their descriptors', () => {
+    expect(parseSrcset('a.png 1x, b.png 2x,c.png')).toEqual([
+      { url: 'a.png', descriptor: '1x' },
+      { url: 'b.png', descriptor: '2x' },
+      { url: 'c.png', descriptor: '' }
+    ]);
+  });
+
+  it('keeps commas that belong to the URL', () => {
+    expect(parseSrcset('https://cdn.test/w_400,h_300/a.jpg 400w, data:image/png;base64,AAAA 2x')).toEqual([
+      { url: 'https://cdn.test/w_400,h_300/a.jpg', descriptor: '400w' },
+      { url: 'data:image/png;base64,AAAA', descriptor: '2x' }
+    ]);
+    expect(parseSrcset('a.png, b.png 2x')).toEqual([
+      { url: 'a.png', descriptor: '' },
+      { url: 'b.png', descriptor: '2x' }
+    ]);
+  });
+});
+
+describe('inlineAssets', () => {
+  it('embeds url() references in style blocks and attributes', async () => {
+    const { fetcher, requested } = createFetcher({
+      [`${BASE}bg.png`]: { body: 'PNG', type: 'image/png' },
+      'https://cards.test/fonts/a.woff2': { body: 'FONT' }
+    });
+    const html = `<html><head><style>
+      body { background: url("bg.png"); }
+      @font-face { src: url(/fonts/a.woff2); }
+    </style></head><body><div style="background-image: url('bg.png')"></div></body></html>`;
+
+    const result = await inlineAssets(html, { fetcher, baseUrl: BASE });
+
+    expect(result.html).toContain(`url("${dataUrl('PNG', 'image/png')}")`);
+    expect(result.html).toContain(`url("${dataUrl('FONT', 'font/woff2')}")`);
+    expect(result.html).not.toContain('bg.png');
+    expect(result.failed).toEqual([]);
+    expect(requested.filter(url => url.endsWith('bg.png'))).toHaveLength(1);
+  });
+
+  it('turns linked stylesheets into style blocks and follows nested @import', async () => {
+    const { fetcher } = createFetcher({
+      'https://cards.test/css/main.css': { body: '@import "parts/type.css" print;\n.card { color: red; }' },
+      'https://cards.test/css/parts/type.css': { body: 'h1 { background: url(../img/h.png); }' },
+      'https://cards.test/css/img/h.png': { body: 'H', type: 'image/png' }
+    });
+    const html = '<html><head><link rel="stylesheet" href="/css/main.css" media="screen"></head><body></body></html>';
+
+    const result = await inlineAssets(html, { fetcher, baseUrl: BASE });
+
+    expect(result.html).not.toContain('<link');
+    expect(result.html).toContain('<style media="screen">');
+    expect(result.html).toContain('@media print {');
+    expect(result.html).toContain(`h1 { background: url("${dataUrl('H', 'image/png')}"); }`);
+    expect(result.html).toContain('.card { color: red; }');
+  });
+
+  it('inlines img, poster and srcset sources', async () => {
+    const { fetcher } = createFetcher({
+      [`${BASE}a.jpg`]: { body: 'A', type: 'image/jpeg' },
+      [`${BASE}poster.jpg`]: { body: 'P', type: 'image/jpeg' },
+      'https://cdn.test/w_400,h_300/b.jpg': { body: 'B', type: 'image/jpeg' }
+    });
+    const html = `<html><head></head><body>
+      <img src="a.jpg" srcset="https://cdn.test/w_400,h_300/b.jpg 400w, data:image/png;base64,AAAA 2x">
+      <video poster="poster.jpg"></video>
+    </body></html>`;
+
+    const result = await inlineAssets(html, { fetcher, baseUrl: BASE });
+    const doc = new DOMParser().parseFromString(result.html, 'text/html');
+
+    expect(doc.querySelector('img')!.getAttribute('src')).toBe(dataUrl('A', 'image/jpeg'));
+    expect(doc.querySelector('video')!.getAttribute('poster')).toBe(dataUrl('P', 'image/jpeg'));
+    expect(doc.querySelector('img')!.getAttribute('srcset')).toBe(`${dataUrl('B', 'image/jpeg')} 400w, data:image/png;base64,AAAA 2x`);
+    expect(result.failed).toEqual([]);
+  });
+
+  it('leaves empty sources alone instead of fetching the page itself', async () => {
+    const { fetcher, requested } = createFetcher({ [BASE]: { body: '<html></html>', type: 'text/html' } });
+    const html = '<html><head></head><body><img src=""><img src="  "><video poster=""></video><img srcset=""></body></html>';
+
+    const result = await inlineAssets(html, { fetcher, baseUrl: BASE });
+
+    expect(requested).toEqual([]);
+    expect(result.html).not.toContain('data:');
+    expect(result.failed).toEqual([]);
+  });
+
+  it('inserts imported CSS literally', async () => {
+    const { fetcher } = createFetcher({
+      'https://cards.test/css/money.css': { body: ".price::before { content: \"$&$'\"; }" }
+    });
+    const html = '<html><head><style>@import "/css/money.css";</style></head><body></body></html>';
+
+    const result = await inlineAssets(html, { fetcher, baseUrl: BASE });
+
+    expect(result.html).toContain(".price::before { content: \"$&$'\"; }");
+    expect(result.html).not.toContain('@import');
+  });
+
+  it('reports assets that could not be fetched and leaves them referenced', async () => {
+    const { fetcher } = createFetcher({});
+    const html = '<!DOCTYPE html><html><head><link rel="stylesheet" href="missing.css"></head><body><img src="gone.png"><img src="gone.png"></body></html>';
+
+    const result = await inlineAssets(html, { fetcher, baseUrl: BASE });
+
+    expect(result.html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(result.html).toContain('src="gone.png"');
+    expect(result.failed).toEqual([
+      { url: `${BASE}missing.css`, reason: 'HTTP 404' },
+      { url: `${BASE}gone.png`, reason: 'HTTP 404' }
+    ]);
+    expect(formatFailedAssets(result.failed)).toBe(`• ${BASE}missing.css (HTTP 404)\n• ${BASE}gone.png (HTTP 404)`);
+  });
+});
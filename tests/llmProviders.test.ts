@@ -0,0 +1,156 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { LlmProviderId, LlmSettings } from '../types';
+import { createGenerator } from '../services/llmProviders';
+import { getRefinePrompt } from '../services/generator';
+import { DEFAULT_BRAND_KIT } from '../utils/brandKit';
+import { DEFAULT_LLM_SETTINGS, normalizeLlmSettings, resolveBaseUrl } from '../utils/llmSettings';
+
+const CARD = '```html\n<div>Card</div>\n```';
+
+interface Received {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+// A local stand-in for each provider's streaming API
+let server: Server;
+let baseUrl = '';
+let received: Received[] = [];
+
+const handle = (req: IncomingMessage, res: ServerResponse) => {
+  const parts = [CARD.slice(0, 10), CARD.slice(10)];
+  if (req.url === '/v1/chat/completions') {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    parts.forEach(p => res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: p } }] })}\n\n`));
+    res.end('data: [DONE]\n\n');
+  } else if (req.url === '/v1/messages') {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    res.write(`event: message_start\ndata: ${JSON.stringify({ type: 'message_start' })}\n\n`);
+    parts.forEach(p => res.write(`event: content_block_delta\ndata: ${JSON.stringify({ type: 'content_block_delta', delta: { type: 'text_delta', text: p } })}\n\n`));
+    res.end(`event: message_stop\ndata: ${JSON.stringify({ type: 'message_stop' })}\n\n`);
+  } else if (req.url === '/api/chat') {
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    parts.forEach(p => res.write(`${JSON.stringify({ message: { content: p }, done: false })}\n`));
+    res.end(`${JSON.stringify({ message: { content: '' }, done: true })}\n`);
+  } else if (req.url === '/broken/chat/completions') {
+    res.writeHead(401, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: 'Invalid API key' } }));
+  } else {
+    res.writeHead(404).end();
+  }
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : null;
+      received.push({ url: req.url!, headers: req.headers, body });
+      handle(req, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const settingsFor = (provider: LlmProviderId, path = '', temperature = 0.7): LlmSettings => ({
+  ...DEFAULT_LLM_SETTINGS,
+  provider,
+  temperature,
+  providers: {
+    ...DEFAULT_LLM_SETTINGS.providers,
+    [provider]: { model: 'test-model', apiKey: 'secret', baseUrl: `${baseUrl}${path}/` }
+  }
+});
+
+describe('createGenerator against a local mock server', () => {
+  it.each([
+    ['openai', '/v1', '/v1/chat/completions'],
+    ['anthropic', '', '/v1/messages'],
+    ['ollama', '', '/api/chat']
+  ] as const)('streams %s output to the progress callback', async (provider, path, endpoint) => {
+    received = [];
+    const progress: string[] = [];
+    const text = await createGenerator(settingsFor(provider, path))('A card', t => progress.push(t));
+
+    expect(text).toBe(CARD);
+    expect(progress).toEqual([CARD.slice(0, 10), CARD]);
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe(endpoint);
+    expect(received[0].body.model).toBe('test-model');
+    expect(received[0].body.stream).toBe(true);
+    expect(JSON.stringify(received[0].body)).toContain('A card');
+  });
+
+  it('sends each provider its own auth header', async () => {
+    received = [];
+    await createGenerator(settingsFor('openai', '/v1'))('x');
+    await createGenerator(settingsFor('anthropic'))('x');
+    expect(received[0].headers.authorization).toBe('Bearer secret');
+    expect(received[1].headers['x-api-key']).toBe('secret');
+    expect(received[1].headers['anthropic-version']).toBeTruthy();
+  });
+
+  it('passes the brand kit into the system prompt', async () => {
+    received = [];
+    await createGenerator(settingsFor('ollama'))('x', undefined, { brandKit: { ...DEFAULT_BRAND_KIT, enabled: true } });
+    expect(received[0].body.messages[0].role).toBe('system');
+    expect(received[0].body.messages[0].content).toContain('var(--brand-primary, #4f46e5)');
+  });
+
+  it('caps the temperature at what the provider accepts', async () => {
+    received = [];
+    await createGenerator(settingsFor('anthropic', '', 1.6))('x');
+    await createGenerator(settingsFor('ollama', '', 1.6))('x');
+    expect(received[0].body.temperature).toBe(1);
+    expect(received[1].body.options.temperature).toBe(1.6);
+  });
+
+  it("surfaces the provider's error message", async () => {
+    await expect(createGenerator(settingsFor('openai', '/broken'))('x'))
+      .rejects.toThrow('OpenAI request failed (401): Invalid API key');
+  });
+
+  it('refuses to call a keyed provider without a key', async () => {
+    const settings = settingsFor('anthropic');
+    settings.providers.anthropic.apiKey = ' ';
+    await expect(createGenerator(settings)('x')).rejects.toThrow('API Key is missing.');
+  });
+});
+
+describe('getRefinePrompt', () => {
+  it('sends the current code with the instruction and asks for one block back', () => {
+    const prompt = getRefinePrompt('<div>Card</div>', '  make the headline bigger ');
+    expect(prompt).toContain('```html\n<div>Card</div>\n```');
+    expect(prompt).toContain('Change it as follows: make the headline bigger\n');
+    expect(prompt).toContain('single ```html code block');
+  });
+});
+
+describe('normalizeLlmSettings', () => {
+  it('falls back to defaults for missing or invalid values', () => {
+    expect(normalizeLlmSettings(null)).toEqual(DEFAULT_LLM_SETTINGS);
+    expect(normalizeLlmSettings({ provider: 'nope', temperature: 9 })).toEqual({ ...DEFAULT_LLM_SETTINGS, temperature: 2 });
+  });
+
+  it('keeps stored keys and fills in providers added since', () => {
+    const settings = normalizeLlmSettings({
+      provider: 'openai',
+      providers: { openai: { model: 'gpt-x', apiKey: 'sk-1', baseUrl: 'http://proxy' } }
+    });
+    expect(settings.provider).toBe('openai');
+    expect(settings.providers.openai).toEqual({ model: 'gpt-x', apiKey: 'sk-1', baseUrl: 'http://proxy' });
+    expect(settings.providers.ollama).toEqual(DEFAULT_LLM_SETTINGS.providers.ollama);
+  });
+
+  it('resolves empty endpoints to the provider default', () => {
+    expect(resolveBaseUrl('ollama', { model: '', apiKey: '', baseUrl: '' })).toBe('http://localhost:11434');
+    expect(resolveBaseUrl('openai', { model: '', apiKey: '', baseUrl: 'http://localhost:1234/v1//' })).toBe('http://localhost:1234/v1');
+  });
+});
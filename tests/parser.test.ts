@@ -0,0 +1,225 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  extractArtifacts,
+  looksLikeHtml,
+  mergeArtifacts,
+  parseHtmlForPreview,
+  splitArtifact,
+  toFullHtml
+} from '../utils/parser';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, 'fixtures', name), 'utf-8');
+
+const bodyOf = (code: string) => new DOMParser().parseFromString(code, 'text/html').body;
+
+describe('looksLikeHtml', () => {
+  it('detects markdown code fences, documents and markup snippets', () => {
+    expect(looksLikeHtml(fixture('chatgpt-multi-block.md'))).toBe(true);
+    expect(looksLikeHtml(fixture('claude-raw-document.html'))).toBe(true);
+    expect(looksLikeHtml(fixture('malformed.html'))).toBe(true);
+  });
+
+  it('treats plain prose as a prompt', () => {
+    expect(looksLikeHtml('Make 5 cards about healthy breakfast ideas')).toBe(false);
+    expect(looksLikeHtml('Use a <b>bold</b> headline')).toBe(false);
+  });
+});
+
+describe('extractArtifacts', () => {
+  it('keeps one artifact per fenced block and ignores the surrounding chat text', () => {
+    const artifacts = extractArtifacts(fixture('chatgpt-multi-block.md'));
+
+    expect(artifacts).toHaveLength(3);
+    expect(artifacts.map(a => a.title)).toEqual(['Morning Routine', 'Deep Work', 'Artifact 3']);
+    expect(artifacts.map(a => a.sourceIndex)).toEqual([0, 1, 2]);
+    expect(artifacts[0].code.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(artifacts[0].code).not.toContain('```');
+    expect(artifacts[2].code).toContain('Evening Review');
+  });
+
+  it('splits a raw document on its card wrapper and carries the head into each card', () => {
+    const artifacts = extractArtifacts(fixture('claude-raw-document.html'));
+
+    expect(artifacts).toHaveLength(4);
+    expect(artifacts.map(a => a.title)).toEqual(['1. 문제 정의', '2. 원인 분석', '3. 해결 방안', '마무리']);
+    artifacts.forEach(artifact => {
+      expect(artifact.sourceIndex).toBe(0);
+      expect(artifact.code).toContain('.card { width: 1080px; height: 1350px;');
+      expect(artifact.code).toContain('<body style="margin:0; padding:0; background: transparent;">');
+      expect(bodyOf(artifact.code).querySelectorAll('.card')).toHaveLength(1);
+    });
+  });
+
+  it('truncates long titles to 30 characters', () => {
+    const artifacts = extractArtifacts(fixture('gemini-nested-wrapper.md'), { mode: 'selector', selector: '.slide' });
+    expect(artifacts[2].title).toBe('Generics Without Tears: A Prac...');
+  });
+
+  it('does not descend more than one wrapper level in auto mode', () => {
+    const artifacts = extractArtifacts(fixture('gemini-nested-wrapper.md'));
+
+    expect(artifacts).toHaveLength(1);
+    expect(artifacts[0].title).toBe('Artifact 1');
+  });
+
+  it('keeps the top-level parts of a single card together in auto mode', () => {
+    const artifacts = extractArtifacts(fixture('single-card-two-divs.html'));
+
+    expect(artifacts).toHaveLength(1);
+    expect(bodyOf(artifacts[0].code).querySelector('.author')).not.toBeNull();
+  });
+
+  it('splits top-level siblings that each look like a card in auto mode', () => {
+    const input = '<style>.slide { height: 100px; }</style><div class="slide"><h2>One</h2></div><section><h2>Two</h2></section>';
+    expect(extractArtifacts(input).map(a => a.title)).toEqual(['One', 'Two']);
+  });
+
+  it('keeps malformed snippets whole instead of dropping them', () => {
+    const input = fixture('malformed.html');
+    const artifacts = extractArtifacts(input);
+
+    expect(artifacts).toHaveLength(1);
+    expect(artifacts[0].code).toBe(input.trim());
+    expect(artifacts[0].title).toBe('Artifact 1');
+  });
+
+  it('returns nothing for prose', () => {
+    expect(extractArtifacts('Just some notes, no markup here.')).toEqual([]);
+  });
+
+  it('gives every artifact a unique id', () => {
+    const artifacts = [
+      ...extractArtifacts(fixture('chatgpt-multi-block.md')),
+      ...extractArtifacts(fixture('claude-raw-document.html'))
+    ];
+    expect(new Set(artifacts.map(a => a.id)).size).toBe(artifacts.length);
+  });
+
+  it('keeps the ids of earlier blocks while a response is still streaming', () => {
+    const full = fixture('chatgpt-multi-block.md');
+    const partial = full.slice(0, full.indexOf('```html', full.indexOf('Evening Review')) + 20);
+    const early = extractArtifacts(partial, undefined, 42);
+    const final = extractArtifacts(full, undefined, 42);
+
+    expect(early.length).toBeLessThan(final.length);
+    expect(final.slice(0, early.length).map(a => a.id)).toEqual(early.map(a => a.id));
+  });
+
+  describe('split modes', () => {
+    it('never: one artifact per block', () => {
+      const artifacts = extractArtifacts(fixture('single-card-two-divs.html'), { mode: 'never', selector: '' });
+
+      expect(artifacts).toHaveLength(1);
+      expect(artifacts[0].title).toBe('Quote of the Day');
+    });
+
+    it('selector: one artifact per outermost match', () => {
+      const artifacts = extractArtifacts(fixture('gemini-nested-wrapper.md'), { mode: 'selector', selector: '.slides > .slide' });
+
+      expect(artifacts).toHaveLength(3);
+      expect(artifacts.map(a => a.title).slice(0, 2)).toEqual(['Why TypeScript?', 'Type Inference']);
+    });
+
+    it('selector: an invalid selector keeps the block whole', () => {
+      const artifacts = extractArtifacts(fixture('claude-raw-document.html'), { mode: 'selector', selector: '>>>' });
+      expect(artifacts).toHaveLength(1);
+    });
+
+    it('marker: splits at page-break comments', () => {
+      const artifacts = extractArtifacts(fixture('page-break-markers.html'), { mode: 'marker', selector: '' });
+
+      expect(artifacts).toHaveLength(3);
+      expect(artifacts.map(a => a.title)).toEqual(['Cover', 'Chapter One', 'Chapter Two']);
+      expect(artifacts[1].code).toContain('.page { width: 1080px;');
+      expect(artifacts[1].code).not.toContain('Cover');
+    });
+
+    it('marker: keeps the elements a nested marker sits in', () => {
+      const input = `<style>.slides { display: grid; }</style>
+        <div class="slides">
+          <section><h2>One</h2></section>
+          <!-- page-break -->
+          <section><h2>Two</h2></section>
+        </div>`;
+      const artifacts = extractArtifacts(input, { mode: 'marker', selector: '' });
+
+      expect(artifacts.map(a => a.title)).toEqual(['One', 'Two']);
+      artifacts.forEach(artifact => {
+        const body = bodyOf(artifact.code);
+        expect(body.querySelectorAll('.slides > section')).toHaveLength(1);
+        expect(artifact.code).toContain('.slides { display: grid; }');
+      });
+      expect(artifacts[1].code).not.toContain('One');
+    });
+  });
+});
+
+describe('splitArtifact / mergeArtifacts', () => {
+  it('splits through nested wrappers on demand', () => {
+    const [deck] = extractArtifacts(fixture('gemini-nested-wrapper.md'));
+    const parts = splitArtifact({ ...deck, size: { width: 1080, height: 1350 } });
+
+    expect(parts).toHaveLength(3);
+    expect(parts[0].title).toBe('Why TypeScript?');
+    expect(parts.every(p => p.size?.height === 1350)).toBe(true);
+  });
+
+  it('returns the artifact unchanged when there is nothing to split', () => {
+    const card = { id: 'a', title: 'Solo', type: 'html' as const, code: '<div><p>Only child</p></div>' };
+    expect(splitArtifact(card)).toEqual([card]);
+  });
+
+  it('merges bodies and de-duplicates shared head nodes', () => {
+    const [quote, author] = extractArtifacts(fixture('single-card-two-divs.html'), { mode: 'selector', selector: 'body > div' });
+    const merged = mergeArtifacts(quote, author);
+    const doc = new DOMParser().parseFromString(merged.code, 'text/html');
+
+    expect(merged.title).toBe(quote.title);
+    expect(merged.id).not.toBe(quote.id);
+    expect(doc.querySelectorAll('style')).toHaveLength(1);
+    expect(doc.body.querySelector('.quote')).not.toBeNull();
+    expect(doc.body.querySelector('.author')).not.toBeNull();
+  });
+});
+
+describe('toFullHtml', () => {
+  it('returns complete documents untouched', () => {
+    const code = fixture('single-card-two-divs.html');
+    expect(toFullHtml({ code, title: 'x' })).toBe(code.trim());
+  });
+
+  it('wraps snippets with the title and an optional body background', () => {
+    const html = toFullHtml({ code: '<div>Hi</div>', title: 'Greeting' }, 'transparent');
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Greeting</title>');
+    expect(html).toContain('<body style="margin:0;padding:0;background:transparent;">\n<div>Hi</div>\n</body>');
+    expect(toFullHtml({ code: '<div>Hi</div>', title: 'Greeting' })).toContain('<body style="margin:0;padding:0;">');
+  });
+});
+
+describe('parseHtmlForPreview', () => {
+  it('scopes styles to the wrapper and strips style tags from the body', () => {
+    const parsed = parseHtmlForPreview(fixture('claude-raw-document.html'), 'preview-1');
+
+    expect(parsed.styles).toContain('#preview-1 .card');
+    expect(parsed.styles).not.toMatch(/(^|[\s}])body\s*\{/);
+    expect(parsed.bodyContent).toContain('class="card-wrapper"');
+    expect(parsed.bodyContent).not.toContain('<style');
+    expect(parsed.stylesheets).toEqual([]);
+  });
+
+  it('collects linked and imported stylesheets for later loading', () => {
+    const html = `<html><head>
+      <link rel="stylesheet" href="https://fonts.example.com/inter.css">
+      <style>@import url("theme.css"); .a { color: red; }</style>
+    </head><body><div class="a">A</div><style>.b { color: blue; }</style></body></html>`;
+    const parsed = parseHtmlForPreview(html, 'w');
+
+    expect(parsed.stylesheets).toEqual(['https://fonts.example.com/inter.css', 'theme.css']);
+    expect(parsed.styles).toContain('#w .a');
+    expect(parsed.bodyContent).not.toContain('.b { color: blue; }');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { PromptTemplate } from '../types';
+import { getSystemInstruction } from '../services/generator';
+import { DEFAULT_BRAND_KIT } from '../utils/brandKit';
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_PROMPT_SELECTION,
+  fillPromptTemplate,
+  findTemplateVariables,
+  getAspectRatio,
+  getSavedTemplates,
+  mergeTemplates
+} from '../utils/promptTemplates';
+
+const variables = { slides: 3, language: 'Korean', tone: 'playful' };
+
+describe('getAspectRatio', () => {
+  it('reduces sizes to a simple ratio', () => {
+    expect(getAspectRatio({ width: 1080, height: 1080 })).toBe('1:1');
+    expect(getAspectRatio({ width: 1080, height: 1350 })).toBe('4:5');
+    expect(getAspectRatio({ width: 1920, height: 1080 })).toBe('16:9');
+  });
+
+  it('falls back to a decimal ratio for odd sizes', () => {
+    expect(getAspectRatio({ width: 1200, height: 627 })).toBe('1.91:1');
+    expect(getAspectRatio({ width: 500, height: 1003 })).toBe('1:2.01');
+  });
+});
+
+describe('fillPromptTemplate', () => {
+  it('fills every variable from the selection and the output size', () => {
+    const text = fillPromptTemplate('{slides} slides, {width}x{height} ({aspect}), {language}, {tone}', variables, { width: 1080, height: 1350 });
+    expect(text).toBe('3 slides, 1080x1350 (4:5), Korean, playful');
+  });
+
+  it('defaults the language to the request and leaves unknown braces alone', () => {
+    const text = fillPromptTemplate('Write in {language}. {unknown}', { ...variables, language: ' ' }, { width: 1, height: 1 });
+    expect(text).toBe('Write in the language of the request. {unknown}');
+    expect(fillPromptTemplate('{constructor} {toString}', variables, { width: 1, height: 1 })).toBe('{constructor} {toString}');
+  });
+
+  it('lists the variables a template uses', () => {
+    expect(findTemplateVariables('{tone} and {aspect} but not {other}')).toEqual(['aspect', 'tone']);
+    expect(findTemplateVariables(BUILT_IN_TEMPLATES[0].instruction)).toEqual(['slides', 'width', 'height', 'aspect', 'language', 'tone']);
+  });
+});
+
+describe('template library', () => {
+  const custom: PromptTemplate = { id: 'mine', name: 'Mine', description: '', instruction: 'x', builtIn: false };
+
+  it('starts from the built-ins and appends user templates', () => {
+    expect(mergeTemplates([])).toEqual(BUILT_IN_TEMPLATES);
+    expect(mergeTemplates([custom]).at(-1)).toEqual(custom);
+  });
+
+  it('applies saved edits to built-ins in place', () => {
+    const edited = { ...BUILT_IN_TEMPLATES[1], instruction: 'Edited' };
+    const merged = mergeTemplates([edited]);
+    expect(merged[1]).toEqual(edited);
+    expect(merged).toHaveLength(BUILT_IN_TEMPLATES.length);
+  });
+
+  it('only stores templates that differ from the shipped ones', () => {
+    const edited = { ...BUILT_IN_TEMPLATES[1], name: 'Renamed' };
+    const templates = mergeTemplates([edited, custom]);
+    expect(getSavedTemplates(templates)).toEqual([edited, custom]);
+    expect(getSavedTemplates(mergeTemplates([]))).toEqual([]);
+  });
+});
+
+describe('getSystemInstruction', () => {
+  it('targets the output size instead of a generic square', () => {
+    expect(getSystemInstruction()).toContain('1080x1080 or 1280x1280');
+    const instruction = getSystemInstruction({ size: { width: 1080, height: 1920 } });
+    expect(instruction).toContain('exactly 1080x1920 pixels');
+    expect(instruction).not.toContain('1280x1280');
+  });
+
+  it('adds the style guide before the brand kit', () => {
+    const styleGuide = fillPromptTemplate(BUILT_IN_TEMPLATES[0].instruction, DEFAULT_PROMPT_SELECTION.variables, { width: 1080, height: 1350 });
+    const instruction = getSystemInstruction({ styleGuide, brandKit: { ...DEFAULT_BRAND_KIT, enabled: true } });
+    expect(instruction).toContain('Create exactly 5 slides, each its own 1080x1350 (4:5) card');
+    expect(instruction.indexOf('Style guide: Instagram carousel.')).toBeLessThan(instruction.indexOf('Brand kit'));
+  });
+});
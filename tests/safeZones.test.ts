@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SAFE_ZONE_SETTINGS, findCoveringRegion, getSafeZoneRegions, normalizeSafeZoneSettings } from '../utils/safeZones';
+
+describe('getSafeZoneRegions', () => {
+  it('scales UI regions to the card', () => {
+    const regions = getSafeZoneRegions('youtube-thumbnail', { width: 1280, height: 720 });
+    expect(regions).toEqual([{ id: 'timestamp', left: 1024, top: 612, width: 256, height: 108 }]);
+  });
+
+  it('keeps a margin on every side for the generic preset', () => {
+    const regions = getSafeZoneRegions('generic', { width: 1000, height: 500 });
+    expect(regions.map(r => [r.left, r.top, r.width, r.height])).toEqual([
+      [0, 0, 1000, 50],
+      [0, 450, 1000, 50],
+      [0, 0, 100, 500],
+      [900, 0, 100, 500]
+    ]);
+  });
+
+  it('crops tall cards to 4:5 in the feed and to a square in the grid', () => {
+    const regions = getSafeZoneRegions('instagram-feed', { width: 1080, height: 1920 });
+    expect(regions.map(r => [r.id, r.top, r.height])).toEqual([
+      ['feed-crop', 0, 285],
+      ['feed-crop', 1635, 285],
+      ['grid-crop', 0, 420],
+      ['grid-crop', 1500, 420]
+    ]);
+  });
+
+  it('crops wide cards at the sides and leaves square cards alone', () => {
+    const wide = getSafeZoneRegions('instagram-feed', { width: 2000, height: 500 });
+    expect(wide.map(r => [r.id, r.left, r.width])).toEqual([
+      ['feed-crop', 0, 522.5],
+      ['feed-crop', 1477.5, 522.5],
+      ['grid-crop', 0, 750],
+      ['grid-crop', 1250, 750]
+    ]);
+    expect(getSafeZoneRegions('instagram-feed', { width: 1080, height: 1080 })).toEqual([]);
+  });
+});
+
+describe('findCoveringRegion', () => {
+  const regions = getSafeZoneRegions('tiktok', { width: 1080, height: 1920 });
+
+  it('finds the first region a box overlaps', () => {
+    expect(findCoveringRegion({ left: 900, top: 1000, right: 1000, bottom: 1100 }, regions)?.id).toBe('actions');
+    expect(findCoveringRegion({ left: 100, top: 1700, right: 500, bottom: 1800 }, regions)?.id).toBe('caption');
+  });
+
+  it('ignores boxes that only touch a region', () => {
+    expect(findCoveringRegion({ left: 100, top: 154, right: 800, bottom: 400 }, regions)).toBeUndefined();
+  });
+});
+
+describe('normalizeSafeZoneSettings', () => {
+  it('fills in defaults and drops unknown presets', () => {
+    expect(normalizeSafeZoneSettings({ check: true })).toEqual({ ...DEFAULT_SAFE_ZONE_SETTINGS, check: true });
+    expect(normalizeSafeZoneSettings({ preset: 'myspace' as never }).preset).toBe('generic');
+    expect(normalizeSafeZoneSettings(null)).toEqual(DEFAULT_SAFE_ZONE_SETTINGS);
+  });
+});
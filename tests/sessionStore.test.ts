@@ -0,0 +1,108 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Session } from '../types';
+import {
+  deleteSession,
+  duplicateSession,
+  getLatestSession,
+  getSessionName,
+  isSameSource,
+  listSessions,
+  MAX_SESSIONS,
+  renameSession,
+  saveSession
+} from '../utils/sessionStore';
+import { DEFAULT_EXPORT_SETTINGS } from '../utils/exportSettings';
+import { DEFAULT_RENDER_SETTINGS } from '../utils/renderSettings';
+import { DEFAULT_SIZE } from '../utils/sizePresets';
+
+const makeSession = (id: string, updatedAt: number): Session => ({
+  id,
+  name: `Session ${id}`,
+  createdAt: updatedAt,
+  updatedAt,
+  input: '<div>Hello</div>',
+  inputMode: 'auto',
+  source: '<div>Hello</div>',
+  artifacts: [{ id: `${id}-card`, code: '<div>Hello</div>', title: 'Hello', type: 'html' }],
+  settings: {
+    lang: 'en',
+    useNumbering: true,
+    includeHtmlInZip: false,
+    selfContainedHtml: false,
+    sessionSize: DEFAULT_SIZE,
+    exportSettings: DEFAULT_EXPORT_SETTINGS,
+    renderSettings: DEFAULT_RENDER_SETTINGS
+  }
+});
+
+beforeEach(async () => {
+  for (const session of await listSessions()) await deleteSession(session.id);
+});
+
+describe('sessionStore', () => {
+  it('lists sessions newest first and returns the latest', async () => {
+    await saveSession(makeSession('a', 1000));
+    await saveSession(makeSession('b', 3000));
+    await saveSession(makeSession('c', 2000));
+
+    expect((await listSessions()).map(s => s.id)).toEqual(['b', 'c', 'a']);
+    expect((await getLatestSession())?.id).toBe('b');
+  });
+
+  it('overwrites a session saved under the same id', async () => {
+    await saveSession(makeSession('a', 1000));
+    await saveSession({ ...makeSession('a', 2000), input: 'edited' });
+
+    const sessions = await listSessions();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].input).toBe('edited');
+  });
+
+  it('renames, duplicates and deletes', async () => {
+    const original = makeSession('a', 1000);
+    await saveSession(original);
+
+    await renameSession('a', 'Launch deck');
+    const copy = await duplicateSession({ ...original, name: 'Launch deck' }, 'Launch deck (copy)');
+    expect(copy.id).not.toBe('a');
+    expect(copy.artifacts).toEqual(original.artifacts);
+
+    await deleteSession('a');
+    const sessions = await listSessions();
+    expect(sessions.map(s => s.name)).toEqual(['Launch deck (copy)']);
+  });
+
+  it('drops the oldest sessions beyond the limit', async () => {
+    for (let i = 0; i <= MAX_SESSIONS; i++) {
+      await saveSession(makeSession(`s${i}`, 1000 + i));
+    }
+
+    const sessions = await listSessions();
+    expect(sessions).toHaveLength(MAX_SESSIONS);
+    expect(sessions.some(s => s.id === 's0')).toBe(false);
+  });
+});
+
+describe('getSessionName', () => {
+  it('prefers the first card title, then the first input line', () => {
+    expect(getSessionName({ input: 'x', artifacts: [{ id: '1', code: '', title: 'Morning Routine', type: 'html' }] })).toBe('Morning Routine');
+    expect(getSessionName({ input: 'Five cards about tea\nmore', artifacts: [{ id: '1', code: '', title: 'Artifact 1', type: 'html' }] })).toBe('Five cards about tea');
+    expect(getSessionName({ input: '   ', artifacts: [] })).toBe('Untitled');
+  });
+
+  it('skips code fences when naming from the input', () => {
+    expect(getSessionName({ input: '```html\n<div>Tea time</div>\n```', artifacts: [] })).toBe('<div>Tea time</div>');
+    expect(getSessionName({ input: '```\n```', artifacts: [] })).toBe('Untitled');
+  });
+});
+
+describe('isSameSource', () => {
+  it('treats edits as the same source and unrelated input as a new one', () => {
+    const html = '<div class="card"><h1>Morning Routine</h1><p>Wake up early</p></div>';
+    expect(isSameSource(html, html.replace('early', 'at six'))).toBe(true);
+    expect(isSameSource(html, `${html}<div class="card"><h1>Evening</h1></div>`)).toBe(true);
+    expect(isSameSource(html, '<section><h2>Quarterly report</h2></section>')).toBe(false);
+    expect(isSameSource('', html)).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { highlightCss, highlightHtml } from '../utils/syntaxHighlight';
+
+// The highlighted layer sits under the textarea, so its text must match the source exactly
+const textOf = (markup: string) => {
+  const el = document.createElement('pre');
+  el.innerHTML = markup;
+  return el.textContent;
+};
+
+describe('syntaxHighlight', () => {
+  it('preserves every character of HTML, including half-typed tags', () => {
+    const samples = [
+      '<!DOCTYPE html>\n<div class="card" data-x=\'1\' hidden>A &amp; B</div>',
+      '<!-- note --><img src=a.png alt="x > y"/>',
+      '<div class="unterminated\n<p>next',
+      'a < b && c > d'
+    ];
+    samples.forEach(code => expect(textOf(highlightHtml(code))).toBe(code));
+  });
+
+  it('preserves every character of CSS', () => {
+    const samples = [
+      '@media (max-width: 600px) {\n  .card:hover { margin: -4px 0; color: #fff; }\n}',
+      'h1::before { content: "</style>"; } /* open comment',
+      '.a{background:url(\'x.png\')}'
+    ];
+    samples.forEach(code => expect(textOf(highlightCss(code))).toBe(code));
+  });
+
+  it('marks tag names and CSS properties', () => {
+    expect(highlightHtml('<div>')).toContain('<span class="text-pink-600">div</span>');
+    expect(highlightCss('.a { color: red; }')).toContain('<span class="text-sky-700">color</span>');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { Artifact } from '../types';
+import {
+  expandTemplate,
+  fillTemplate,
+  findPlaceholders,
+  getDefaultTitleTemplate,
+  parseCsv,
+  parseDataset,
+  parseJsonRows
+} from '../utils/templateData';
+
+describe('findPlaceholders', () => {
+  it('lists each placeholder once in order of appearance', () => {
+    const code = '<h1>{{ name }}</h1><img src="{{photo}}"><p>{{{bio}}} {{name}} {{author.city}}</p>';
+    expect(findPlaceholders(code)).toEqual(['name', 'photo', 'bio', 'author.city']);
+  });
+
+  it('ignores single braces from CSS and scripts', () => {
+    expect(findPlaceholders('<style>.a { color: red; }</style>')).toEqual([]);
+  });
+});
+
+describe('fillTemplate', () => {
+  it('escapes values unless the placeholder uses triple braces', () => {
+    const row = { name: 'Tom & <Jerry>', bio: '<b>Cat</b>' };
+    expect(fillTemplate('<h1>{{name}}</h1>{{{bio}}}', row)).toBe('<h1>Tom &amp; &lt;Jerry&gt;</h1><b>Cat</b>');
+    expect(fillTemplate('<img alt="{{name}}">', { name: 'say "hi"' })).toBe('<img alt="say &quot;hi&quot;">');
+  });
+
+  it('leaves missing fields empty and can skip escaping for plain text', () => {
+    expect(fillTemplate('{{a}}-{{b}}', { a: 'x' })).toBe('x-');
+    expect(fillTemplate('{{name}}', { name: 'A & B' }, false)).toBe('A & B');
+  });
+
+  it('ignores placeholders that only match inherited object members', () => {
+    expect(fillTemplate('<p>{{toString}}</p>', { name: 'x' })).toBe('<p></p>');
+    expect(fillTemplate('<p>{{{constructor}}}</p>', { name: 'x' })).toBe('<p></p>');
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted fields, doubled quotes, line breaks and CRLF', () => {
+    const csv = 'name,quote,price\r\nAlice,"Hello, ""world""",10\r\nBob,"two\nlines",12\r\n';
+    expect(parseCsv(csv)).toEqual({
+      columns: ['name', 'quote', 'price'],
+      rows: [
+        { name: 'Alice', quote: 'Hello, "world"', price: '10' },
+        { name: 'Bob', quote: 'two\nlines', price: '12' }
+      ]
+    });
+  });
+
+  it('detects semicolon and tab delimiters and strips a BOM', () => {
+    expect(parseCsv('\uFEFFname;price\nAlice;10,5').rows).toEqual([{ name: 'Alice', price: '10,5' }]);
+    expect(parseCsv('name\tprice\nBob\t12').rows).toEqual([{ name: 'Bob', price: '12' }]);
+  });
+
+  it('skips blank lines and pads short rows', () => {
+    expect(parseCsv('a,b\n\n1\n').rows).toEqual([{ a: '1', b: '' }]);
+    expect(parseCsv('')).toEqual({ columns: [], rows: [] });
+  });
+});
+
+describe('parseJsonRows', () => {
+  it('flattens nested objects into dotted columns', () => {
+    const json = JSON.stringify([{ name: 'Alice', price: 10, author: { city: 'Seoul' }, tags: ['a', 'b'] }, { name: 'Bob', extra: null }]);
+    expect(parseJsonRows(json)).toEqual({
+      columns: ['name', 'price', 'author.city', 'tags', 'extra'],
+      rows: [
+        { name: 'Alice', price: '10', 'author.city': 'Seoul', tags: 'a, b' },
+        { name: 'Bob', extra: '' }
+      ]
+    });
+  });
+
+  it('accepts an object wrapping the rows and rejects anything else', () => {
+    expect(parseJsonRows('{"rows": [{"a": 1}]}').rows).toEqual([{ a: '1' }]);
+    expect(() => parseJsonRows('{"a": 1}')).toThrow(/array of objects/);
+  });
+});
+
+describe('parseDataset', () => {
+  it('chooses the parser from the file name or the content', () => {
+    expect(parseDataset('[{"a": "1"}]').rows).toEqual([{ a: '1' }]);
+    expect(parseDataset('a,b\n1,2', 'data.csv').rows).toEqual([{ a: '1', b: '2' }]);
+    expect(() => parseDataset('not json', 'data.json')).toThrow();
+  });
+});
+
+describe('expandTemplate', () => {
+  const template: Artifact = {
+    id: 'artifact-1',
+    code: '<div class="card"><h1>{{name}}</h1><p>{{price}}</p></div>',
+    title: 'Price card',
+    type: 'html',
+    sourceIndex: 0,
+    size: { width: 1080, height: 1350 }
+  };
+
+  it('creates one card per row and keeps the row for file names', () => {
+    const rows = [{ name: 'Coffee', price: '$3' }, { name: 'Tea', price: '$2' }];
+    const cards = expandTemplate(template, rows, getDefaultTitleTemplate(template.title, ['name', 'price']));
+
+    expect(cards.map(c => c.title)).toEqual(['Coffee', 'Tea']);
+    expect(cards[1].code).toBe('<div class="card"><h1>Tea</h1><p>$2</p></div>');
+    expect(cards[0].fields).toEqual(rows[0]);
+    expect(cards[0].size).toEqual(template.size);
+    expect(new Set(cards.map(c => c.id)).size).toBe(2);
+  });
+
+  it('falls back to a numbered title when the title template is empty for a row', () => {
+    const cards = expandTemplate(template, [{ name: '' }], '{{name}}');
+    expect(cards[0].title).toBe('Price card 1');
+  });
+});
+
+describe('getDefaultTitleTemplate', () => {
+  it('prefers a title-like column, then the first column', () => {
+    expect(getDefaultTitleTemplate('Card', ['price', 'Name'])).toBe('{{Name}}');
+    expect(getDefaultTitleTemplate('Card', ['sku', 'price'])).toBe('Card - {{sku}}');
+    expect(getDefaultTitleTemplate('Card', [])).toBe('Card');
+  });
+});
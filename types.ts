@@ -3,8 +3,65 @@ export interface Artifact {
   code: string;
   title: string;
   type: 'html' | 'unknown';
+  sourceIndex?: number; // Index of the input block this artifact was extracted from
+  size?: OutputSize; // Per-artifact override of the session output size
+  fields?: Record<string, string>; // Data row this card was filled from (mail-merge)
+  versions?: VersionHistory; // Variants produced by refining this card
 }
 
+export interface ArtifactVersion {
+  code: string;
+  instruction: string | null; // The refine request that produced it; null for the original or a manual edit
+  createdAt: number;
+}
+
+export interface VersionHistory {
+  entries: ArtifactVersion[]; // Oldest first
+  current: number; // Index of the entry the card's code was taken from
+}
+
+export interface OutputSize {
+  width: number;
+  height: number;
+}
+
+export interface GeneratedImage {
+  name: string;
+  dataUrl: string;
+  extension: string;
+  width: number;
+  height: number;
+  readiness?: ReadinessReport;
+}
+
+export type ImageFormat = 'jpg' | 'png' | 'webp';
+
+// gif: encoded in the browser; webm: recorded with MediaRecorder (falls back to MP4 where WebM is unsupported)
+export type AnimationFormat = 'gif' | 'webm';
+
+export interface ExportSettings {
+  format: ImageFormat;
+  quality: number; // 0-1, ignored for PNG
+  scale: number; // Device pixel ratio, 1-4
+  background: 'transparent' | 'fill';
+  backgroundColor: string; // Used when background is 'fill' (and always for JPG)
+  fileNameTemplate: string; // Applies to every download, e.g. "{index}_{title}"
+  animationFormat: AnimationFormat;
+  animationFps: number;
+  animationDuration: number; // ms of the animation timeline to capture
+}
+
+// auto: wrapper/class heuristics; never: one card per block; selector: one card per match; marker: split at <!-- page-break -->
+export type SplitMode = 'auto' | 'never' | 'selector' | 'marker';
+
+export interface SplitOptions {
+  mode: SplitMode;
+  selector: string; // Used when mode is 'selector', e.g. ".slides > .slide"
+}
+
+// How the input textarea is interpreted: raw HTML/markdown, a Gemini prompt, or detected automatically
+export type InputMode = 'auto' | 'html' | 'prompt';
+
 export interface ProcessingState {
   status: 'idle' | 'analyzing' | 'generating' | 'rendering' | 'complete' | 'error';
   message?: string;
@@ -13,4 +70,128 @@ export interface ProcessingState {
 export interface ParsedHtml {
   styles: string;
   bodyContent: string;
+  stylesheets: string[]; // Linked/imported stylesheet URLs still to be fetched and scoped
+}
+
+// off: scripts are stripped; sandboxed: scripts run in an opaque-origin iframe; trusted: scripts run same-origin
+export type ScriptPolicy = 'off' | 'sandboxed' | 'trusted';
+
+// all: wait until every tracked resource settles; timeout: always wait readyTimeout; hook: wait for window.__cardReady()
+export type ReadyMode = 'all' | 'timeout' | 'hook';
+
+export interface RenderSettings {
+  scriptPolicy: ScriptPolicy;
+  readyMode: ReadyMode;
+  readyTimeout: number; // ms before capturing anyway
+}
+
+// What the capture frame knew about its resources at the moment it was captured
+export interface ReadinessReport {
+  timedOut: boolean;
+  failed: string[];
+  pending: string[];
+}
+
+export type LintRule = 'contrast' | 'font-size' | 'overflow' | 'clipped' | 'alt-text' | 'safe-zone';
+
+// A readability or accessibility problem found in a rendered card
+export interface LintIssue {
+  rule: LintRule;
+  severity: 'error' | 'warning';
+  target: string; // Text snippet or image src; empty for whole-card issues
+  value?: number; // Measured contrast ratio, font size or overflow in px
+  required?: number; // The threshold it missed
+  zone?: SafeZoneRegionId; // The covered region a key element falls into
+}
+
+export type SafeZonePresetId = 'generic' | 'instagram-feed' | 'instagram-story' | 'tiktok' | 'youtube-thumbnail';
+
+// margin: generic padding; *-crop: cut off when the platform crops the image; the rest: covered by app UI
+export type SafeZoneRegionId = 'margin' | 'feed-crop' | 'grid-crop' | 'top-bar' | 'caption' | 'actions' | 'timestamp';
+
+// Which platform's UI and crops the cards are previewed and checked against
+export interface SafeZoneSettings {
+  preset: SafeZonePresetId;
+  showOverlay: boolean; // On the card previews; the viewer has its own toggle
+  check: boolean; // Warn when headings or [data-key] elements fall inside a covered region
+}
+
+export type WatermarkPosition = 'none' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface BrandColor {
+  name: string; // Exposed as --brand-<name>
+  value: string;
+}
+
+// Fonts, colours and logo applied on top of every card, and described to the model when generating
+export interface BrandKit {
+  enabled: boolean;
+  headingFont: string; // Empty keeps the card's own fonts
+  bodyFont: string;
+  fontStylesheet: string; // Optional URL, e.g. a Google Fonts css2 link
+  colors: BrandColor[];
+  logo: string | null; // Data URL
+  logoPosition: WatermarkPosition;
+  logoWidth: number; // Output pixels
+  logoOpacity: number; // 0-1
+}
+
+export type LlmProviderId = 'gemini' | 'openai' | 'anthropic' | 'ollama';
+
+export interface ProviderConfig {
+  model: string;
+  apiKey: string; // Stored in this browser only; never part of the build
+  baseUrl: string; // Empty uses the provider's public endpoint
+}
+
+// Which model generates cards from a prompt; each provider keeps its own key and endpoint
+export interface LlmSettings {
+  provider: LlmProviderId;
+  temperature: number;
+  providers: Record<LlmProviderId, ProviderConfig>;
+}
+
+// A reusable style guide for prompts; {slides}, {width}, {height}, {aspect}, {language} and {tone} are filled in
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string;
+  instruction: string;
+  builtIn: boolean; // Shipped with the app; edits are saved as an override and can be reset
+}
+
+export interface PromptVariables {
+  slides: number;
+  language: string; // Empty: write in the language of the request
+  tone: string;
+}
+
+// The template picked in the input panel; the aspect ratio comes from the session output size
+export interface PromptSelection {
+  templateId: string | null;
+  variables: PromptVariables;
+}
+
+// Everything needed to restore the workspace, saved locally after each change
+export interface SessionSettings {
+  lang: 'en' | 'ko';
+  useNumbering: boolean;
+  includeHtmlInZip: boolean;
+  selfContainedHtml: boolean;
+  sessionSize: OutputSize;
+  exportSettings: ExportSettings;
+  renderSettings: RenderSettings;
+}
+
+export interface Session {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  input: string; // Text as typed/pasted in the input panel
+  inputMode: InputMode;
+  source: string | null; // Markup the artifacts were extracted from (the Gemini reply for prompts)
+  artifacts: Artifact[];
+  settings: SessionSettings;
+  thumbnail?: string; // Small JPEG data URL of the first card
 }
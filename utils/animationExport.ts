@@ -0,0 +1,140 @@
+import { ExportSettings, OutputSize, ReadinessReport, RenderSettings } from "../types";
+import { captureAnimationInFrame } from "./cardFrame";
+import { createGifEncoder, GifEncoder } from "./gifEncoder";
+
+export interface AnimationProgress {
+  stage: 'capturing' | 'encoding';
+  frame: number;
+  total: number;
+}
+
+export interface AnimationExport {
+  blob: Blob;
+  extension: string;
+  width: number;
+  height: number;
+  frameCount: number;
+  readiness: ReadinessReport;
+}
+
+const VIDEO_MIME_TYPES = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+  'video/mp4'
+];
+
+// Animated exports are always rendered at 1×: GIF encoding and video recording scale badly with pixel count
+const ANIMATION_SCALE = 1;
+
+// Cheap check used to decide whether a card gets the animation export action
+export const hasCssAnimation = (code: string): boolean =>
+  /@keyframes\b|animation(?:-name)?\s*:/i.test(code);
+
+export const getFrameCount = (settings: Pick<ExportSettings, 'animationFps' | 'animationDuration'>): number =>
+  Math.max(1, Math.round((settings.animationDuration / 1000) * settings.animationFps));
+
+// GIF delays are whole hundredths of a second; spread the rounding so the total duration stays exact
+export const getGifDelays = (frameCount: number, fps: number): number[] =>
+  Array.from({ length: frameCount }, (_, i) => Math.round(((i + 1) * 100) / fps) - Math.round((i * 100) / fps));
+
+export const getVideoMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined' || !HTMLCanvasElement.prototype.captureStream) return null;
+  return VIDEO_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || null;
+};
+
+const imageDataToBlob = (frame: ImageData): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  canvas.getContext('2d')!.putImageData(frame, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode frame")), 'image/jpeg', 0.95);
+  });
+};
+
+// MediaRecorder records in real time, so frames are replayed onto a canvas at the target rate
+const recordVideo = async (
+  frames: Blob[],
+  size: OutputSize,
+  fps: number,
+  mimeType: string,
+  onProgress?: (progress: AnimationProgress) => void
+): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d')!;
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const frameMs = 1000 / fps;
+  recorder.start();
+  const start = performance.now();
+  for (let i = 0; i < frames.length; i++) {
+    const bitmap = await createImageBitmap(frames[i]);
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    track.requestFrame();
+    onProgress?.({ stage: 'encoding', frame: i + 1, total: frames.length });
+    const wait = start + (i + 1) * frameMs - performance.now();
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+  }
+  recorder.stop();
+  await stopped;
+  track.stop();
+
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
+
+// Capture the card's animation timeline frame by frame and encode it as a GIF or video
+export const exportAnimation = async (
+  html: string,
+  size: OutputSize,
+  renderSettings: RenderSettings,
+  settings: ExportSettings,
+  onProgress?: (progress: AnimationProgress) => void
+): Promise<AnimationExport> => {
+  const total = getFrameCount(settings);
+  const isGif = settings.animationFormat === 'gif';
+  const mimeType = isGif ? 'image/gif' : getVideoMimeType();
+  if (!mimeType) {
+    throw new Error("Video recording is not supported in this browser.");
+  }
+
+  // GIF has 1-bit transparency; video frames are always filled
+  const transparent = isGif && settings.background === 'transparent';
+  const delays = getGifDelays(total, settings.animationFps);
+  // The encoder is created with the first frame, once the rendered dimensions are known
+  const encoder: { gif: GifEncoder | null } = { gif: null };
+  const videoFrames: Blob[] = [];
+
+  const capture = await captureAnimationInFrame(html, size, renderSettings, {
+    scale: ANIMATION_SCALE,
+    backgroundColor: transparent ? null : settings.backgroundColor,
+    fps: settings.animationFps,
+    frameCount: total
+  }, async (frame, index) => {
+    onProgress?.({ stage: 'capturing', frame: index + 1, total });
+    if (isGif) {
+      encoder.gif = encoder.gif || createGifEncoder(frame.width, frame.height, { transparent });
+      encoder.gif.addFrame(frame.data, delays[index]);
+    } else {
+      videoFrames.push(await imageDataToBlob(frame));
+    }
+  });
+
+  const { width, height, frameCount, readiness } = capture;
+  if (isGif) {
+    onProgress?.({ stage: 'encoding', frame: frameCount, total: frameCount });
+    if (!encoder.gif) throw new Error("No frames were captured.");
+    return { blob: new Blob([encoder.gif.finish()], { type: 'image/gif' }), extension: 'gif', width, height, frameCount, readiness };
+  }
+
+  const blob = await recordVideo(videoFrames, { width, height }, settings.animationFps, mimeType, onProgress);
+  return { blob, extension: mimeType.startsWith('video/mp4') ? 'mp4' : 'webm', width, height, frameCount, readiness };
+};
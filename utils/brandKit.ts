@@ -0,0 +1,114 @@
+import { BrandKit, WatermarkPosition } from "../types";
+
+export const DEFAULT_BRAND_KIT: BrandKit = {
+  enabled: false,
+  headingFont: '',
+  bodyFont: '',
+  fontStylesheet: '',
+  colors: [
+    { name: 'primary', value: '#4f46e5' },
+    { name: 'secondary', value: '#0ea5e9' },
+    { name: 'accent', value: '#f59e0b' },
+    { name: 'background', value: '#ffffff' },
+    { name: 'text', value: '#111827' }
+  ],
+  logo: null,
+  logoPosition: 'bottom-right',
+  logoWidth: 160,
+  logoOpacity: 1
+};
+
+export const WATERMARK_POSITIONS: WatermarkPosition[] = ['none', 'top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+export const MIN_LOGO_WIDTH = 40;
+export const MAX_LOGO_WIDTH = 480;
+const LOGO_MARGIN = 48;
+
+// Icon fonts must keep their own family or every glyph turns into a letter
+const ICON_SELECTOR = '[class*="fa-"], [class*="material-"], [class*="icon"], i';
+
+const cssString = (value: string) => `'${value.replace(/['\\]/g, '')}'`;
+
+export const getColorVariable = (name: string) => `--brand-${name.trim().toLowerCase().replace(/[^a-z0-9-]+/g, '-')}`;
+
+// Nothing to inject when the kit is off or empty
+export const isBrandKitActive = (kit: BrandKit | null | undefined): kit is BrandKit => {
+  return !!kit && kit.enabled && (
+    !!kit.headingFont.trim() || !!kit.bodyFont.trim() || kit.colors.length > 0 || (!!kit.logo && kit.logoPosition !== 'none')
+  );
+};
+
+export const getBrandCss = (kit: BrandKit): string => {
+  const variables = kit.colors
+    .filter(c => c.name.trim())
+    .map(c => `  ${getColorVariable(c.name)}: ${c.value};`);
+  if (kit.headingFont.trim()) variables.push(`  --brand-font-heading: ${cssString(kit.headingFont.trim())}, sans-serif;`);
+  if (kit.bodyFont.trim()) variables.push(`  --brand-font-body: ${cssString(kit.bodyFont.trim())}, sans-serif;`);
+
+  const rules = [`:root {\n${variables.join('\n')}\n}`];
+  if (kit.bodyFont.trim()) {
+    rules.push(`body, body *:not(${ICON_SELECTOR}) { font-family: var(--brand-font-body) !important; }`);
+  }
+  if (kit.headingFont.trim()) {
+    rules.push(`h1, h2, h3, h4, h5, h6, h1 *:not(${ICON_SELECTOR}), h2 *:not(${ICON_SELECTOR}), h3 *:not(${ICON_SELECTOR}) { font-family: var(--brand-font-heading) !important; }`);
+  }
+  return rules.join('\n');
+};
+
+export const getLogoMarkup = (kit: BrandKit): string => {
+  if (!kit.logo || kit.logoPosition === 'none') return '';
+  const [vertical, horizontal] = kit.logoPosition.split('-');
+  const style = [
+    'position:absolute',
+    `${vertical}:${LOGO_MARGIN}px`,
+    `${horizontal}:${LOGO_MARGIN}px`,
+    `width:${kit.logoWidth}px`,
+    'height:auto',
+    `opacity:${kit.logoOpacity}`,
+    'z-index:2147483647',
+    'pointer-events:none'
+  ].join(';');
+  return `<img data-brand-logo alt="" src="${kit.logo.replace(/"/g, '&quot;')}" style="${style}">`;
+};
+
+// Add the kit to a card: font stylesheet and variables at the end of <head> (so they win over the
+// card's own rules), the logo at the end of <body>. Snippets without a head or body get them around them.
+export const applyBrandKit = (html: string, kit: BrandKit | null | undefined): string => {
+  if (!isBrandKitActive(kit)) return html;
+
+  const stylesheet = kit.fontStylesheet.trim()
+    ? `<link rel="stylesheet" href="${kit.fontStylesheet.trim().replace(/"/g, '&quot;')}">\n`
+    : '';
+  const head = `${stylesheet}<style data-brand-kit>\n${getBrandCss(kit)}\n</style>`;
+  const logo = getLogoMarkup(kit);
+  // The logo is placed against the card's viewport, so the body has to be its containing block
+  const body = logo ? `<style data-brand-kit>body { position: relative; min-height: 100%; }</style>\n${logo}` : '';
+
+  let result = /<\/head>/i.test(html)
+    ? html.replace(/<\/head>/i, `${head}\n</head>`)
+    : `${head}\n${html}`;
+  if (body) {
+    result = /<\/body>/i.test(result)
+      ? result.replace(/<\/body>(?![\s\S]*<\/body>)/i, `${body}\n</body>`)
+      : `${result}\n${body}`;
+  }
+  return result;
+};
+
+// Appended to the model's system instruction so generated cards use the kit from the start
+export const getBrandInstruction = (kit: BrandKit | null | undefined): string => {
+  if (!isBrandKitActive(kit)) return '';
+
+  const lines = ['Brand kit (follow it strictly):'];
+  if (kit.headingFont.trim()) lines.push(`- Headings use the font "${kit.headingFont.trim()}" via font-family: var(--brand-font-heading).`);
+  if (kit.bodyFont.trim()) lines.push(`- Body text uses the font "${kit.bodyFont.trim()}" via font-family: var(--brand-font-body).`);
+  const colors = kit.colors.filter(c => c.name.trim());
+  if (colors.length > 0) {
+    lines.push('- Use only these brand colours, through their CSS variables with the value as fallback:');
+    colors.forEach(c => lines.push(`  ${c.name}: var(${getColorVariable(c.name)}, ${c.value})`));
+  }
+  if (kit.logo && kit.logoPosition !== 'none') {
+    lines.push(`- A ${kit.logoWidth}px wide logo is overlaid in the ${kit.logoPosition.replace('-', ' ')} corner; keep that area free of text.`);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,630 @@
+import { OutputSize, ReadinessReport, ReadyMode, RenderSettings } from "../types";
+import { getSandboxAttribute } from "./renderSettings";
+
+const HTML2CANVAS_URL = 'https://cdnjs.cloudflare.com/ajax/libs/html2canvas/1.4.1/html2canvas.min.js';
+
+interface FrameRuntimeConfig {
+  width: number;
+  height: number;
+  readyMode: ReadyMode;
+  readyTimeout: number;
+}
+
+export interface FrameCaptureOptions {
+  scale: number;
+  backgroundColor: string | null; // null keeps transparency
+  mimeType: string;
+  quality?: number;
+}
+
+export interface FrameAnimationOptions {
+  scale: number;
+  backgroundColor: string | null;
+  fps: number;
+  frameCount: number;
+}
+
+export interface FrameAnimationResult {
+  width: number;
+  height: number;
+  frameCount: number;
+  readiness: ReadinessReport;
+}
+
+// One element with its own text, as laid out in the frame
+export interface FrameTextSample {
+  text: string; // First few words, to identify it
+  color: string; // Computed color
+  backgrounds: string[]; // Background colours from the element outwards; 'image' where a background image hides what's behind
+  opacity: number; // Product of the element's and its ancestors' opacity
+  fontSize: number; // px
+  fontWeight: number;
+  clipped: boolean; // Partly outside the card or outside an ancestor that hides overflow
+}
+
+// A heading or [data-key] element; the box hugs its text where it has any, so full-width blocks aren't over-reported
+export interface FrameKeyElement {
+  text: string;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface FrameLintResult {
+  texts: FrameTextSample[];
+  keyElements: FrameKeyElement[];
+  imagesWithoutAlt: string[]; // src of <img> elements with no alt attribute at all
+  contentWidth: number; // Scroll size of the body; larger than the card means content is cut off
+  contentHeight: number;
+  readiness: ReadinessReport;
+}
+
+export interface FrameCaptureResult {
+  dataUrl: string;
+  width: number;
+  height: number;
+  readiness: ReadinessReport;
+}
+
+// Runs INSIDE the card iframe, so it must stay self-contained (it is serialized with toString()).
+// It pins the viewport to the output size, tracks when the card's resources have settled,
+// exposes window.__cardReady() and answers capture requests over postMessage, which is the
+// only channel available when the frame has an opaque origin.
+function cardFrameRuntime(config: FrameRuntimeConfig) {
+  const w = window as any; // html2canvas global and the __cardReady hook
+
+  let markReady: () => void = () => {};
+  const hookReady = new Promise<void>(resolve => { markReady = resolve; });
+  w.__cardReady = () => markReady();
+
+  const loaded = new Promise<void>(resolve => {
+    if (document.readyState === 'complete') resolve();
+    else window.addEventListener('load', () => resolve());
+  });
+
+  // Lay the card out in a fixed viewport and clip overflow, exactly like the preview frame
+  const applyViewport = () => {
+    [document.documentElement, document.body].forEach(el => {
+      if (!el) return;
+      el.style.margin = '0';
+      el.style.padding = '0';
+      el.style.width = `${config.width}px`;
+      el.style.height = `${config.height}px`;
+      el.style.overflow = 'hidden';
+    });
+  };
+  document.addEventListener('DOMContentLoaded', applyViewport);
+
+  // --- Resource tracking ---
+  const resources = new Map<string, 'pending' | 'loaded' | 'failed'>();
+  const watch = (label: string, task: Promise<boolean>) => {
+    if (resources.has(label)) return Promise.resolve();
+    resources.set(label, 'pending');
+    return task
+      .then(ok => { resources.set(label, ok ? 'loaded' : 'failed'); })
+      .catch(() => { resources.set(label, 'failed'); });
+  };
+
+  const loadImage = (src: string) => new Promise<boolean>(resolve => {
+    const img = new Image();
+    img.onload = () => resolve(true);
+    img.onerror = () => resolve(false);
+    img.src = src;
+  });
+
+  const trackImages = () => Array.from(document.images).map(img => {
+    const src = img.currentSrc || img.src;
+    if (!src) return Promise.resolve();
+    if (img.complete) return watch(src, Promise.resolve(img.naturalWidth > 0));
+    return watch(src, new Promise<boolean>(resolve => {
+      img.addEventListener('load', () => resolve(true), { once: true });
+      img.addEventListener('error', () => resolve(false), { once: true });
+    }));
+  });
+
+  // CSS backgrounds are not part of document.images, so re-request them to learn whether they load
+  const trackBackgrounds = () => {
+    const urls = new Set<string>();
+    document.querySelectorAll('*').forEach(el => {
+      [null, '::before', '::after'].forEach(pseudo => {
+        const bg = getComputedStyle(el, pseudo).backgroundImage;
+        if (!bg || bg === 'none') return;
+        for (const m of bg.matchAll(/url\(["']?(.*?)["']?\)/g)) {
+          if (!m[1].startsWith('data:')) urls.add(m[1]);
+        }
+      });
+    });
+    return Array.from(urls).map(url => watch(url, loadImage(url)));
+  };
+
+  const trackFonts = () => {
+    if (!document.fonts) return [];
+    return [document.fonts.ready.then(() => {
+      document.fonts.forEach(face => {
+        if (face.status === 'error') resources.set(`font: ${face.family}`, 'failed');
+      });
+    })];
+  };
+
+  // Infinite animations never finish; only wait for the ones that will
+  const trackAnimations = () => {
+    if (!document.getAnimations) return [];
+    return document.getAnimations()
+      .filter(anim => {
+        const timing = anim.effect && anim.effect.getComputedTiming ? anim.effect.getComputedTiming() : null;
+        return timing !== null && Number.isFinite(timing.endTime);
+      })
+      .map((anim, i) => watch(`animation: ${(anim as CSSAnimation).animationName || anim.id || i + 1}`, anim.finished.then(() => true)));
+  };
+
+  const resourcesSettled = loaded.then(() => Promise.all([
+    ...trackImages(),
+    ...trackBackgrounds(),
+    ...trackFonts()
+  ]));
+  const allSettled = loaded.then(() => Promise.all([resourcesSettled, ...trackAnimations()]));
+
+  // Animation exports seek the timeline themselves, so they only wait for resources
+  const waitForReady = async (includeAnimations = true) => {
+    let timedOut = false;
+    const timeout = new Promise<void>(resolve => setTimeout(() => { timedOut = true; resolve(); }, config.readyTimeout));
+
+    if (config.readyMode === 'timeout') {
+      await timeout;
+      timedOut = false; // Waiting the full time is the point of this mode
+    } else {
+      const settled = includeAnimations ? allSettled : resourcesSettled;
+      await Promise.race([config.readyMode === 'hook' ? hookReady : settled, timeout]);
+    }
+
+    // Let layout and paint catch up with the last loaded resource
+    await new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+
+    const failed: string[] = [];
+    const pending: string[] = [];
+    resources.forEach((state, label) => {
+      if (state === 'failed') failed.push(label);
+      if (state === 'pending' && (includeAnimations || !label.startsWith('animation: '))) pending.push(label);
+    });
+    return { timedOut, failed, pending };
+  };
+
+  const render = (options: { scale: number, backgroundColor: string | null }, onclone?: (clone: Document) => void): Promise<HTMLCanvasElement> => {
+    if (!w.html2canvas) throw new Error('html2canvas failed to load');
+    return w.html2canvas(document.body, {
+      scale: options.scale,
+      useCORS: true,
+      allowTaint: true,
+      backgroundColor: options.backgroundColor,
+      x: 0,
+      y: 0,
+      width: config.width,
+      height: config.height,
+      windowWidth: config.width,
+      windowHeight: config.height,
+      logging: false,
+      imageTimeout: config.readyTimeout,
+      removeContainer: true,
+      onclone
+    });
+  };
+
+  // --- Animation timeline ---
+  const FREEZE_ATTR = 'data-card-frame-freeze';
+  const KEYFRAME_META = ['offset', 'computedOffset', 'easing', 'composite'];
+
+  // Pause every animation at the same point. html2canvas renders a clone of the document in which
+  // CSS animations would restart from zero, so the seeked values are copied onto the clone inline.
+  const seekAnimations = (time: number) => {
+    const animations: Animation[] = document.getAnimations ? document.getAnimations() : [];
+    animations.forEach(anim => {
+      anim.pause();
+      anim.currentTime = time;
+    });
+
+    const frozen: Array<Array<[string, string]>> = [];
+    const targets = new Map<Element, Set<string>>();
+    animations.forEach(anim => {
+      const effect = anim.effect as KeyframeEffect | null;
+      if (!effect || !effect.target || effect.pseudoElement || !effect.getKeyframes) return;
+      const props = targets.get(effect.target) || new Set<string>();
+      effect.getKeyframes().forEach(frame => {
+        Object.keys(frame).forEach(key => {
+          if (KEYFRAME_META.includes(key)) return;
+          props.add(key.startsWith('--') ? key : key === 'cssFloat' ? 'float' : key.replace(/[A-Z]/g, m => `-${m.toLowerCase()}`));
+        });
+      });
+      targets.set(effect.target, props);
+    });
+    targets.forEach((props, el) => {
+      const computed = getComputedStyle(el);
+      el.setAttribute(FREEZE_ATTR, String(frozen.length));
+      frozen.push(Array.from(props).map(prop => [prop, computed.getPropertyValue(prop)]));
+    });
+
+    const onclone = (clone: Document) => {
+      frozen.forEach((values, i) => {
+        const el = clone.querySelector(`[${FREEZE_ATTR}="${i}"]`) as HTMLElement | null;
+        if (!el) return;
+        el.style.setProperty('animation', 'none', 'important');
+        el.style.setProperty('transition', 'none', 'important');
+        values.forEach(([prop, value]) => el.style.setProperty(prop, value, 'important'));
+      });
+    };
+    const release = () => targets.forEach((_, el) => el.removeAttribute(FREEZE_ATTR));
+    return { onclone, release };
+  };
+
+  let acknowledge: (() => void) | null = null;
+
+  const captureAnimation = async (id: string, options: FrameAnimationOptions) => {
+    const readiness = await waitForReady(false);
+    applyViewport();
+
+    for (let i = 0; i < options.frameCount; i++) {
+      const frame = seekAnimations((i * 1000) / options.fps);
+      let canvas: HTMLCanvasElement;
+      try {
+        canvas = await render(options, frame.onclone);
+      } finally {
+        frame.release();
+      }
+      const image = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+
+      // Wait for the parent to consume each frame so only one is in flight at a time
+      const consumed = new Promise<void>(resolve => { acknowledge = resolve; });
+      window.parent.postMessage({ type: 'card-animation-frame', id, index: i, frame: image }, '*', [image.data.buffer]);
+      await consumed;
+    }
+    return readiness;
+  };
+
+  // --- Readability measurements (judged outside the frame) ---
+  const MAX_TEXT_SAMPLES = 300;
+
+  const collectLint = () => {
+    const viewport = { left: 0, top: 0, right: config.width, bottom: config.height };
+    const outside = (r: { left: number, top: number, right: number, bottom: number }, box: { left: number, top: number, right: number, bottom: number }) =>
+      r.left < box.left - 1 || r.top < box.top - 1 || r.right > box.right + 1 || r.bottom > box.bottom + 1;
+
+    const texts: FrameTextSample[] = [];
+    const elements = Array.from(document.body.querySelectorAll('*')) as HTMLElement[];
+    for (const el of elements) {
+      if (texts.length >= MAX_TEXT_SAMPLES) break;
+      if (/^(SCRIPT|STYLE|NOSCRIPT|TEMPLATE)$/.test(el.tagName) || el.closest('svg')) continue;
+      const ownText = Array.from(el.childNodes)
+        .filter(n => n.nodeType === Node.TEXT_NODE)
+        .map(n => n.textContent || '')
+        .join(' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+      if (!ownText) continue;
+
+      const style = getComputedStyle(el);
+      const rect = el.getBoundingClientRect();
+      if (style.display === 'none' || style.visibility === 'hidden' || rect.width === 0 || rect.height === 0) continue;
+
+      const backgrounds: string[] = [];
+      let opacity = 1;
+      let clipped = outside(rect, viewport);
+      for (let node: HTMLElement | null = el; node; node = node.parentElement) {
+        const s = getComputedStyle(node);
+        opacity *= Number(s.opacity);
+        if (s.backgroundImage && s.backgroundImage !== 'none') backgrounds.push('image');
+        backgrounds.push(s.backgroundColor);
+        if (node !== el && !clipped && (s.overflowX !== 'visible' || s.overflowY !== 'visible') && node !== document.body && node !== document.documentElement) {
+          clipped = outside(rect, node.getBoundingClientRect());
+        }
+      }
+      if (opacity === 0) continue;
+
+      texts.push({
+        text: ownText.length > 40 ? `${ownText.slice(0, 40)}…` : ownText,
+        color: style.color,
+        backgrounds,
+        opacity,
+        fontSize: parseFloat(style.fontSize),
+        fontWeight: Number(style.fontWeight) || 400,
+        clipped
+      });
+    }
+
+    const imagesWithoutAlt = Array.from(document.images)
+      .filter(img => !img.hasAttribute('alt') && !img.hasAttribute('data-brand-logo'))
+      .map(img => img.getAttribute('src') || '');
+
+    const keyElements = (Array.from(document.body.querySelectorAll('h1, h2, h3, h4, h5, h6, [data-key]')) as HTMLElement[])
+      .filter(el => !el.hasAttribute('data-brand-logo'))
+      .map(el => {
+        const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
+        const range = document.createRange();
+        range.selectNodeContents(el);
+        const rect = text ? range.getBoundingClientRect() : el.getBoundingClientRect();
+        return {
+          text: text ? (text.length > 40 ? `${text.slice(0, 40)}…` : text) : `<${el.tagName.toLowerCase()}>`,
+          left: rect.left,
+          top: rect.top,
+          right: rect.right,
+          bottom: rect.bottom
+        };
+      })
+      .filter(box => box.right > box.left && box.bottom > box.top);
+
+    return { texts, keyElements, imagesWithoutAlt, contentWidth: document.body.scrollWidth, contentHeight: document.body.scrollHeight };
+  };
+
+  window.addEventListener('message', async (event) => {
+    const msg = event.data;
+    if (!msg) return;
+
+    if (msg.type === 'card-lint') {
+      try {
+        const readiness = await waitForReady();
+        applyViewport();
+        window.parent.postMessage({ type: 'card-lint-result', id: msg.id, ...collectLint(), readiness }, '*');
+      } catch (err) {
+        window.parent.postMessage({ type: 'card-lint-result', id: msg.id, error: String(err) }, '*');
+      }
+      return;
+    }
+
+    if (msg.type === 'card-animation-ack') {
+      const resolve = acknowledge;
+      acknowledge = null;
+      if (resolve) resolve();
+      return;
+    }
+
+    if (msg.type === 'card-animate') {
+      try {
+        const readiness = await captureAnimation(msg.id, msg.options);
+        window.parent.postMessage({ type: 'card-animation-done', id: msg.id, readiness }, '*');
+      } catch (err) {
+        window.parent.postMessage({ type: 'card-animation-done', id: msg.id, error: String(err) }, '*');
+      }
+      return;
+    }
+
+    // Headless renderers (the CLI) take their own screenshot once the card has settled
+    if (msg.type === 'card-ready') {
+      const readiness = await waitForReady();
+      applyViewport();
+      window.parent.postMessage({ type: 'card-ready-result', id: msg.id, readiness }, '*');
+      return;
+    }
+
+    if (msg.type !== 'card-capture') return;
+
+    try {
+      const readiness = await waitForReady();
+      applyViewport();
+      const canvas = await render(msg.options);
+
+      const dataUrl = msg.options.quality === undefined
+        ? canvas.toDataURL(msg.options.mimeType)
+        : canvas.toDataURL(msg.options.mimeType, msg.options.quality);
+
+      window.parent.postMessage({ type: 'card-capture-result', id: msg.id, dataUrl, width: canvas.width, height: canvas.height, readiness }, '*');
+    } catch (err) {
+      window.parent.postMessage({ type: 'card-capture-result', id: msg.id, error: String(err) }, '*');
+    }
+  });
+}
+
+// Remove everything that could execute: <script>, inline on* handlers and javascript: URLs
+export const stripScripts = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script').forEach(el => el.remove());
+  doc.querySelectorAll('*').forEach(el => {
+    Array.from(el.attributes).forEach(attr => {
+      if (/^on/i.test(attr.name) || /^\s*javascript:/i.test(attr.value)) {
+        el.removeAttribute(attr.name);
+      }
+    });
+  });
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+};
+
+// Build the srcdoc for a preview/capture frame: the card HTML plus our runtime injected first in <head>
+export const buildFrameDocument = (html: string, size: OutputSize, settings: RenderSettings): string => {
+  const source = settings.scriptPolicy === 'off' ? stripScripts(html) : html;
+  const config: FrameRuntimeConfig = {
+    width: size.width,
+    height: size.height,
+    readyMode: settings.readyMode,
+    readyTimeout: settings.readyTimeout
+  };
+
+  const runtime = `<script>(${cardFrameRuntime.toString()})(${JSON.stringify(config)});</script>\n<script src="${HTML2CANVAS_URL}"></script>`;
+
+  if (/<head[^>]*>/i.test(source)) {
+    return source.replace(/<head[^>]*>/i, (m) => `${m}\n${runtime}`);
+  }
+  if (/<html[^>]*>/i.test(source)) {
+    return source.replace(/<html[^>]*>/i, (m) => `${m}\n<head>${runtime}</head>`);
+  }
+  return `${runtime}\n${source}`;
+};
+
+let captureCounter = 0;
+
+// Off-screen (but painted) frame at the exact output size
+const createCaptureFrame = (size: OutputSize, settings: RenderSettings, backgroundColor: string | null) => {
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('sandbox', getSandboxAttribute(settings.scriptPolicy));
+  Object.assign(iframe.style, {
+    position: 'fixed',
+    left: '0',
+    top: '0',
+    zIndex: '-9999',
+    visibility: 'visible',
+    border: 'none',
+    backgroundColor: backgroundColor || 'transparent',
+    width: `${size.width}px`,
+    height: `${size.height}px`
+  });
+  return iframe;
+};
+
+// Render the card in a hidden sandboxed iframe and ask its runtime for an encoded image
+export const captureInFrame = (
+  html: string,
+  size: OutputSize,
+  settings: RenderSettings,
+  options: FrameCaptureOptions
+): Promise<FrameCaptureResult> => {
+  return new Promise((resolve, reject) => {
+    const id = `capture-${Date.now()}-${captureCounter++}`;
+    const iframe = createCaptureFrame(size, settings, options.backgroundColor);
+
+    const cleanup = () => {
+      window.removeEventListener('message', onMessage);
+      clearTimeout(timer);
+      if (document.body.contains(iframe)) document.body.removeChild(iframe);
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow) return;
+      const msg = event.data;
+      if (!msg || msg.type !== 'card-capture-result' || msg.id !== id) return;
+      cleanup();
+      if (msg.error) reject(new Error(msg.error));
+      else resolve({ dataUrl: msg.dataUrl, width: msg.width, height: msg.height, readiness: msg.readiness });
+    };
+
+    // Ready timeout plus generous headroom for html2canvas itself
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error("Capture timed out"));
+    }, settings.readyTimeout + 20000);
+
+    window.addEventListener('message', onMessage);
+    iframe.onload = () => {
+      iframe.contentWindow?.postMessage({ type: 'card-capture', id, options }, '*');
+    };
+    iframe.srcdoc = buildFrameDocument(html, size, settings);
+    document.body.appendChild(iframe);
+  });
+};
+
+// Step the card's animation timeline and hand each rendered frame to onFrame, one at a time
+export const captureAnimationInFrame = (
+  html: string,
+  size: OutputSize,
+  settings: RenderSettings,
+  options: FrameAnimationOptions,
+  onFrame: (frame: ImageData, index: number) => void | Promise<void>
+): Promise<FrameAnimationResult> => {
+  return new Promise((resolve, reject) => {
+    const id = `animation-${Date.now()}-${captureCounter++}`;
+    const iframe = createCaptureFrame(size, settings, options.backgroundColor);
+    let width = 0;
+    let height = 0;
+    let frameCount = 0;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const cleanup = () => {
+      window.removeEventListener('message', onMessage);
+      clearTimeout(timer);
+      if (document.body.contains(iframe)) document.body.removeChild(iframe);
+    };
+
+    // The deadline restarts with every frame, since long animations legitimately take a while
+    const armTimer = (ms: number) => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        cleanup();
+        reject(new Error("Capture timed out"));
+      }, ms);
+    };
+
+    const onMessage = async (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow) return;
+      const msg = event.data;
+      if (!msg || msg.id !== id) return;
+
+      if (msg.type === 'card-animation-frame') {
+        armTimer(20000);
+        try {
+          await onFrame(msg.frame, msg.index);
+        } catch (err) {
+          cleanup();
+          reject(err);
+          return;
+        }
+        width = msg.frame.width;
+        height = msg.frame.height;
+        frameCount++;
+        iframe.contentWindow?.postMessage({ type: 'card-animation-ack', id }, '*');
+      } else if (msg.type === 'card-animation-done') {
+        cleanup();
+        if (msg.error) reject(new Error(msg.error));
+        else resolve({ width, height, frameCount, readiness: msg.readiness });
+      }
+    };
+
+    armTimer(settings.readyTimeout + 20000);
+    window.addEventListener('message', onMessage);
+    iframe.onload = () => {
+      iframe.contentWindow?.postMessage({ type: 'card-animate', id, options }, '*');
+    };
+    iframe.srcdoc = buildFrameDocument(html, size, settings);
+    document.body.appendChild(iframe);
+  });
+};
+
+// Lay the card out in a hidden frame and measure what the readability checks need
+export const lintInFrame = (html: string, size: OutputSize, settings: RenderSettings): Promise<FrameLintResult> => {
+  return new Promise((resolve, reject) => {
+    const id = `lint-${Date.now()}-${captureCounter++}`;
+    const iframe = createCaptureFrame(size, settings, null);
+
+    const cleanup = () => {
+      window.removeEventListener('message', onMessage);
+      clearTimeout(timer);
+      if (document.body.contains(iframe)) document.body.removeChild(iframe);
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow) return;
+      const msg = event.data;
+      if (!msg || msg.type !== 'card-lint-result' || msg.id !== id) return;
+      cleanup();
+      if (msg.error) reject(new Error(msg.error));
+      else resolve({
+        texts: msg.texts,
+        keyElements: msg.keyElements,
+        imagesWithoutAlt: msg.imagesWithoutAlt,
+        contentWidth: msg.contentWidth,
+        contentHeight: msg.contentHeight,
+        readiness: msg.readiness
+      });
+    };
+
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error("Check timed out"));
+    }, settings.readyTimeout + 10000);
+
+    window.addEventListener('message', onMessage);
+    iframe.onload = () => {
+      iframe.contentWindow?.postMessage({ type: 'card-lint', id }, '*');
+    };
+    iframe.srcdoc = buildFrameDocument(html, size, settings);
+    document.body.appendChild(iframe);
+  });
+};
+
+const THUMBNAIL_WIDTH = 240;
+
+// Small JPEG of a card for the session history
+export const captureThumbnail = async (html: string, size: OutputSize, settings: RenderSettings): Promise<string> => {
+  const capture = await captureInFrame(html, size, settings, {
+    scale: THUMBNAIL_WIDTH / size.width,
+    backgroundColor: '#ffffff',
+    mimeType: 'image/jpeg',
+    quality: 0.7
+  });
+  return capture.dataUrl;
+};
@@ -0,0 +1,148 @@
+import { LintIssue, LintRule, OutputSize, RenderSettings, SafeZonePresetId, SafeZoneRegionId } from "../types";
+import { FrameLintResult, lintInFrame } from "./cardFrame";
+import { findCoveringRegion, getSafeZoneRegions } from "./safeZones";
+
+interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// WCAG 2.1 AA
+export const MIN_CONTRAST = 4.5;
+export const MIN_CONTRAST_LARGE = 3;
+
+// Cards are mostly seen scaled down to a phone-width feed; text smaller than this on such a screen is hard to read
+const REFERENCE_WIDTH = 400;
+const MIN_DISPLAY_FONT_SIZE = 9;
+
+const WHITE: Rgba = { r: 255, g: 255, b: 255, a: 1 };
+
+// Computed colours come back as rgb()/rgba(), comma or space separated; anything else (e.g. oklch) is skipped
+export const parseColor = (value: string): Rgba | null => {
+  const m = value.trim().match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/i);
+  if (!m) return value.trim() === 'transparent' ? { r: 0, g: 0, b: 0, a: 0 } : null;
+  const alpha = m[4] === undefined ? 1 : m[4].endsWith('%') ? parseFloat(m[4]) / 100 : parseFloat(m[4]);
+  return { r: Number(m[1]), g: Number(m[2]), b: Number(m[3]), a: alpha };
+};
+
+// Paint a translucent colour over an opaque one
+const composite = (top: Rgba, bottom: Rgba): Rgba => ({
+  r: top.r * top.a + bottom.r * (1 - top.a),
+  g: top.g * top.a + bottom.g * (1 - top.a),
+  b: top.b * top.a + bottom.b * (1 - top.a),
+  a: 1
+});
+
+const luminance = ({ r, g, b }: Rgba) => {
+  const [R, G, B] = [r, g, b].map(c => {
+    const v = c / 255;
+    return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * R + 0.7152 * G + 0.0722 * B;
+};
+
+export const getContrastRatio = (foreground: Rgba, background: Rgba): number => {
+  const l1 = luminance(foreground);
+  const l2 = luminance(background);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+};
+
+// The solid colour behind an element, or null when an image or gradient makes it unknowable.
+// Layers are listed from the element outwards; the page itself is taken to be white.
+export const getEffectiveBackground = (layers: string[]): Rgba | null => {
+  const stack: Rgba[] = [];
+  for (const layer of layers) {
+    if (layer === 'image') return null;
+    const color = parseColor(layer);
+    if (!color) return null;
+    if (color.a === 0) continue;
+    stack.push(color);
+    if (color.a >= 1) break;
+  }
+  return stack.reduceRight((below, color) => composite(color, below), WHITE);
+};
+
+// WCAG "large text": 18pt, or 14pt bold
+export const isLargeText = (fontSize: number, fontWeight: number) => fontSize >= 24 || (fontSize >= 18.66 && fontWeight >= 700);
+
+export const getMinFontSize = (size: OutputSize) => Math.round((size.width / REFERENCE_WIDTH) * MIN_DISPLAY_FONT_SIZE);
+
+// safeZone: also warn about headings and key elements the preset's platform covers or crops
+export const lintCard = (result: FrameLintResult, size: OutputSize, safeZone: SafeZonePresetId | null = null): LintIssue[] => {
+  const issues: LintIssue[] = [];
+  const minFontSize = getMinFontSize(size);
+
+  result.texts.forEach(sample => {
+    const color = parseColor(sample.color);
+    const background = getEffectiveBackground(sample.backgrounds);
+    if (color && background) {
+      const foreground = composite({ ...color, a: color.a * sample.opacity }, background);
+      const ratio = getContrastRatio(foreground, background);
+      const required = isLargeText(sample.fontSize, sample.fontWeight) ? MIN_CONTRAST_LARGE : MIN_CONTRAST;
+      if (ratio < required) {
+        issues.push({ rule: 'contrast', severity: 'error', target: sample.text, value: Math.round(ratio * 100) / 100, required });
+      }
+    }
+
+    if (sample.fontSize < minFontSize) {
+      issues.push({ rule: 'font-size', severity: 'warning', target: sample.text, value: Math.round(sample.fontSize * 10) / 10, required: minFontSize });
+    }
+
+    if (sample.clipped) {
+      issues.push({ rule: 'overflow', severity: 'error', target: sample.text });
+    }
+  });
+
+  const overflowX = result.contentWidth - size.width;
+  const overflowY = result.contentHeight - size.height;
+  if (overflowX > 1 || overflowY > 1) {
+    issues.push({ rule: 'clipped', severity: 'error', target: '', value: Math.round(Math.max(overflowX, overflowY)) });
+  }
+
+  if (safeZone) {
+    const regions = getSafeZoneRegions(safeZone, size);
+    result.keyElements.forEach(element => {
+      const region = findCoveringRegion(element, regions);
+      if (region) issues.push({ rule: 'safe-zone', severity: 'warning', target: element.text, zone: region.id });
+    });
+  }
+
+  result.imagesWithoutAlt.forEach(src => {
+    issues.push({ rule: 'alt-text', severity: 'warning', target: src.startsWith('data:') ? 'data:…' : src });
+  });
+
+  // The same text can appear many times (e.g. repeated labels); report it once per rule
+  const seen = new Set<string>();
+  return issues
+    .filter(issue => {
+      const key = `${issue.rule}|${issue.target}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
+
+// Checks share one hidden frame at a time so a large batch doesn't lay out every card at once
+let queue: Promise<unknown> = Promise.resolve();
+
+export const checkCard = (html: string, size: OutputSize, settings: RenderSettings, safeZone: SafeZonePresetId | null = null): Promise<LintIssue[]> => {
+  const run = queue.then(() => lintInFrame(html, size, settings)).then(result => lintCard(result, size, safeZone));
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+// One line per issue for tooltips and the download summary; labels come from the translations
+export const formatLintIssue = (
+  issue: LintIssue,
+  labels: { rules: Record<LintRule, string>, zones: Record<SafeZoneRegionId, string> }
+): string => {
+  const detail = issue.rule === 'contrast' ? ` ${issue.value}:1 < ${issue.required}:1`
+    : issue.rule === 'font-size' ? ` ${issue.value}px < ${issue.required}px`
+    : issue.rule === 'clipped' ? ` ${issue.value}px`
+    : issue.zone ? ` (${labels.zones[issue.zone]})`
+    : '';
+  return `${labels.rules[issue.rule]}${detail}${issue.target ? ` — "${issue.target}"` : ''}`;
+};
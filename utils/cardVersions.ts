@@ -0,0 +1,33 @@
+import { Artifact, ArtifactVersion } from "../types";
+
+// Older variants are dropped past this so a long refine session doesn't bloat the saved workspace
+export const MAX_VERSIONS = 20;
+
+// Every card has at least one version: its code as generated
+export const getVersions = (artifact: Artifact): ArtifactVersion[] =>
+  artifact.versions?.entries ?? [{ code: artifact.code, instruction: null, createdAt: 0 }];
+
+export const getCurrentVersion = (artifact: Artifact): number =>
+  artifact.versions ? artifact.versions.current : 0;
+
+// Manual edits made since the current version was picked are kept as a version of their own
+// rather than lost when another variant is added or selected
+const withEdits = (artifact: Artifact, now: number): ArtifactVersion[] => {
+  const entries = getVersions(artifact);
+  const current = entries[getCurrentVersion(artifact)];
+  return current && current.code === artifact.code
+    ? entries
+    : [...entries, { code: artifact.code, instruction: null, createdAt: now }];
+};
+
+export const addVersion = (artifact: Artifact, code: string, instruction: string, now = Date.now()): Artifact => {
+  const entries = [...withEdits(artifact, now), { code, instruction, createdAt: now }].slice(-MAX_VERSIONS);
+  return { ...artifact, code, versions: { entries, current: entries.length - 1 } };
+};
+
+export const selectVersion = (artifact: Artifact, index: number, now = Date.now()): Artifact => {
+  const entries = withEdits(artifact, now);
+  const version = entries[index];
+  if (!version) return artifact;
+  return { ...artifact, code: version.code, versions: { entries, current: index } };
+};
@@ -0,0 +1,74 @@
+// Text-level access to the parts of a card's source that the inline editor exposes.
+// Everything works on string ranges rather than a parsed DOM, so the user's formatting
+// (and half-typed markup) survives round-trips while they edit.
+
+export type CodeSection = 'styles' | 'body';
+
+export interface CodeSections {
+  styles: string;
+  body: string;
+}
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+// Content between <body ...> and </body>, if the card is a full document
+const findBody = (code: string): Range | null => {
+  const open = /<body[^>]*>/i.exec(code);
+  if (!open) return null;
+  const start = open.index + open[0].length;
+  const close = code.slice(start).search(/<\/body\s*>/i);
+  return close < 0 ? null : { start, end: start + close };
+};
+
+// The first <style> outside the body; styles inside the body stay part of the body text
+const findStyle = (code: string, body: Range | null): { element: Range, content: Range } | null => {
+  for (const m of code.matchAll(/(<style[^>]*>)([\s\S]*?)<\/style\s*>/gi)) {
+    const index = m.index!;
+    if (body && index >= body.start && index < body.end) continue;
+    const start = index + m[1].length;
+    return {
+      element: { start: index, end: index + m[0].length },
+      content: { start, end: start + m[2].length }
+    };
+  }
+  return null;
+};
+
+const replaceRange = (code: string, range: Range, value: string) => code.slice(0, range.start) + value + code.slice(range.end);
+
+export const getCodeSections = (code: string): CodeSections => {
+  const body = findBody(code);
+  const style = findStyle(code, body);
+  const styles = style ? code.slice(style.content.start, style.content.end) : '';
+
+  if (body) {
+    return { styles, body: code.slice(body.start, body.end) };
+  }
+  // Snippets without a <body>: everything except the style element is markup
+  return { styles, body: style ? replaceRange(code, style.element, '') : code };
+};
+
+// Inverse of getCodeSections for one section: getCodeSections(setCodeSection(c, s, v))[s] === v
+export const setCodeSection = (code: string, section: CodeSection, value: string): string => {
+  const body = findBody(code);
+  const style = findStyle(code, body);
+
+  if (section === 'styles') {
+    if (style) return replaceRange(code, style.content, value);
+
+    const element = `<style>${value}</style>`;
+    const headClose = code.search(/<\/head\s*>/i);
+    if (headClose >= 0) return `${code.slice(0, headClose)}${element}\n${code.slice(headClose)}`;
+    const bodyOpen = code.search(/<body[^>]*>/i);
+    if (bodyOpen >= 0) return `${code.slice(0, bodyOpen)}${element}\n${code.slice(bodyOpen)}`;
+    return `${element}${code}`;
+  }
+
+  if (body) return replaceRange(code, body, value);
+
+  // Snippet: the style element (if any) moves to the front, followed by the edited markup
+  return style ? code.slice(style.element.start, style.element.end) + value : value;
+};
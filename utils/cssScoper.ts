@@ -0,0 +1,256 @@
+// Minimal CSS-aware scoper used to embed card styles inside the app without leaking.
+// It is not a full CSS parser: it only understands enough structure (strings, comments,
+// blocks and at-rules) to prefix selectors and rename per-card identifiers safely.
+
+export interface ScopedCss {
+  css: string;
+  imports: string[]; // @import URLs removed from the sheet so they can be fetched and scoped too
+}
+
+interface RawRule {
+  prelude: string;
+  block: string | null; // null for statements such as @import or @charset
+}
+
+// At-rules whose body is a list of ordinary rules that need scoping as well
+const NESTED_AT_RULES = ['media', 'supports', 'container', 'layer', 'document', '-moz-document'];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Returns the index just past the closing quote
+const skipString = (css: string, start: number): number => {
+  const quote = css[start];
+  let i = start + 1;
+  while (i < css.length && css[i] !== quote) {
+    if (css[i] === '\\') i++;
+    i++;
+  }
+  return i + 1;
+};
+
+// Returns the index of the "}" matching the "{" at `start`
+const findBlockEnd = (css: string, start: number): number => {
+  let depth = 0;
+  let i = start;
+  while (i < css.length) {
+    const ch = css[i];
+    if (ch === '/' && css[i + 1] === '*') {
+      const end = css.indexOf('*/', i + 2);
+      i = end === -1 ? css.length : end + 2;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      i = skipString(css, i);
+      continue;
+    }
+    if (ch === '{') depth++;
+    if (ch === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+    i++;
+  }
+  return css.length;
+};
+
+// Split a rule list into top-level rules, dropping comments
+const parseRules = (css: string): RawRule[] => {
+  const rules: RawRule[] = [];
+  let prelude = '';
+  let parenDepth = 0;
+  let i = 0;
+
+  while (i < css.length) {
+    const ch = css[i];
+
+    if (ch === '/' && css[i + 1] === '*') {
+      const end = css.indexOf('*/', i + 2);
+      i = end === -1 ? css.length : end + 2;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      const end = skipString(css, i);
+      prelude += css.slice(i, end);
+      i = end;
+      continue;
+    }
+    if (ch === '(') parenDepth++;
+    if (ch === ')') parenDepth = Math.max(0, parenDepth - 1);
+
+    if (ch === ';' && parenDepth === 0) {
+      if (prelude.trim()) rules.push({ prelude: prelude.trim(), block: null });
+      prelude = '';
+    } else if (ch === '{' && parenDepth === 0) {
+      const end = findBlockEnd(css, i);
+      rules.push({ prelude: prelude.trim(), block: css.slice(i + 1, end) });
+      prelude = '';
+      i = end;
+    } else if (ch === '}') {
+      prelude = ''; // Stray closing brace from malformed input
+    } else {
+      prelude += ch;
+    }
+    i++;
+  }
+
+  return rules;
+};
+
+// Split a selector list on top-level commas (ignoring commas inside :is(), [attr="a,b"], etc.)
+const splitSelectors = (selectorList: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let depth = 0;
+  let i = 0;
+
+  while (i < selectorList.length) {
+    const ch = selectorList[i];
+    if (ch === '"' || ch === "'") {
+      const end = skipString(selectorList, i);
+      current += selectorList.slice(i, end);
+      i = end;
+      continue;
+    }
+    if (ch === '(' || ch === '[') depth++;
+    if (ch === ')' || ch === ']') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+    i++;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+// Rewrite one selector so it only matches inside the scope element.
+// html / :root / body all map onto the scope element itself, keeping any qualifiers (body.dark -> #scope.dark).
+const scopeSelector = (selector: string, scope: string): string => {
+  if (selector === '*') return `${scope}, ${scope} *`;
+
+  let rest = selector;
+  let qualifiers = '';
+  let matchedRoot = false;
+
+  const rootMatch = rest.match(/^(?:html|:root)(?![\w-])([^\s>+~]*)/i);
+  if (rootMatch) {
+    qualifiers += rootMatch[1];
+    rest = rest.slice(rootMatch[0].length).replace(/^\s*>?\s*/, '');
+    matchedRoot = true;
+  }
+
+  const bodyMatch = rest.match(/^body(?![\w-])([^\s>+~]*)/i);
+  if (bodyMatch) {
+    qualifiers += bodyMatch[1];
+    rest = rest.slice(bodyMatch[0].length).trimStart();
+    matchedRoot = true;
+  }
+
+  if (!matchedRoot) return `${scope} ${selector}`;
+  return rest ? `${scope}${qualifiers} ${rest}` : `${scope}${qualifiers}`;
+};
+
+interface ScopeContext {
+  scope: string;
+  keyframes: Map<string, string>;
+  fonts: Map<string, string>;
+  imports: string[];
+}
+
+// Point animation and font references at the renamed per-card identifiers
+const rewriteDeclarations = (block: string, ctx: ScopeContext): string => {
+  return block.replace(/(^|[;{\s])((?:-[a-z]+-)?animation(?:-name)?|font(?:-family)?)(\s*:)([^;}]*)/gi, (_m, pre, prop, colon, value) => {
+    let rewritten = value as string;
+    const property = (prop as string).toLowerCase().replace(/^-[a-z]+-/, '');
+
+    if (property.startsWith('animation') && ctx.keyframes.size > 0) {
+      rewritten = rewritten.replace(/-?[A-Za-z_][\w-]*/g, (id) => ctx.keyframes.get(id) ?? id);
+    }
+
+    if (property.startsWith('font') && ctx.fonts.size > 0) {
+      ctx.fonts.forEach((renamed, family) => {
+        const pattern = new RegExp(`(^|,|\\s)(["']?)${escapeRegExp(family)}\\2(?=\\s*(?:,|!|$))`, 'g');
+        rewritten = rewritten.replace(pattern, `$1"${renamed}"`);
+      });
+    }
+
+    return `${pre}${prop}${colon}${rewritten}`;
+  });
+};
+
+const scopeRuleList = (css: string, ctx: ScopeContext): string => {
+  return parseRules(css).map(({ prelude, block }) => {
+    if (prelude.startsWith('@')) {
+      const name = (prelude.match(/^@([\w-]+)/)?.[1] || '').toLowerCase();
+
+      if (block === null) {
+        if (name === 'import') {
+          const url = prelude.match(/^@import\s+(?:url\(\s*)?["']?([^"')\s]+)/i)?.[1];
+          if (url) ctx.imports.push(url);
+          return '';
+        }
+        return `${prelude};`;
+      }
+
+      if (NESTED_AT_RULES.includes(name)) {
+        return `${prelude} {\n${scopeRuleList(block, ctx)}\n}`;
+      }
+
+      if (name.endsWith('keyframes')) {
+        const renamed = prelude.replace(/^(@[\w-]+\s+)(["']?)([\w-]+)\2/, (m, at, _q, id) => {
+          const target = ctx.keyframes.get(id);
+          return target ? `${at}${target}` : m;
+        });
+        return `${renamed} {${block}}`;
+      }
+
+      if (name === 'font-face') {
+        const renamed = block.replace(/(font-family\s*:\s*)(["']?)([^;"'}]+)\2/i, (m, decl, _q, family) => {
+          const target = ctx.fonts.get(family.trim());
+          return target ? `${decl}"${target}"` : m;
+        });
+        return `${prelude} {${renamed}}`;
+      }
+
+      // @page, @property, @counter-style ... are not selector based
+      return `${prelude} {${block}}`;
+    }
+
+    if (block === null) return '';
+
+    const selectors = splitSelectors(prelude).map(sel => scopeSelector(sel, ctx.scope)).join(', ');
+    return `${selectors} {${rewriteDeclarations(block, ctx)}}`;
+  }).filter(Boolean).join('\n');
+};
+
+// Scope a stylesheet to `scope` (e.g. "#preview-123"). Keyframes and @font-face families
+// declared in the sheet are renamed with `suffix` so cards cannot override each other's.
+export const scopeCss = (css: string, scope: string, suffix: string): ScopedCss => {
+  const keyframes = new Map<string, string>();
+  for (const m of css.matchAll(/@(?:-[a-z]+-)?keyframes\s+(["']?)([\w-]+)\1/gi)) {
+    keyframes.set(m[2], `${m[2]}__${suffix}`);
+  }
+
+  const fonts = new Map<string, string>();
+  for (const m of css.matchAll(/@font-face\s*{[^}]*?font-family\s*:\s*(["']?)([^;"'}]+)\1/gi)) {
+    const family = m[2].trim();
+    fonts.set(family, `${family}__${suffix}`);
+  }
+
+  const ctx: ScopeContext = { scope, keyframes, fonts, imports: [] };
+  return { css: scopeRuleList(css, ctx), imports: ctx.imports };
+};
+
+// Make url(...) references in a fetched stylesheet absolute so they still resolve once inlined
+export const resolveCssUrls = (css: string, baseUrl: string): string => {
+  return css.replace(/url\(\s*(["']?)([^"')]+)\1\s*\)/gi, (m, quote, url) => {
+    if (/^(data:|blob:|#)/i.test(url)) return m;
+    try {
+      return `url(${quote}${new URL(url, baseUrl).href}${quote})`;
+    } catch {
+      return m;
+    }
+  });
+};
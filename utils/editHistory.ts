@@ -0,0 +1,56 @@
+// Undo/redo stack for a card's source. Keystrokes that follow each other quickly are
+// coalesced into one step so undo doesn't walk back a single character at a time.
+
+export interface EditHistory {
+  past: string[];
+  present: string;
+  future: string[];
+  lastEditAt: number;
+}
+
+const MAX_HISTORY = 100;
+const COALESCE_MS = 800;
+
+export const createHistory = (present: string): EditHistory => ({ past: [], present, future: [], lastEditAt: 0 });
+
+export const recordEdit = (history: EditHistory, next: string, now = Date.now()): EditHistory => {
+  if (next === history.present) return history;
+  const coalesce = now - history.lastEditAt < COALESCE_MS;
+  return {
+    past: coalesce ? history.past : [...history.past, history.present].slice(-MAX_HISTORY),
+    present: next,
+    future: [],
+    lastEditAt: now
+  };
+};
+
+// A change from outside the editor: always its own step, and the next keystroke starts a new one
+export const recordSnapshot = (history: EditHistory, next: string): EditHistory => {
+  if (next === history.present) return history;
+  return {
+    past: [...history.past, history.present].slice(-MAX_HISTORY),
+    present: next,
+    future: [],
+    lastEditAt: 0
+  };
+};
+
+export const undo = (history: EditHistory): EditHistory => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastEditAt: 0
+  };
+};
+
+export const redo = (history: EditHistory): EditHistory => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastEditAt: 0
+  };
+};
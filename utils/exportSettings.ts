@@ -0,0 +1,55 @@
+import { AnimationFormat, ExportSettings, ImageFormat } from "../types";
+import { FrameCaptureOptions } from "./cardFrame";
+import { DEFAULT_FILE_NAME_TEMPLATE } from "./fileNames";
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'jpg',
+  quality: 0.9,
+  scale: 2,
+  background: 'fill',
+  backgroundColor: '#ffffff',
+  fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE,
+  animationFormat: 'gif',
+  animationFps: 15,
+  animationDuration: 3000
+};
+
+export const IMAGE_FORMATS: ImageFormat[] = ['jpg', 'png', 'webp'];
+export const EXPORT_SCALES = [1, 2, 3, 4];
+
+export const ANIMATION_FORMATS: AnimationFormat[] = ['gif', 'webm'];
+export const ANIMATION_FPS = [10, 15, 24, 30];
+export const MIN_ANIMATION_DURATION = 500;
+export const MAX_ANIMATION_DURATION = 10000;
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+export const getMimeType = (format: ImageFormat): string => MIME_TYPES[format];
+
+// PNG is lossless, so the quality slider only applies to JPG and WebP
+export const supportsQuality = (format: ImageFormat): boolean => format !== 'png';
+
+// JPG has no alpha channel; transparent pixels would turn black, so it always gets a fill
+export const supportsTransparency = (format: ImageFormat): boolean => format !== 'jpg';
+
+// Browsers without a WebP encoder silently fall back to PNG, so derive the extension from the actual output
+export const getExtensionFromDataUrl = (dataUrl: string, requested: ImageFormat): string => {
+  const mime = dataUrl.substring(5, dataUrl.indexOf(';'));
+  const match = (Object.keys(MIME_TYPES) as ImageFormat[]).find(f => MIME_TYPES[f] === mime);
+  return match || requested;
+};
+
+// Translate the export settings into what the capture runtime inside the card frame needs
+export const toCaptureOptions = (settings: ExportSettings): FrameCaptureOptions => {
+  const transparent = settings.background === 'transparent' && supportsTransparency(settings.format);
+  return {
+    scale: settings.scale,
+    backgroundColor: transparent ? null : settings.backgroundColor,
+    mimeType: getMimeType(settings.format),
+    quality: supportsQuality(settings.format) ? settings.quality : undefined
+  };
+};
@@ -0,0 +1,60 @@
+// Replace characters that Windows and macOS reject in file names
+export const sanitizeFileName = (title: string, fallback: string): string => {
+  return title.replace(/[\\/:*?"<>|]/g, '_').trim() || fallback;
+};
+
+export const DEFAULT_FILE_NAME_TEMPLATE = '{index}_{title}';
+
+// Shown as shortcuts in the export settings; {width} and {height} also work on their own
+export const FILE_NAME_TOKENS = ['{index}', '{title}', '{slug}', '{date}', '{width}x{height}', '{set}'];
+
+export interface FileNameContext {
+  index: number | null; // 1-based position in the user's order; null when numbering is off
+  total: number; // Number of cards, so {index} is padded consistently (01..12, 001..120)
+  title: string;
+  width: number;
+  height: number;
+  set: string; // Session name
+  date?: Date;
+  fields?: Record<string, string>; // Data row of a mail-merged card, available as {{column}}
+}
+
+// "Hello, World! 2" -> "hello-world-2"; letters outside ASCII (e.g. Hangul) are kept
+export const slugify = (text: string): string => {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+const formatDate = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const EMPTY_TOKEN = '\u0000';
+
+// Expand a template like "{index}_{slug}" (or "{index}_{{name}}" for merged cards) into a file name without extension
+export const formatFileName = (template: string, ctx: FileNameContext): string => {
+  const values: Record<string, string> = {
+    index: ctx.index === null ? '' : String(ctx.index).padStart(Math.max(2, String(ctx.total).length), '0'),
+    title: ctx.title,
+    slug: slugify(ctx.title),
+    date: formatDate(ctx.date ?? new Date()),
+    width: String(ctx.width),
+    height: String(ctx.height),
+    set: ctx.set
+  };
+
+  // Empty tokens (e.g. {index} with numbering off) are marked so only the separators around them are dropped;
+  // "__" or "--" that belong to a title or field value are kept
+  const orEmpty = (value: string | undefined) => value || EMPTY_TOKEN;
+  const name = template
+    .replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, key: string) => orEmpty(ctx.fields && Object.hasOwn(ctx.fields, key) ? ctx.fields[key] : ''))
+    .replace(/\{(\w+)\}/g, (token, key: string) => Object.hasOwn(values, key) ? orEmpty(values[key]) : token)
+    .replace(/([_-]?)\u0000+([_-]?)/g, (_, before: string, after: string) => before || after)
+    .replace(/^[\s._-]+|[\s._-]+$/g, '');
+
+  return sanitizeFileName(name, sanitizeFileName(ctx.title, 'card'));
+};
@@ -0,0 +1,277 @@
+// Minimal animated GIF89a encoder. Every frame gets its own 256-colour table built with a
+// median cut over a 5-bit-per-channel histogram, so frames can be encoded as they arrive
+// instead of holding the whole animation in memory.
+
+export interface GifEncoderOptions {
+  loop?: boolean; // Repeat forever (default) or play once
+  transparent?: boolean; // Map pixels with alpha < 128 to a transparent index
+}
+
+export interface GifEncoder {
+  addFrame: (rgba: Uint8ClampedArray, delayCs: number) => void; // Delay in hundredths of a second
+  finish: () => Uint8Array;
+}
+
+export interface QuantizedFrame {
+  palette: number[][]; // [r, g, b] entries
+  indices: Uint8Array;
+  transparentIndex: number | null;
+}
+
+const HISTOGRAM_BITS = 5;
+const bucketOf = (r: number, g: number, b: number) =>
+  ((r >> 3) << (2 * HISTOGRAM_BITS)) | ((g >> 3) << HISTOGRAM_BITS) | (b >> 3);
+
+interface Box {
+  buckets: number[];
+  count: number;
+}
+
+// Reduce a frame to at most 256 colours. Palette entries are averages of the real pixel
+// colours, so images that already use few colours come through unchanged.
+export const quantizeFrame = (rgba: Uint8ClampedArray, transparent = false): QuantizedFrame => {
+  const size = 1 << (3 * HISTOGRAM_BITS);
+  const counts = new Uint32Array(size);
+  const sums = new Float64Array(size * 3);
+  const pixelCount = rgba.length / 4;
+  let hasTransparent = false;
+
+  for (let i = 0; i < pixelCount; i++) {
+    const p = i * 4;
+    if (transparent && rgba[p + 3] < 128) {
+      hasTransparent = true;
+      continue;
+    }
+    const bucket = bucketOf(rgba[p], rgba[p + 1], rgba[p + 2]);
+    counts[bucket]++;
+    sums[bucket * 3] += rgba[p];
+    sums[bucket * 3 + 1] += rgba[p + 1];
+    sums[bucket * 3 + 2] += rgba[p + 2];
+  }
+
+  const used: number[] = [];
+  for (let bucket = 0; bucket < size; bucket++) {
+    if (counts[bucket] > 0) used.push(bucket);
+  }
+
+  const channel = (bucket: number, c: number) => (bucket >> ((2 - c) * HISTOGRAM_BITS)) & 31;
+  const maxColors = hasTransparent ? 255 : 256;
+  const boxes: Box[] = used.length > 0 ? [{ buckets: used, count: pixelCount }] : [];
+
+  // Keep splitting the most populous box that can still be split, along its widest channel
+  while (boxes.length < maxColors) {
+    let target = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].buckets.length > 1 && (target < 0 || boxes[i].count > boxes[target].count)) target = i;
+    }
+    if (target < 0) break;
+
+    const box = boxes[target];
+    const ranges = [0, 1, 2].map(c => {
+      let min = 31, max = 0;
+      box.buckets.forEach(bucket => {
+        const v = channel(bucket, c);
+        if (v < min) min = v;
+        if (v > max) max = v;
+      });
+      return max - min;
+    });
+    const c = ranges.indexOf(Math.max(...ranges));
+    box.buckets.sort((a, b) => channel(a, c) - channel(b, c));
+
+    let half = 0;
+    let split = 1;
+    for (let i = 0; i < box.buckets.length - 1; i++) {
+      half += counts[box.buckets[i]];
+      split = i + 1;
+      if (half >= box.count / 2) break;
+    }
+    const left = box.buckets.slice(0, split);
+    const right = box.buckets.slice(split);
+    const leftCount = left.reduce((n, bucket) => n + counts[bucket], 0);
+    boxes.splice(target, 1, { buckets: left, count: leftCount }, { buckets: right, count: box.count - leftCount });
+  }
+
+  const offset = hasTransparent ? 1 : 0;
+  const palette: number[][] = hasTransparent ? [[0, 0, 0]] : [];
+  const lookup = new Uint8Array(size);
+  boxes.forEach((box, i) => {
+    let n = 0, r = 0, g = 0, b = 0;
+    box.buckets.forEach(bucket => {
+      n += counts[bucket];
+      r += sums[bucket * 3];
+      g += sums[bucket * 3 + 1];
+      b += sums[bucket * 3 + 2];
+      lookup[bucket] = i + offset;
+    });
+    palette.push([Math.round(r / n), Math.round(g / n), Math.round(b / n)]);
+  });
+  if (palette.length === 0) palette.push([0, 0, 0]);
+
+  const indices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const p = i * 4;
+    indices[i] = transparent && rgba[p + 3] < 128 ? 0 : lookup[bucketOf(rgba[p], rgba[p + 1], rgba[p + 2])];
+  }
+
+  return { palette, indices, transparentIndex: hasTransparent ? 0 : null };
+};
+
+// Growable byte buffer
+const createWriter = () => {
+  let buffer = new Uint8Array(1 << 16);
+  let length = 0;
+
+  const ensure = (extra: number) => {
+    if (length + extra <= buffer.length) return;
+    let next = buffer.length * 2;
+    while (next < length + extra) next *= 2;
+    const grown = new Uint8Array(next);
+    grown.set(buffer.subarray(0, length));
+    buffer = grown;
+  };
+
+  return {
+    byte: (b: number) => {
+      ensure(1);
+      buffer[length++] = b & 0xff;
+    },
+    u16: (v: number) => {
+      ensure(2);
+      buffer[length++] = v & 0xff;
+      buffer[length++] = (v >> 8) & 0xff;
+    },
+    bytes: (data: ArrayLike<number>) => {
+      ensure(data.length);
+      buffer.set(data, length);
+      length += data.length;
+    },
+    string: (s: string) => {
+      ensure(s.length);
+      for (let i = 0; i < s.length; i++) buffer[length++] = s.charCodeAt(i);
+    },
+    result: () => buffer.slice(0, length)
+  };
+};
+
+type Writer = ReturnType<typeof createWriter>;
+
+// Variable-length LZW as used by GIF, written in 255-byte sub-blocks
+const writeLzw = (out: Writer, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = eoiCode + 1;
+  let table = new Map<number, number>();
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bits = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    if (blockLength === 0) return;
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block[blockLength++] = bits & 0xff;
+      if (blockLength === 255) flushBlock();
+      bits >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table = new Map();
+      nextCode = eoiCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= (1 << codeSize)) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(eoiCode);
+
+  if (bitCount > 0) {
+    block[blockLength++] = bits & 0xff;
+    if (blockLength === 255) flushBlock();
+  }
+  flushBlock();
+  out.byte(0); // Block terminator
+};
+
+export const createGifEncoder = (width: number, height: number, options: GifEncoderOptions = {}): GifEncoder => {
+  const out = createWriter();
+
+  out.string('GIF89a');
+  out.u16(width);
+  out.u16(height);
+  out.byte(0); // No global colour table; every frame brings its own
+  out.byte(0); // Background colour index
+  out.byte(0); // Pixel aspect ratio
+
+  if (options.loop !== false) {
+    out.bytes([0x21, 0xff, 0x0b]);
+    out.string('NETSCAPE2.0');
+    out.bytes([0x03, 0x01]);
+    out.u16(0); // Loop forever
+    out.byte(0);
+  }
+
+  const addFrame = (rgba: Uint8ClampedArray, delayCs: number) => {
+    if (rgba.length !== width * height * 4) {
+      throw new Error(`Frame is ${rgba.length / 4} pixels, expected ${width}×${height}`);
+    }
+    const { palette, indices, transparentIndex } = quantizeFrame(rgba, options.transparent);
+    const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+
+    // Graphic control extension. Transparent frames restore to background so they do not pile up.
+    const disposal = transparentIndex !== null ? 2 : 1;
+    out.bytes([0x21, 0xf9, 0x04, (disposal << 2) | (transparentIndex !== null ? 1 : 0)]);
+    out.u16(Math.max(0, Math.round(delayCs)));
+    out.byte(transparentIndex ?? 0);
+    out.byte(0);
+
+    // Image descriptor with a local colour table
+    out.byte(0x2c);
+    out.u16(0);
+    out.u16(0);
+    out.u16(width);
+    out.u16(height);
+    out.byte(0x80 | (tableBits - 1));
+    for (let i = 0; i < 1 << tableBits; i++) {
+      const [r, g, b] = palette[i] || [0, 0, 0];
+      out.bytes([r, g, b]);
+    }
+
+    writeLzw(out, indices, Math.max(2, tableBits));
+  };
+
+  const finish = () => {
+    out.byte(0x3b);
+    return out.result();
+  };
+
+  return { addFrame, finish };
+};
@@ -0,0 +1,227 @@
+// Turn card HTML into a single self-contained file by embedding the images, fonts and
+// stylesheets it references as data URIs. Network access goes through a pluggable fetcher
+// so tests can point it at a local server.
+
+export type AssetFetcher = (url: string) => Promise<Blob>;
+
+export interface FailedAsset {
+  url: string;
+  reason: string;
+}
+
+export interface InlineAssetsResult {
+  html: string;
+  failed: FailedAsset[];
+}
+
+export interface InlineAssetsOptions {
+  fetcher?: AssetFetcher;
+  baseUrl?: string; // Base for relative URLs; defaults to the page URL
+}
+
+export const defaultAssetFetcher: AssetFetcher = async (url) => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.blob();
+};
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  ico: 'image/x-icon',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  css: 'text/css'
+};
+
+const isEmbedded = (url: string) => /^(data:|blob:|#|about:|javascript:)/i.test(url.trim());
+
+const blobToDataUrl = (blob: Blob, url: string): Promise<string> => {
+  // Some servers answer with application/octet-stream; fall back to the file extension
+  const ext = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+  const typed = (!blob.type || blob.type === 'application/octet-stream') && MIME_BY_EXTENSION[ext]
+    ? new Blob([blob], { type: MIME_BY_EXTENSION[ext] })
+    : blob;
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(typed);
+  });
+};
+
+const blobToText = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(blob);
+});
+
+// Split a srcset into its candidates. URLs may themselves contain commas (data URIs, CDN transforms
+// like "w_400,h_300"), so each URL runs to the next whitespace and only the descriptor ends at a comma.
+export const parseSrcset = (srcset: string): { url: string, descriptor: string }[] => {
+  const candidates: { url: string, descriptor: string }[] = [];
+  let rest = srcset;
+  while (true) {
+    rest = rest.replace(/^[\s,]+/, '');
+    if (!rest) return candidates;
+    const url = rest.match(/^\S+/)![0];
+    rest = rest.slice(url.length);
+    if (url.endsWith(',')) {
+      candidates.push({ url: url.replace(/,+$/, ''), descriptor: '' });
+      continue;
+    }
+    const descriptor = rest.match(/^[^,]*/)![0];
+    rest = rest.slice(descriptor.length);
+    candidates.push({ url, descriptor: descriptor.trim() });
+  }
+};
+
+export const inlineAssets = async (html: string, options: InlineAssetsOptions = {}): Promise<InlineAssetsResult> => {
+  const fetcher = options.fetcher || defaultAssetFetcher;
+  const baseUrl = options.baseUrl || document.baseURI;
+  const failed: FailedAsset[] = [];
+  const cache = new Map<string, Promise<string | null>>();
+
+  const resolveUrl = (url: string, base: string) => {
+    try {
+      return new URL(url.trim(), base).href;
+    } catch {
+      return null;
+    }
+  };
+
+  const recordFailure = (url: string, reason: string) => {
+    if (!failed.some(f => f.url === url)) failed.push({ url, reason });
+  };
+
+  // Fetch each URL once per representation, however many times it is referenced
+  const fetchOnce = (url: string, as: 'text' | 'dataUrl') => {
+    const key = `${as}:${url}`;
+    if (!cache.has(key)) {
+      const read = as === 'text' ? blobToText : (blob: Blob) => blobToDataUrl(blob, url);
+      cache.set(key, fetcher(url).then(read).catch((e) => {
+        recordFailure(url, e instanceof Error ? e.message : String(e));
+        return null;
+      }));
+    }
+    return cache.get(key)!;
+  };
+
+  // An empty src would resolve to the base page itself, so it is left as it is
+  const toDataUrl = async (url: string, base: string): Promise<string | null> => {
+    if (!url.trim()) return null;
+    if (isEmbedded(url)) return url;
+    const absolute = resolveUrl(url, base);
+    if (!absolute) {
+      recordFailure(url, 'Invalid URL');
+      return null;
+    }
+    return fetchOnce(absolute, 'dataUrl');
+  };
+
+  // Rewrite url(...) and @import inside CSS; nested stylesheets are resolved against their own URL
+  const inlineCss = async (css: string, base: string, depth = 0): Promise<string> => {
+    let result = css;
+
+    const imports = [...css.matchAll(/@import\s+(?:url\(\s*)?(["']?)([^"')\s;]+)\1\s*\)?([^;]*);/gi)];
+    for (const m of imports) {
+      const absolute = resolveUrl(m[2], base);
+      if (!absolute || depth > 3) {
+        recordFailure(m[2], 'Could not resolve stylesheet');
+        continue;
+      }
+      const text = await fetchOnce(absolute, 'text');
+      if (text === null) continue;
+      const nested = await inlineCss(text, absolute, depth + 1);
+      const media = m[3].trim();
+      const replacement = media ? `@media ${media} {\n${nested}\n}` : nested;
+      // A function, so "$&" or "$'" in the fetched CSS is not read as a replacement pattern
+      result = result.replace(m[0], () => replacement);
+    }
+
+    const urls = [...result.matchAll(/url\(\s*(["']?)([^"')]+)\1\s*\)/gi)];
+    for (const m of urls) {
+      const dataUrl = await toDataUrl(m[2], base);
+      if (dataUrl && dataUrl !== m[2]) {
+        result = result.split(m[0]).join(`url("${dataUrl}")`);
+      }
+    }
+    return result;
+  };
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const hasDoctype = /^\s*<!DOCTYPE/i.test(html);
+
+  // 1. Inline <style> blocks and style="" attributes
+  for (const style of Array.from(doc.querySelectorAll('style'))) {
+    style.textContent = await inlineCss(style.textContent || '', baseUrl);
+  }
+  for (const el of Array.from(doc.querySelectorAll('[style]'))) {
+    if (!el.getAttribute('style')!.includes('url(')) continue;
+    el.setAttribute('style', await inlineCss(el.getAttribute('style') || '', baseUrl));
+  }
+
+  // 2. Linked stylesheets become inline <style> blocks (after step 1 so they are not processed twice)
+  for (const link of Array.from(doc.querySelectorAll('link[rel~="stylesheet"][href]'))) {
+    const href = link.getAttribute('href')!;
+    const absolute = resolveUrl(href, baseUrl);
+    if (!absolute) {
+      recordFailure(href, 'Invalid URL');
+      continue;
+    }
+    const text = await fetchOnce(absolute, 'text');
+    if (text === null) continue;
+
+    const style = doc.createElement('style');
+    const media = link.getAttribute('media');
+    if (media) style.setAttribute('media', media);
+    style.textContent = await inlineCss(text, absolute);
+    link.replaceWith(style);
+  }
+
+  // 3. Image-like attributes
+  const attributeTargets: [string, string][] = [
+    ['img[src]', 'src'],
+    ['source[src]', 'src'],
+    ['video[poster]', 'poster'],
+    ['input[type="image"][src]', 'src'],
+    ['link[rel~="icon"][href]', 'href'],
+    ['image[href]', 'href']
+  ];
+  for (const [selector, attr] of attributeTargets) {
+    for (const el of Array.from(doc.querySelectorAll(selector))) {
+      const dataUrl = await toDataUrl(el.getAttribute(attr) || '', baseUrl);
+      if (dataUrl) el.setAttribute(attr, dataUrl);
+    }
+  }
+
+  // srcset lists several candidates: "a.png 1x, b.png 2x"
+  for (const el of Array.from(doc.querySelectorAll('[srcset]'))) {
+    const candidates = parseSrcset(el.getAttribute('srcset') || '');
+    const inlined = await Promise.all(candidates.map(async ({ url, descriptor }) => {
+      const dataUrl = await toDataUrl(url, baseUrl);
+      return [dataUrl || url, descriptor].filter(Boolean).join(' ');
+    }));
+    el.setAttribute('srcset', inlined.join(', '));
+  }
+
+  const serialized = doc.documentElement.outerHTML;
+  return {
+    html: hasDoctype ? `<!DOCTYPE html>\n${serialized}` : serialized,
+    failed
+  };
+};
+
+// One line per asset for the post-export report
+export const formatFailedAssets = (failed: FailedAsset[]): string => {
+  return failed.map(f => `• ${f.url} (${f.reason})`).join('\n');
+};
@@ -0,0 +1,90 @@
+import { LlmProviderId, LlmSettings, ProviderConfig } from "../types";
+
+export interface LlmProviderInfo {
+  id: LlmProviderId;
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl: string; // Shown as the placeholder; also what an empty base URL resolves to
+  models: string[]; // Suggestions only; any model id the endpoint accepts can be typed in
+  needsKey: boolean;
+  maxTemperature: number;
+}
+
+export const LLM_PROVIDERS: LlmProviderInfo[] = [
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    defaultModel: 'gemini-2.5-flash',
+    defaultBaseUrl: 'https://generativelanguage.googleapis.com',
+    models: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+    needsKey: true,
+    maxTemperature: 2
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    defaultModel: 'gpt-4.1-mini',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    models: ['gpt-4.1-mini', 'gpt-4.1', 'gpt-4o'],
+    needsKey: true,
+    maxTemperature: 2
+  },
+  {
+    id: 'anthropic',
+    label: 'Anthropic',
+    defaultModel: 'claude-sonnet-4-5',
+    defaultBaseUrl: 'https://api.anthropic.com',
+    models: ['claude-sonnet-4-5', 'claude-haiku-4-5', 'claude-opus-4-1'],
+    needsKey: true,
+    maxTemperature: 1
+  },
+  {
+    id: 'ollama',
+    label: 'Ollama (local)',
+    defaultModel: 'qwen2.5-coder',
+    defaultBaseUrl: 'http://localhost:11434',
+    models: ['qwen2.5-coder', 'llama3.1', 'gemma3'],
+    needsKey: false,
+    maxTemperature: 2
+  }
+];
+
+export const getProviderInfo = (id: LlmProviderId): LlmProviderInfo =>
+  LLM_PROVIDERS.find(p => p.id === id) ?? LLM_PROVIDERS[0];
+
+export const DEFAULT_TEMPERATURE = 0.7; // Slight creativity for design
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  temperature: DEFAULT_TEMPERATURE,
+  providers: Object.fromEntries(
+    LLM_PROVIDERS.map(p => [p.id, { model: p.defaultModel, apiKey: '', baseUrl: '' }])
+  ) as Record<LlmProviderId, ProviderConfig>
+};
+
+// Stored settings may predate a provider or field, or be hand-edited; fill the gaps with defaults
+export const normalizeLlmSettings = (stored: unknown): LlmSettings => {
+  const value = (stored && typeof stored === 'object' ? stored : {}) as Partial<LlmSettings>;
+  const provider = LLM_PROVIDERS.some(p => p.id === value.provider) ? value.provider! : DEFAULT_LLM_SETTINGS.provider;
+  const temperature = typeof value.temperature === 'number' && Number.isFinite(value.temperature)
+    ? Math.min(2, Math.max(0, value.temperature))
+    : DEFAULT_TEMPERATURE;
+
+  const providers = { ...DEFAULT_LLM_SETTINGS.providers };
+  LLM_PROVIDERS.forEach(({ id }) => {
+    const config = value.providers?.[id];
+    if (config && typeof config === 'object') {
+      providers[id] = {
+        model: typeof config.model === 'string' && config.model.trim() ? config.model : providers[id].model,
+        apiKey: typeof config.apiKey === 'string' ? config.apiKey : '',
+        baseUrl: typeof config.baseUrl === 'string' ? config.baseUrl : ''
+      };
+    }
+  });
+
+  return { provider, temperature, providers };
+};
+
+// The endpoint requests go to, without a trailing slash
+export const resolveBaseUrl = (id: LlmProviderId, config: ProviderConfig): string =>
+  (config.baseUrl.trim() || getProviderInfo(id).defaultBaseUrl).replace(/\/+$/, '');
@@ -1,4 +1,6 @@
-import { Artifact, ParsedHtml } from "../types";
+import { Artifact, BrandKit, ParsedHtml, SplitOptions } from "../types";
+import { resolveCssUrls, scopeCss } from "./cssScoper";
+import { applyBrandKit } from "./brandKit";
 
 // Helper to determine if an element looks like a "Card" container
 const isCardContainer = (el: Element) => {
@@ -11,10 +13,122 @@ const isCardContainer = (el: Element) => {
   );
 };
 
-// Extract HTML code blocks from Markdown text OR raw HTML input
-export const extractArtifacts = (text: string): Artifact[] => {
+// Decide whether the input is code to render or a natural-language prompt for generation
+export const looksLikeHtml = (text: string): boolean => {
+  const trimmed = text.trim();
+  if (/```html/i.test(trimmed)) return true;
+  if (/<!DOCTYPE html|<html[\s>]/i.test(trimmed)) return true;
+  return /<[a-z][\s\S]*>/i.test(trimmed) && (trimmed.includes('<div') || trimmed.includes('<style'));
+};
+
+export const DEFAULT_SPLIT_OPTIONS: SplitOptions = { mode: 'auto', selector: '' };
+
+// Comments users can put between cards, e.g. <!-- page-break -->
+const SPLIT_MARKER = /<!--\s*(?:page-?break|split|slide-?break)\s*-->/i;
+
+// Filter helper to get significant DOM elements
+const getMeaningfulChildren = (el: Element) => {
+  return Array.from(el.children).filter(child =>
+      !['SCRIPT', 'STYLE', 'LINK', 'META', 'BR', 'NOSCRIPT', 'TEMPLATE'].includes(child.tagName)
+  );
+};
+
+// Whether an element reads as a card or slide of its own rather than a part of one
+const looksLikeCard = (el: Element) =>
+  /card|slide|page|section|item/.test((el.className || '').toLowerCase()) ||
+  ['SECTION', 'ARTICLE', 'ASIDE'].includes(el.tagName);
+
+// Split the body at marker comments wherever they sit. Each piece re-opens the elements the marker
+// was nested in (shallow copies), so a marker between slides inside a wrapper keeps the wrapper.
+const splitAtMarkers = (doc: Document): Element[] => {
+  const isMarker = (node: Node) => node.nodeType === node.COMMENT_NODE && SPLIT_MARKER.test(`<!--${node.nodeValue}-->`);
+  const containsMarker = (node: Node): boolean => Array.from(node.childNodes).some(child => isMarker(child) || containsMarker(child));
+
+  const chunks: { root: Element, hasContent: boolean }[] = [];
+  let path: Element[] = [];
+
+  // display: contents keeps the chunk's own layout while giving us one element per card
+  const startChunk = (ancestors: Element[]) => {
+    const root = doc.createElement('div');
+    root.style.display = 'contents';
+    chunks.push({ root, hasContent: false });
+    path = [root];
+    ancestors.forEach(ancestor => {
+      const copy = ancestor.cloneNode(false) as Element;
+      path[path.length - 1].appendChild(copy);
+      path.push(copy);
+    });
+  };
+
+  const walk = (parent: Element, ancestors: Element[]) => {
+    for (const child of Array.from(parent.childNodes)) {
+      if (isMarker(child)) {
+        startChunk(ancestors);
+      } else if (child.nodeType === child.ELEMENT_NODE && containsMarker(child)) {
+        const copy = child.cloneNode(false) as Element;
+        path[path.length - 1].appendChild(copy);
+        path.push(copy);
+        walk(child as Element, [...ancestors, child as Element]);
+        path.pop();
+      } else {
+        path[path.length - 1].appendChild(child.cloneNode(true));
+        const isBlank = child.nodeType === child.COMMENT_NODE || (child.nodeType === child.TEXT_NODE && !child.textContent?.trim());
+        if (!isBlank) chunks[chunks.length - 1].hasContent = true;
+      }
+    }
+  };
+
+  startChunk([]);
+  walk(doc.body, []);
+  return chunks.filter(chunk => chunk.hasContent).map(chunk => chunk.root);
+};
+
+// Targets for the manual split modes; an empty list means "keep the block whole"
+const getManualTargets = (doc: Document, split: SplitOptions): Element[] => {
+  if (split.mode === 'selector') {
+    try {
+      const matches = Array.from(doc.body.querySelectorAll(split.selector));
+      // Only the outermost matches, so ".slide" inside ".slide" doesn't produce duplicates
+      return matches.filter(el => !matches.some(other => other !== el && other.contains(el)));
+    } catch {
+      console.warn(`Invalid split selector: ${split.selector}`);
+      return [];
+    }
+  }
+
+  if (split.mode === 'marker') {
+    const chunks = splitAtMarkers(doc);
+    return chunks.length < 2 ? [] : chunks;
+  }
+
+  return [];
+};
+
+// Construct a full document for one card carved out of a larger block
+const buildSplitCode = (headContent: string, bodyHtml: string) => `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  ${headContent}
+</head>
+<body style="margin:0; padding:0; background: transparent;">
+  ${bodyHtml}
+</body>
+</html>`;
+
+const getElementTitle = (el: Element, fallback: string) => {
+  const titleText = el.querySelector('h1, h2, h3')?.textContent?.trim() ||
+                    el.getAttribute('title') ||
+                    el.getAttribute('aria-label') ||
+                    fallback;
+  return titleText.length > 30 ? titleText.substring(0, 30) + '...' : titleText;
+};
+
+// Extract HTML code blocks from Markdown text OR raw HTML input.
+// Ids depend only on idSeed and the block's position, so re-extracting a growing stream keeps them stable.
+export const extractArtifacts = (text: string, split: SplitOptions = DEFAULT_SPLIT_OPTIONS, idSeed: number = Date.now()): Artifact[] => {
   const artifacts: Artifact[] = [];
-  const now = Date.now();
+  const now = idSeed;
 
   // 1. Detect blocks (Markdown or Raw)
   let blocks: string[] = [];
@@ -42,19 +156,18 @@ export const extractArtifacts = (text: string): Artifact[] => {
       const doc = parser.parseFromString(block, 'text/html');
       
       const headContent = doc.head.innerHTML;
-      
-      // Filter helper to get significant DOM elements
-      const getMeaningfulChildren = (el: Element) => {
-        return Array.from(el.children).filter(child => 
-            !['SCRIPT', 'STYLE', 'LINK', 'META', 'BR', 'NOSCRIPT', 'TEMPLATE'].includes(child.tagName)
-        );
-      };
 
-      let targets = getMeaningfulChildren(doc.body);
+      let targets = split.mode === 'auto' ? getMeaningfulChildren(doc.body) : getManualTargets(doc, split);
+
+      // Top-level siblings are only separate cards when each looks like one; otherwise they are
+      // the parts of a single card (e.g. a quote and its author) and stay together
+      if (split.mode === 'auto' && targets.length > 1 && !targets.every(looksLikeCard)) {
+        targets = [];
+      }
 
       // --- Nested Structure Handling ---
       // If the body has only one child (e.g., a wrapper div), check if that wrapper contains the cards.
-      if (targets.length === 1) {
+      if (split.mode === 'auto' && targets.length === 1) {
         const container = targets[0];
         const innerChildren = getMeaningfulChildren(container);
         
@@ -110,28 +223,12 @@ export const extractArtifacts = (text: string): Artifact[] => {
       // --- Artifact Generation ---
       if (targets.length > 1) {
         targets.forEach((child, childIndex) => {
-          // Construct a full document for this specific card
-          const titleText = child.querySelector('h1, h2, h3')?.textContent?.trim() || 
-                            child.getAttribute('title') || 
-                            child.getAttribute('aria-label') ||
-                            `Card ${childIndex + 1}`;
-          
-          const splitCode = `<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  ${headContent}
-</head>
-<body style="margin:0; padding:0; background: transparent;">
-  ${child.outerHTML}
-</body>
-</html>`;
-
           artifacts.push({
             id: `artifact-split-${now}-${blockIndex}-${childIndex}`,
-            code: splitCode,
-            title: titleText.length > 30 ? titleText.substring(0, 30) + '...' : titleText,
-            type: 'html'
+            code: buildSplitCode(headContent, child.outerHTML),
+            title: getElementTitle(child, `Card ${childIndex + 1}`),
+            type: 'html',
+            sourceIndex: blockIndex
           });
         });
       } else {
@@ -141,7 +238,8 @@ export const extractArtifacts = (text: string): Artifact[] => {
           id: `artifact-block-${now}-${blockIndex}`,
           code: block,
           title: titleMatch ? titleMatch[1] : `Artifact ${blockIndex + 1}`,
-          type: 'html'
+          type: 'html',
+          sourceIndex: blockIndex
         });
       }
     } catch (e) {
@@ -151,7 +249,8 @@ export const extractArtifacts = (text: string): Artifact[] => {
         id: `artifact-err-${now}-${blockIndex}`,
         code: block,
         title: `Artifact ${blockIndex + 1}`,
-        type: 'html'
+        type: 'html',
+        sourceIndex: blockIndex
       });
     }
   });
@@ -159,24 +258,109 @@ export const extractArtifacts = (text: string): Artifact[] => {
   return artifacts;
 };
 
-// Parse HTML string to separate Style and Body for safe embedding
-export const parseHtmlForPreview = (html: string, wrapperId: string): ParsedHtml => {
-  const doc = new DOMParser().parseFromString(html, 'text/html');
-  
+// Split one artifact further from the results grid: peel off single-child wrappers
+// until a level with several children is found, then make each child its own card.
+export const splitArtifact = (artifact: Artifact): Artifact[] => {
+  const doc = new DOMParser().parseFromString(artifact.code, 'text/html');
+  const markerTargets = getManualTargets(doc, { mode: 'marker', selector: '' });
+
+  let targets = markerTargets.length > 1 ? markerTargets : getMeaningfulChildren(doc.body);
+  while (targets.length === 1) {
+    const inner = getMeaningfulChildren(targets[0]);
+    if (inner.length === 0) break;
+    targets = inner;
+  }
+
+  if (targets.length < 2) return [artifact];
+
+  const now = Date.now();
+  const headContent = doc.head.innerHTML;
+  return targets.map((child, childIndex) => ({
+    ...artifact,
+    id: `artifact-split-${now}-${childIndex}`,
+    code: buildSplitCode(headContent, child.outerHTML),
+    versions: undefined, // Refine history belongs to the whole card
+    title: getElementTitle(child, `${artifact.title} ${childIndex + 1}`)
+  }));
+};
+
+// Merge two adjacent artifacts into one card: the first keeps its document and
+// receives the second's body plus any <head> nodes it doesn't already have.
+export const mergeArtifacts = (first: Artifact, second: Artifact): Artifact => {
+  const target = new DOMParser().parseFromString(first.code, 'text/html');
+  const source = new DOMParser().parseFromString(second.code, 'text/html');
+
+  const existingHead = new Set(Array.from(target.head.children).map(el => el.outerHTML));
+  Array.from(source.head.children).forEach(el => {
+    if (!existingHead.has(el.outerHTML)) target.head.appendChild(target.importNode(el, true));
+  });
+  target.body.insertAdjacentHTML('beforeend', `\n${source.body.innerHTML}`);
+
+  return {
+    ...first,
+    id: `artifact-merged-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    code: `<!DOCTYPE html>\n${target.documentElement.outerHTML}`,
+    versions: undefined
+  };
+};
+
+// Wrap bare snippets in a minimal document so cards render and download standalone.
+// Complete documents are returned untouched; the background only applies to wrapped snippets.
+export const toFullHtml = (artifact: Pick<Artifact, 'code' | 'title'>, background?: string): string => {
+  const code = artifact.code.trim();
+  if (code.match(/^\s*<!DOCTYPE/i) || code.match(/^\s*<html/i)) {
+    return code;
+  }
+  const bodyStyle = background ? `margin:0;padding:0;background:${background};` : 'margin:0;padding:0;';
+  return `<!DOCTYPE html>\n<html lang="ko">\n<head>\n<meta charset="UTF-8">\n<title>${artifact.title}</title>\n</head>\n<body style="${bodyStyle}">\n${code}\n</body>\n</html>`;
+};
+
+// Parse HTML string to separate Style and Body for safe embedding.
+// `externalCss` is the already-fetched text of the linked stylesheets (see loadStylesheets),
+// scoped together with the inline styles so renamed fonts/keyframes stay consistent.
+export const parseHtmlForPreview = (html: string, wrapperId: string, externalCss = '', brandKit?: BrandKit | null): ParsedHtml => {
+  const doc = new DOMParser().parseFromString(applyBrandKit(html, brandKit), 'text/html');
+
   // Extract Styles
   const styles = Array.from(doc.querySelectorAll('style'))
     .map(style => style.innerHTML)
     .join('\n');
 
+  // Linked stylesheets can't be scoped synchronously; collect them for loadStylesheets
+  const links = Array.from(doc.querySelectorAll('link[rel~="stylesheet"]'))
+    .map(link => link.getAttribute('href') || '')
+    .filter(Boolean);
+
+  // Style/link tags inside <body> would otherwise be injected unscoped with the markup
+  doc.body.querySelectorAll('style, link[rel~="stylesheet"]').forEach(el => el.remove());
+
   // Extract Body Content
   const bodyContent = doc.body.innerHTML;
 
   // Scope the CSS
-  // Replaces "body" with the wrapper ID to ensure styles apply within the preview container
-  let scopedStyles = styles.replace(/(^|}|,)\s*body/g, `$1 #${wrapperId}`);
-  
+  // Every selector is prefixed with the wrapper ID (html/:root/body become the wrapper itself)
+  const { css: scopedStyles, imports } = scopeCss(`${externalCss}\n${styles}`, `#${wrapperId}`, wrapperId);
+
   return {
     styles: scopedStyles,
-    bodyContent
+    bodyContent,
+    stylesheets: [...links, ...imports]
   };
-};
\ No newline at end of file
+};
+
+// Fetch linked stylesheets so they can be scoped like inline styles.
+// Sheets that fail to load (e.g. CORS) are skipped rather than injected unscoped.
+export const loadStylesheets = async (urls: string[]): Promise<string> => {
+  const sheets = await Promise.all(urls.map(async (url) => {
+    try {
+      const absolute = new URL(url, window.location.href).href;
+      const res = await fetch(absolute);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return resolveCssUrls(await res.text(), absolute);
+    } catch (e) {
+      console.warn(`Could not load stylesheet for preview: ${url}`, e);
+      return '';
+    }
+  }));
+  return sheets.join('\n');
+};
@@ -0,0 +1,54 @@
+import { GeneratedImage, OutputSize } from "../types";
+
+export interface PdfPage {
+  title: string; // Used as the page bookmark in the PDF outline
+  image: GeneratedImage;
+  size: OutputSize; // Card size in CSS pixels; the page matches it regardless of export scale
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'JPEG',
+  png: 'PNG',
+  webp: 'WEBP'
+};
+
+// jsPDF swaps width/height unless the orientation matches, so derive it from the page itself
+const getOrientation = (size: OutputSize) => (size.width > size.height ? 'landscape' : 'portrait');
+
+// Assemble one page per card using the jsPDF global from index.html
+export const createPdfDocument = (pages: PdfPage[], documentTitle: string): Blob => {
+  const jspdf = (window as any).jspdf;
+  if (!jspdf) {
+    throw new Error("jsPDF is not loaded.");
+  }
+  if (pages.length === 0) {
+    throw new Error("No pages to export.");
+  }
+
+  const first = pages[0].size;
+  const pdf = new jspdf.jsPDF({
+    unit: 'px',
+    format: [first.width, first.height],
+    orientation: getOrientation(first),
+    hotfixes: ['px_scaling'], // 1 unit = 1 CSS pixel instead of jsPDF's legacy 0.75pt scaling
+    compress: true
+  });
+  pdf.setProperties({ title: documentTitle });
+
+  pages.forEach((page, i) => {
+    if (i > 0) {
+      pdf.addPage([page.size.width, page.size.height], getOrientation(page.size));
+    }
+    pdf.addImage(
+      page.image.dataUrl,
+      IMAGE_TYPES[page.image.extension] || 'JPEG',
+      0,
+      0,
+      page.size.width,
+      page.size.height
+    );
+    pdf.outline.add(null, page.title, { pageNumber: i + 1 });
+  });
+
+  return pdf.output('blob');
+};
@@ -0,0 +1,127 @@
+import { OutputSize, PromptSelection, PromptTemplate, PromptVariables } from "../types";
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'carousel',
+    name: 'Carousel',
+    description: 'A swipeable series of slides that tell one story.',
+    instruction: `Style guide: Instagram carousel.
+- Create exactly {slides} slides, each its own {width}x{height} ({aspect}) card, as separate html blocks.
+- Slide 1 is a hook with a short, bold headline; the last slide is a summary or call to action.
+- Keep one idea per slide, at most 30 words of body text.
+- Use the same layout grid, colours and type scale on every slide so the set reads as one piece, and show the slide number (e.g. 2/{slides}).
+- Write in {language} with a {tone} tone.`,
+    builtIn: true
+  },
+  {
+    id: 'quote',
+    name: 'Quote card',
+    description: 'A single quotation with attribution.',
+    instruction: `Style guide: quote card.
+- One {width}x{height} ({aspect}) card.
+- The quotation is the hero: large serif or display type, generous margins, decorative quotation marks.
+- Put the attribution (name, role) below in a smaller, lighter style.
+- Keep the background calm (solid colour, soft gradient or subtle texture) so the text stays readable.
+- Write in {language} with a {tone} tone; quote the words as given without rewriting them.`,
+    builtIn: true
+  },
+  {
+    id: 'infographic',
+    name: 'Infographic',
+    description: 'Numbers, steps or comparisons laid out visually.',
+    instruction: `Style guide: infographic.
+- {slides} card(s) of {width}x{height} ({aspect}); split long content across cards rather than shrinking text.
+- Lead with a clear title, then present data as charts, icons, numbered steps or comparison columns built with HTML/CSS (no images of text).
+- Highlight the key numbers in a large accent colour; label every value.
+- Cite the source in small type at the bottom when one is given.
+- Write in {language} with a {tone} tone.`,
+    builtIn: true
+  },
+  {
+    id: 'event-poster',
+    name: 'Event poster',
+    description: 'Announcement with date, place and call to action.',
+    instruction: `Style guide: event poster.
+- One {width}x{height} ({aspect}) card.
+- Event name as the dominant element; date, time and venue grouped and easy to scan.
+- Include a clear call to action (register, RSVP, tickets) and any URL or handle given.
+- Use a striking, themed visual style with strong contrast.
+- Write in {language} with a {tone} tone.`,
+    builtIn: true
+  },
+  {
+    id: 'youtube-thumbnail',
+    name: 'YouTube thumbnail',
+    description: 'High-contrast thumbnail readable at small sizes.',
+    instruction: `Style guide: YouTube thumbnail.
+- One {width}x{height} ({aspect}) card; it must still read at 320px wide.
+- At most 5 words of very large, heavy text with an outline or shadow for contrast.
+- One focal element (emoji, icon or shape) and saturated colours.
+- Keep the bottom-right corner clear; the video duration covers it.
+- Write in {language} with a {tone} tone.`,
+    builtIn: true
+  }
+];
+
+export const TEMPLATE_VARIABLES = ['slides', 'width', 'height', 'aspect', 'language', 'tone'] as const;
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+export const PROMPT_TONES = ['professional', 'friendly', 'playful', 'bold', 'minimal', 'luxurious', 'informative'];
+export const PROMPT_LANGUAGES = ['English', 'Korean', 'Japanese', 'Chinese', 'Spanish', 'French', 'German'];
+
+export const MIN_SLIDES = 1;
+export const MAX_SLIDES = 20;
+
+export const DEFAULT_PROMPT_SELECTION: PromptSelection = {
+  templateId: null,
+  variables: { slides: 5, language: '', tone: 'professional' }
+};
+
+const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+
+// 1080x1350 -> "4:5"; sizes without a small ratio fall back to a decimal ("1.91:1")
+export const getAspectRatio = (size: OutputSize): string => {
+  const d = gcd(size.width, size.height);
+  const w = size.width / d;
+  const h = size.height / d;
+  if (w <= 32 && h <= 32) return `${w}:${h}`;
+  return size.width >= size.height
+    ? `${(size.width / size.height).toFixed(2).replace(/\.?0+$/, '')}:1`
+    : `1:${(size.height / size.width).toFixed(2).replace(/\.?0+$/, '')}`;
+};
+
+// Variables a template actually uses, so the input panel only shows the relevant controls
+export const findTemplateVariables = (instruction: string): TemplateVariable[] =>
+  TEMPLATE_VARIABLES.filter(name => instruction.includes(`{${name}}`));
+
+export const fillPromptTemplate = (instruction: string, variables: PromptVariables, size: OutputSize): string => {
+  const values: Record<TemplateVariable, string> = {
+    slides: String(variables.slides),
+    width: String(size.width),
+    height: String(size.height),
+    aspect: getAspectRatio(size),
+    language: variables.language.trim() || 'the language of the request',
+    tone: variables.tone.trim() || 'neutral'
+  };
+  return instruction.replace(/\{(\w+)\}/g, (match, name: string) =>
+    (TEMPLATE_VARIABLES as readonly string[]).includes(name) ? values[name as TemplateVariable] : match);
+};
+
+// Built-ins (or the user's saved edits of them) first, then the user's own templates
+export const mergeTemplates = (saved: PromptTemplate[]): PromptTemplate[] => {
+  const overrides = new Map(saved.filter(t => t.builtIn).map(t => [t.id, t]));
+  return [
+    ...BUILT_IN_TEMPLATES.map(t => overrides.get(t.id) ?? t),
+    ...saved.filter(t => !t.builtIn)
+  ];
+};
+
+// Only what differs from the shipped templates needs storing
+export const getSavedTemplates = (templates: PromptTemplate[]): PromptTemplate[] =>
+  templates.filter(t => {
+    if (!t.builtIn) return true;
+    const original = BUILT_IN_TEMPLATES.find(b => b.id === t.id);
+    return !original || original.name !== t.name || original.description !== t.description || original.instruction !== t.instruction;
+  });
+
+export const createTemplateId = () => `template-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
@@ -0,0 +1,18 @@
+import { ReadyMode, RenderSettings, ScriptPolicy } from "../types";
+
+export const DEFAULT_RENDER_SETTINGS: RenderSettings = {
+  scriptPolicy: 'sandboxed',
+  readyMode: 'all',
+  readyTimeout: 10000
+};
+
+export const SCRIPT_POLICIES: ScriptPolicy[] = ['off', 'sandboxed', 'trusted'];
+export const READY_MODES: ReadyMode[] = ['all', 'timeout', 'hook'];
+
+export const MIN_READY_TIMEOUT = 500;
+export const MAX_READY_TIMEOUT = 30000;
+
+// Without allow-same-origin the card runs in an opaque origin and cannot reach the app's DOM or storage
+export const getSandboxAttribute = (policy: ScriptPolicy): string => {
+  return policy === 'trusted' ? 'allow-scripts allow-same-origin' : 'allow-scripts';
+};
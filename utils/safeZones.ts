@@ -0,0 +1,93 @@
+import { OutputSize, SafeZonePresetId, SafeZoneRegionId, SafeZoneSettings } from "../types";
+
+// A part of the card a platform covers with its UI or crops away, in output pixels
+export interface SafeZoneRegion {
+  id: SafeZoneRegionId;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const SAFE_ZONE_PRESETS: SafeZonePresetId[] = ['generic', 'instagram-feed', 'instagram-story', 'tiktok', 'youtube-thumbnail'];
+
+export const DEFAULT_SAFE_ZONE_SETTINGS: SafeZoneSettings = {
+  preset: 'generic',
+  showOverlay: false,
+  check: false
+};
+
+// [left, top, width, height] as fractions of the card. Approximate: the apps move their UI a little between versions.
+type Box = [number, number, number, number];
+
+const UI_REGIONS: Partial<Record<SafeZonePresetId, { id: SafeZoneRegionId, box: Box }[]>> = {
+  generic: [
+    { id: 'margin', box: [0, 0, 1, 0.1] },
+    { id: 'margin', box: [0, 0.9, 1, 0.1] },
+    { id: 'margin', box: [0, 0, 0.1, 1] },
+    { id: 'margin', box: [0.9, 0, 0.1, 1] }
+  ],
+  'instagram-story': [
+    { id: 'top-bar', box: [0, 0, 1, 0.13] },
+    { id: 'caption', box: [0, 0.8, 1, 0.2] },
+    { id: 'actions', box: [0.86, 0.45, 0.14, 0.35] }
+  ],
+  tiktok: [
+    { id: 'top-bar', box: [0, 0, 1, 0.08] },
+    { id: 'caption', box: [0, 0.8, 1, 0.2] },
+    { id: 'actions', box: [0.85, 0.38, 0.15, 0.42] }
+  ],
+  'youtube-thumbnail': [
+    { id: 'timestamp', box: [0.8, 0.85, 0.2, 0.15] }
+  ]
+};
+
+// The bands cut off when an image is cropped to fit between two aspect ratios (width / height), centred
+const getCropRegions = (id: SafeZoneRegionId, size: OutputSize, minRatio: number, maxRatio: number): SafeZoneRegion[] => {
+  const ratio = size.width / size.height;
+  if (ratio < minRatio) {
+    const band = (size.height - size.width / minRatio) / 2;
+    return [
+      { id, left: 0, top: 0, width: size.width, height: band },
+      { id, left: 0, top: size.height - band, width: size.width, height: band }
+    ];
+  }
+  if (ratio > maxRatio) {
+    const band = (size.width - size.height * maxRatio) / 2;
+    return [
+      { id, left: 0, top: 0, width: band, height: size.height },
+      { id, left: size.width - band, top: 0, width: band, height: size.height }
+    ];
+  }
+  return [];
+};
+
+export const getSafeZoneRegions = (preset: SafeZonePresetId, size: OutputSize): SafeZoneRegion[] => {
+  if (preset === 'instagram-feed') {
+    // The feed shows 4:5 to 1.91:1; the profile grid crops to a square. The tighter feed crop is listed first.
+    return [...getCropRegions('feed-crop', size, 4 / 5, 1.91), ...getCropRegions('grid-crop', size, 1, 1)];
+  }
+  return (UI_REGIONS[preset] ?? []).map(({ id, box: [left, top, width, height] }) => ({
+    id,
+    left: left * size.width,
+    top: top * size.height,
+    width: width * size.width,
+    height: height * size.height
+  }));
+};
+
+// The first region a box overlaps by more than a pixel, if any
+export const findCoveringRegion = (
+  rect: { left: number, top: number, right: number, bottom: number },
+  regions: SafeZoneRegion[]
+): SafeZoneRegion | undefined => {
+  return regions.find(region =>
+    Math.min(rect.right, region.left + region.width) - Math.max(rect.left, region.left) > 1 &&
+    Math.min(rect.bottom, region.top + region.height) - Math.max(rect.top, region.top) > 1
+  );
+};
+
+export const normalizeSafeZoneSettings = (value: Partial<SafeZoneSettings> | null | undefined): SafeZoneSettings => {
+  const settings = { ...DEFAULT_SAFE_ZONE_SETTINGS, ...value };
+  return SAFE_ZONE_PRESETS.includes(settings.preset) ? settings : { ...settings, preset: DEFAULT_SAFE_ZONE_SETTINGS.preset };
+};
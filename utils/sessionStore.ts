@@ -0,0 +1,120 @@
+import { Session } from "../types";
+
+// Local session history in IndexedDB. Every call degrades to a no-op (with a warning)
+// when storage is unavailable, e.g. in private browsing, so the app keeps working.
+
+const DB_NAME = 'cardgen';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+export const MAX_SESSIONS = 50;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry instead of caching the failure forever
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const createSessionId = () => `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Newest first
+export const listSessions = async (): Promise<Session[]> => {
+  try {
+    const sessions = await run<Session[]>('readonly', store => store.getAll());
+    return (sessions || []).sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (e) {
+    console.warn("Could not read session history", e);
+    return [];
+  }
+};
+
+export const getLatestSession = async (): Promise<Session | null> => {
+  const sessions = await listSessions();
+  return sessions[0] ?? null;
+};
+
+export const saveSession = async (session: Session): Promise<void> => {
+  try {
+    await run('readwrite', store => store.put(session));
+
+    // Keep the history bounded; the oldest sessions go first
+    const sessions = await listSessions();
+    const stale = sessions.slice(MAX_SESSIONS);
+    if (stale.length > 0) {
+      await run('readwrite', store => { stale.forEach(s => store.delete(s.id)); });
+    }
+  } catch (e) {
+    console.warn("Could not save session", e);
+  }
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  try {
+    await run('readwrite', store => store.delete(id));
+  } catch (e) {
+    console.warn("Could not delete session", e);
+  }
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  try {
+    const session = await run<Session>('readonly', store => store.get(id));
+    if (session) await run('readwrite', store => store.put({ ...session, name }));
+  } catch (e) {
+    console.warn("Could not rename session", e);
+  }
+};
+
+export const duplicateSession = async (session: Session, name: string): Promise<Session> => {
+  const now = Date.now();
+  const copy: Session = { ...session, id: createSessionId(), name, createdAt: now, updatedAt: now };
+  await saveSession(copy);
+  return copy;
+};
+
+// Default name: the first card's title, else the first line of the input that isn't a code fence
+export const getSessionName = (session: Pick<Session, 'input' | 'artifacts'>): string => {
+  const title = session.artifacts[0]?.title;
+  if (title && !/^Artifact \d+$/.test(title)) return title;
+  const firstLine = session.input.split('\n').map(line => line.trim()).find(line => line && !line.startsWith('```')) || '';
+  return firstLine.length > 40 ? `${firstLine.substring(0, 40)}...` : firstLine || 'Untitled';
+};
+
+// Whether new input is an edit of the previous one rather than something else pasted in:
+// an edit keeps most of the text on either side of the changed span
+export const isSameSource = (previous: string, next: string): boolean => {
+  const shorter = Math.min(previous.length, next.length);
+  if (shorter === 0) return false;
+  let prefix = 0;
+  while (prefix < shorter && previous[prefix] === next[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < shorter - prefix && previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]) suffix++;
+  return prefix + suffix >= shorter / 2;
+};
@@ -0,0 +1,32 @@
+import { OutputSize } from "../types";
+
+export type SizePresetId = 'square' | 'portrait' | 'story' | 'linkedin' | 'slide';
+
+export interface SizePreset extends OutputSize {
+  id: SizePresetId;
+}
+
+export const SIZE_PRESETS: SizePreset[] = [
+  { id: 'square', width: 1080, height: 1080 },
+  { id: 'portrait', width: 1080, height: 1350 },
+  { id: 'story', width: 1080, height: 1920 },
+  { id: 'linkedin', width: 1200, height: 627 },
+  { id: 'slide', width: 1920, height: 1080 },
+];
+
+export const DEFAULT_SIZE: OutputSize = { width: 1080, height: 1080 };
+
+// Custom sizes are clamped so a typo cannot create a canvas the browser refuses to allocate
+export const MIN_DIMENSION = 100;
+export const MAX_DIMENSION = 4096;
+
+export const findPreset = (size: OutputSize): SizePreset | undefined => {
+  return SIZE_PRESETS.find(p => p.width === size.width && p.height === size.height);
+};
+
+export const clampDimension = (value: number): number => {
+  if (!Number.isFinite(value)) return MIN_DIMENSION;
+  return Math.min(MAX_DIMENSION, Math.max(MIN_DIMENSION, Math.round(value)));
+};
+
+export const formatSize = (size: OutputSize): string => `${size.width}×${size.height}`;
@@ -0,0 +1,65 @@
+// Minimal HTML/CSS highlighters for the inline card editor. They return markup for a <pre>
+// that sits underneath a transparent textarea, so the output must contain exactly the
+// input characters (escaped) and nothing else.
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const span = (className: string, text: string) => `<span class="${className}">${escapeHtml(text)}</span>`;
+
+const highlightTag = (tag: string) => {
+  const m = /^(<\/?)([^\s/>]*)([\s\S]*?)(\/?>)?$/.exec(tag);
+  if (!m) return escapeHtml(tag);
+
+  const attributes = m[3].replace(
+    /([^\s=]+)(\s*=\s*)?("[^"]*"?|'[^']*'?|[^\s"'>]+)?|(\s+)|([\s\S])/g,
+    (token, name, eq, value, space, other) => {
+      if (space) return space;
+      if (other) return escapeHtml(other);
+      return span('text-amber-600', name) + (eq ? escapeHtml(eq) : '') + (value ? span('text-emerald-600', value) : '');
+    }
+  );
+  return span('text-gray-400', m[1]) + span('text-pink-600', m[2]) + attributes + (m[4] ? span('text-gray-400', m[4]) : '');
+};
+
+export const highlightHtml = (code: string): string => {
+  let result = '';
+  let last = 0;
+  for (const m of code.matchAll(/<!--[\s\S]*?(?:-->|$)|<\/?[a-zA-Z][^<>]*>?|<!DOCTYPE[^>]*>?/gi)) {
+    result += escapeHtml(code.slice(last, m.index));
+    result += m[0].startsWith('<!') ? span('text-gray-400 italic', m[0]) : highlightTag(m[0]);
+    last = m.index! + m[0].length;
+  }
+  return result + escapeHtml(code.slice(last));
+};
+
+export const highlightCss = (code: string): string => {
+  let result = '';
+  let last = 0;
+  let expectProperty = false;
+
+  const tokens = /\/\*[\s\S]*?(?:\*\/|$)|"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?|@[\w-]+|[{};]|[\w-]+(?=\s*:)|#[0-9a-fA-F]{3,8}\b|(?<![\w-])-?\d*\.?\d+(?:[a-z]+|%)?/g;
+  for (const m of code.matchAll(tokens)) {
+    const token = m[0];
+    result += escapeHtml(code.slice(last, m.index));
+    last = m.index! + token.length;
+
+    if (token.startsWith('/*')) {
+      result += span('text-gray-400 italic', token);
+    } else if (token.startsWith('"') || token.startsWith("'")) {
+      result += span('text-emerald-600', token);
+    } else if (token.startsWith('@')) {
+      result += span('text-purple-600', token);
+    } else if (token === '{' || token === ';' || token === '}') {
+      expectProperty = token !== '}';
+      result += span('text-gray-400', token);
+    } else if (expectProperty && /^[\w-]+$/.test(token) && !/^-?\d/.test(token)) {
+      expectProperty = false;
+      result += span('text-sky-700', token);
+    } else if (token.startsWith('#') || /^-?\.?\d/.test(token)) {
+      result += span('text-amber-600', token);
+    } else {
+      result += escapeHtml(token);
+    }
+  }
+  return result + escapeHtml(code.slice(last));
+};
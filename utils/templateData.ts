@@ -0,0 +1,140 @@
+import { Artifact } from "../types";
+
+// Mail-merge support: cards may contain {{field}} placeholders (or {{{field}}} for raw HTML)
+// which are filled from the rows of an uploaded CSV or JSON dataset.
+
+export type DataRow = Record<string, string>;
+
+export interface Dataset {
+  columns: string[];
+  rows: DataRow[];
+}
+
+const PLACEHOLDER = /\{\{(\{?)\s*([\w.-]+)\s*\}?\}\}/g;
+
+// Placeholder names in order of first appearance
+export const findPlaceholders = (code: string): string[] => {
+  const names = new Set<string>();
+  for (const m of code.matchAll(PLACEHOLDER)) names.add(m[2]);
+  return Array.from(names);
+};
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Values are HTML-escaped unless the placeholder uses triple braces; unknown fields become empty
+export const fillTemplate = (template: string, row: DataRow, escape = true): string => {
+  return template.replace(PLACEHOLDER, (_, raw: string, key: string) => {
+    const value = Object.hasOwn(row, key) ? String(row[key]) : '';
+    return escape && !raw ? escapeHtml(value) : value;
+  });
+};
+
+// RFC 4180 CSV: quoted fields may contain delimiters, doubled quotes and line breaks.
+// The delimiter (comma, semicolon or tab) is taken from whichever is most common in the header.
+export const parseCsv = (text: string): Dataset => {
+  const source = text.replace(/^\uFEFF/, '');
+  const header = source.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, d) => header.split(d).length > header.split(best).length ? d : best, ',');
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(cell => cell.trim() !== ''));
+  if (nonEmpty.length === 0) return { columns: [], rows: [] };
+
+  const columns = nonEmpty[0].map((name, i) => name.trim() || `column${i + 1}`);
+  const rows = nonEmpty.slice(1).map(cells =>
+    Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? '']))
+  );
+  return { columns, rows };
+};
+
+// Nested objects become dotted keys: { author: { name } } -> {{author.name}}
+const flatten = (value: unknown, prefix: string, out: DataRow) => {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    Object.entries(value as Record<string, unknown>).forEach(([key, v]) => flatten(v, prefix ? `${prefix}.${key}` : key, out));
+  } else if (prefix) {
+    out[prefix] = value === null || value === undefined ? '' : Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return out;
+};
+
+// An array of objects, or an object wrapping one (e.g. { "rows": [...] })
+export const parseJsonRows = (text: string): Dataset => {
+  const data = JSON.parse(text);
+  const list = Array.isArray(data)
+    ? data
+    : Object.values(data ?? {}).find(Array.isArray);
+  if (!Array.isArray(list)) {
+    throw new Error("JSON data must be an array of objects.");
+  }
+
+  const rows = list.filter(item => item !== null && typeof item === 'object').map(item => flatten(item, '', {}));
+  const columns: string[] = [];
+  rows.forEach(row => Object.keys(row).forEach(key => { if (!columns.includes(key)) columns.push(key); }));
+  return { columns, rows };
+};
+
+// Pick the parser from the file name, falling back to sniffing the content
+export const parseDataset = (text: string, fileName = ''): Dataset => {
+  const isJson = /\.json$/i.test(fileName) || (!/\.(csv|tsv|txt)$/i.test(fileName) && /^\s*[[{]/.test(text));
+  return isJson ? parseJsonRows(text) : parseCsv(text);
+};
+
+// A sensible default card title: a "title"/"name"-like column if there is one, else the first column
+export const getDefaultTitleTemplate = (baseTitle: string, columns: string[]): string => {
+  const preferred = columns.find(c => /^(title|name|heading|headline|이름|제목)$/i.test(c));
+  if (preferred) return `{{${preferred}}}`;
+  return columns.length > 0 ? `${baseTitle} - {{${columns[0]}}}` : baseTitle;
+};
+
+// One card per row; each keeps its row so file name templates can use the fields too
+export const expandTemplate = (artifact: Artifact, rows: DataRow[], titleTemplate: string): Artifact[] => {
+  const stamp = Date.now();
+  return rows.map((row, i) => ({
+    ...artifact,
+    id: `artifact-row-${stamp}-${i}`,
+    code: fillTemplate(artifact.code, row),
+    title: fillTemplate(titleTemplate, row, false).trim() || `${artifact.title} ${i + 1}`,
+    fields: row,
+    versions: undefined
+  }));
+};
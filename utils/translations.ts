@@ -15,19 +15,293 @@ export const translations = {
             processing: "Processing...",
             generateNow: "Generate Now",
             filesLoaded: "files loaded",
-            autoProcessing: "Auto-processing..."
+            autoProcessing: "Auto-processing...",
+            modeAuto: "Auto",
+            modeHtml: "HTML",
+            modePrompt: "Prompt",
+            promptHint: "Prompt detected. Press Generate to create cards with AI.",
+            splitMode: "Split cards",
+            splitModes: {
+                auto: "Auto-detect",
+                never: "Never (one card per block)",
+                selector: "By CSS selector",
+                marker: "By page-break comment"
+            },
+            splitMarkerHint: "Cards are separated by",
+            confirmResplit: "Re-splitting replaces the current cards, including your edits. Continue?",
+            template: "Template",
+            noTemplate: "None (free prompt)",
+            manageTemplates: "Edit templates",
+            slides: "Slides",
+            language: "Language",
+            languagePlaceholder: "Same as prompt",
+            tone: "Tone"
+        },
+        status: {
+            generating: "Generating cards with AI...",
+            cardsReceived: "cards received",
+            noCardsGenerated: "The model did not return any HTML cards. Try rephrasing the prompt.",
+            generationFailed: "Generation failed:",
+            retry: "Retry"
         },
         resultsSection: {
             title: "Generated Previews",
             includeNumbering: "Include File Numbering",
             downloadAllHtml: "Download All HTML",
-            downloadAllImages: "Download All Images",
+            downloadAllImages: "Download All Images (ZIP)",
+            downloadPdf: "Download PDF",
+            includeHtmlInZip: "Include HTML in ZIP",
+            selfContainedHtml: "Self-contained HTML",
+            failedAssets: "Some assets could not be embedded and still point to their original URLs:",
             downloading: "Downloading files... (Please allow multiple downloads)"
         },
         previewCard: {
             htmlBtn: "HTML",
-            jpgBtn: "JPG",
-            failed: "Failed to generate image."
+            failed: "Failed to generate image.",
+            resourcesFailed: "Resources that failed to load",
+            captureTimedOut: "Captured before everything was ready",
+            split: "Split into separate cards",
+            mergeWithNext: "Merge with next card",
+            editCode: "Edit code",
+            moreActions: "More actions",
+            duplicate: "Duplicate",
+            delete: "Delete",
+            dragToReorder: "Drag to reorder",
+            copySuffix: "(copy)",
+            editTitle: "Click to rename",
+            openViewer: "Open full size",
+            fillFromData: "Fill from data…",
+            downloadAnimation: "Download animation",
+            capturingFrames: "Capturing frame",
+            encodingAnimation: "Encoding…",
+            animationFailed: "Failed to export the animation.",
+            htmlFailed: "Failed to export the HTML file.",
+            cannotSplit: "No separate parts were found in this card.",
+            refine: "Refine with a follow-up prompt",
+            refineBtn: "Refine",
+            refinePlaceholder: "e.g. make the headline bigger, switch to a dark theme",
+            refining: "Refining…",
+            versions: "Versions",
+            originalVersion: "Original",
+            editedVersion: "Edited by hand"
+        },
+        viewer: {
+            fit: "Fit",
+            grid: "Grid",
+            safeZone: "Safe zone",
+            present: "Present",
+            close: "Close",
+            previous: "Previous card",
+            next: "Next card",
+            shortcuts: "← → navigate · 0 / 1 / 2 zoom · G grid · S safe zone · P present · Esc close"
+        },
+        history: {
+            title: "History",
+            open: "Open session",
+            newSession: "New",
+            empty: "No saved sessions yet. Your work is saved here automatically.",
+            cards: "cards",
+            current: "current",
+            rename: "Rename",
+            duplicate: "Duplicate",
+            delete: "Delete",
+            confirmDelete: "Delete this session? This cannot be undone.",
+            copySuffix: "(copy)"
+        },
+        promptTemplates: {
+            title: "Prompt templates",
+            builtIn: "Built-in",
+            custom: "Custom",
+            newTemplate: "New template",
+            untitled: "Untitled template",
+            newInstruction: "Style guide:\n- {slides} card(s) of {width}x{height} ({aspect}).\n- Write in {language} with a {tone} tone.",
+            copySuffix: "(copy)",
+            name: "Name",
+            description: "Description",
+            instruction: "Style guide",
+            insertVariable: "Insert variable",
+            instructionHint: "Added to the system prompt when this template is selected. Variables are filled from the input panel; the size comes from the output size.",
+            duplicate: "Duplicate",
+            delete: "Delete",
+            resetBuiltIn: "Reset to original",
+            empty: "No templates",
+            cancel: "Cancel",
+            save: "Save",
+            saveAndUse: "Save and use"
+        },
+        modelSettings: {
+            button: "Model",
+            title: "Model settings",
+            provider: "Provider",
+            model: "Model",
+            temperature: "Temperature",
+            precise: "Precise",
+            creative: "Creative",
+            resetTemperature: "Reset",
+            temperatureCapped: "This provider is capped at",
+            apiKey: "API key",
+            optional: "optional",
+            apiKeyPlaceholder: "Paste your key",
+            showKey: "Show key",
+            hideKey: "Hide key",
+            keyNotice: "Keys are stored in this browser only and sent only to the provider's endpoint.",
+            baseUrl: "Endpoint",
+            baseUrlHint: "Leave empty for the provider's default. Point it at a proxy, a self-hosted model or a local mock server.",
+            missingKey: "Add an API key in Model settings to generate cards.",
+            cancel: "Cancel",
+            save: "Save"
+        },
+        brandKit: {
+            button: "Brand",
+            title: "Brand kit",
+            enabled: "Apply",
+            hint: "Applied to every preview and export, and passed to the AI when generating.",
+            fonts: "Fonts",
+            headingFont: "Heading font, e.g. Playfair Display",
+            bodyFont: "Body font, e.g. Inter",
+            fontStylesheet: "Font stylesheet URL (e.g. Google Fonts)",
+            colors: "Colours",
+            addColor: "Add colour",
+            removeColor: "Remove colour",
+            logo: "Logo watermark",
+            uploadLogo: "Upload",
+            removeLogo: "Remove logo",
+            positions: {
+                none: "Hidden",
+                'top-left': "Top left",
+                'top-right': "Top right",
+                'bottom-left': "Bottom left",
+                'bottom-right': "Bottom right"
+            },
+            logoWidth: "Width",
+            logoOpacity: "Opacity",
+            reset: "Reset to defaults"
+        },
+        safeZones: {
+            button: "Safe zone",
+            title: "Platform safe zones",
+            hint: "Shows where the platform's UI covers the card or where it gets cropped.",
+            presets: {
+                generic: "Generic margin",
+                'instagram-feed': "Instagram feed & grid",
+                'instagram-story': "Instagram Stories / Reels",
+                tiktok: "TikTok",
+                'youtube-thumbnail': "YouTube thumbnail"
+            },
+            zones: {
+                margin: "outer margin",
+                'feed-crop': "cropped in the feed (4:5)",
+                'grid-crop': "cropped in the profile grid (1:1)",
+                'top-bar': "top bar",
+                caption: "caption area",
+                actions: "action buttons",
+                timestamp: "video length badge"
+            },
+            showOverlay: "Show on card previews",
+            check: "Warn about headings in covered areas",
+            checkHint: "Checks h1–h6 and any element marked with data-key."
+        },
+        lint: {
+            title: "Readability check",
+            passed: "No readability issues found",
+            rules: {
+                contrast: "Low contrast",
+                'font-size': "Text too small at this size",
+                overflow: "Text spills outside its box",
+                clipped: "Content cut off at the card edge",
+                'alt-text': "Image without alt text",
+                'safe-zone': "Key element outside the safe zone"
+            },
+            summaryTitle: "Check before downloading",
+            summaryHint: "Some cards have readability problems. They will be exported as they look now.",
+            checkingHint: "Readability checks are still running. The download starts by itself if they all pass.",
+            errors: "errors",
+            warnings: "warnings",
+            pending: "cards still being checked",
+            downloadAnyway: "Download anyway",
+            cancel: "Cancel"
+        },
+        dataMerge: {
+            title: "Fill template from data",
+            placeholders: "Placeholders in this card",
+            data: "Data (CSV or JSON)",
+            upload: "Upload file",
+            dataPlaceholder: "name,price\nAlice,$10\nBob,$12\n\nor [{\"name\": \"Alice\", \"price\": \"$10\"}]",
+            missingColumns: "No column for",
+            preview: "Preview",
+            rows: "rows",
+            cardTitle: "Card title",
+            example: "Example",
+            fileNameHint: "Row fields also work in the file name template, e.g. {index}_{{name}}.",
+            replaceNotice: "This card is replaced by one card per row.",
+            cancel: "Cancel",
+            generate: "Generate cards"
+        },
+        editor: {
+            styles: "Styles",
+            body: "Body",
+            undo: "Undo (Ctrl+Z)",
+            redo: "Redo (Ctrl+Shift+Z)",
+            close: "Close editor"
+        },
+        renderSettings: {
+            title: "Rendering & Scripts",
+            scripts: "Scripts",
+            scriptPolicy: "Script Policy",
+            policies: {
+                off: "Off",
+                sandboxed: "Sandboxed",
+                trusted: "Trusted"
+            },
+            policyHints: {
+                off: "Scripts and inline event handlers are removed before preview and capture.",
+                sandboxed: "Scripts run in an isolated frame with no access to this app.",
+                trusted: "Scripts run with the same origin as this app. Only use for code you trust."
+            },
+            readyMode: "Capture When",
+            readyModes: {
+                all: "All loaded",
+                timeout: "After delay",
+                hook: "Card signals"
+            },
+            readyModeHints: {
+                all: "Waits for images, CSS backgrounds, web fonts and finite animations (up to the max wait).",
+                timeout: "Always waits the full time before capturing.",
+                hook: "Waits until the card calls"
+            },
+            readyTimeout: "Max wait",
+            waitTime: "Wait time"
+        },
+        exportSettings: {
+            title: "Image Export Settings",
+            format: "Format",
+            quality: "Quality",
+            scale: "Device Scale",
+            background: "Background",
+            fill: "Fill",
+            transparent: "Transparent",
+            fillColor: "Fill color",
+            jpgNoAlpha: "JPG does not support transparency; the fill color is always used.",
+            fileName: "File name (all downloads)",
+            fileNameExample: "Example",
+            exampleTitle: "Morning Routine",
+            animation: "Animation (cards with CSS animations)",
+            fps: "Frame rate",
+            duration: "Duration",
+            videoUnsupported: "This browser cannot record video; use GIF instead.",
+            animationHint: "Captured at 1× by stepping the animation timeline."
+        },
+        sizes: {
+            label: "Output Size",
+            inherit: "Session size",
+            square: "Square",
+            portrait: "Instagram Portrait",
+            story: "Story",
+            linkedin: "LinkedIn",
+            slide: "Slide",
+            custom: "Custom",
+            width: "Width",
+            height: "Height"
         }
     },
     ko: {
@@ -44,19 +318,293 @@ export const translations = {
             processing: "처리 중...",
             generateNow: "지금 생성하기",
             filesLoaded: "개 파일 로드됨",
-            autoProcessing: "자동 처리 중..."
+            autoProcessing: "자동 처리 중...",
+            modeAuto: "자동",
+            modeHtml: "HTML",
+            modePrompt: "프롬프트",
+            promptHint: "프롬프트가 감지되었습니다. 생성 버튼을 누르면 AI로 카드를 만듭니다.",
+            splitMode: "카드 분할",
+            splitModes: {
+                auto: "자동 감지",
+                never: "분할 안 함 (블록당 카드 1개)",
+                selector: "CSS 선택자 기준",
+                marker: "페이지 구분 주석 기준"
+            },
+            splitMarkerHint: "카드 구분 주석:",
+            confirmResplit: "다시 나누면 수정한 내용을 포함해 현재 카드가 모두 바뀝니다. 계속할까요?",
+            template: "템플릿",
+            noTemplate: "없음 (자유 프롬프트)",
+            manageTemplates: "템플릿 편집",
+            slides: "장수",
+            language: "언어",
+            languagePlaceholder: "프롬프트와 동일",
+            tone: "톤"
+        },
+        status: {
+            generating: "AI로 카드 생성 중...",
+            cardsReceived: "개 카드 수신",
+            noCardsGenerated: "모델이 HTML 카드를 반환하지 않았습니다. 프롬프트를 바꿔 다시 시도하세요.",
+            generationFailed: "생성 실패:",
+            retry: "다시 시도"
         },
         resultsSection: {
             title: "생성된 미리보기",
             includeNumbering: "파일명 순번 포함",
             downloadAllHtml: "전체 HTML 다운로드",
-            downloadAllImages: "전체 이미지 다운로드",
+            downloadAllImages: "전체 이미지 다운로드 (ZIP)",
+            downloadPdf: "PDF 다운로드",
+            includeHtmlInZip: "ZIP에 HTML 포함",
+            selfContainedHtml: "독립 실행형 HTML",
+            failedAssets: "일부 리소스를 포함하지 못해 원래 URL을 그대로 참조합니다:",
             downloading: "다운로드 중입니다... (여러 파일 다운로드를 허용해주세요)"
         },
         previewCard: {
             htmlBtn: "HTML",
-            jpgBtn: "JPG",
-            failed: "이미지 생성 실패."
+            failed: "이미지 생성 실패.",
+            resourcesFailed: "불러오지 못한 리소스",
+            captureTimedOut: "모든 리소스가 준비되기 전에 캡처됨",
+            split: "여러 카드로 분할",
+            mergeWithNext: "다음 카드와 병합",
+            editCode: "코드 편집",
+            moreActions: "더보기",
+            duplicate: "복제",
+            delete: "삭제",
+            dragToReorder: "드래그하여 순서 변경",
+            copySuffix: "(사본)",
+            editTitle: "클릭하여 이름 변경",
+            openViewer: "원본 크기로 보기",
+            fillFromData: "데이터로 채우기…",
+            downloadAnimation: "애니메이션 다운로드",
+            capturingFrames: "프레임 캡처 중",
+            encodingAnimation: "인코딩 중…",
+            animationFailed: "애니메이션을 내보내지 못했습니다.",
+            htmlFailed: "HTML 파일을 내보내지 못했습니다.",
+            cannotSplit: "이 카드에서 분리할 수 있는 부분을 찾지 못했습니다.",
+            refine: "후속 프롬프트로 다듬기",
+            refineBtn: "다듬기",
+            refinePlaceholder: "예: 제목을 더 크게, 다크 테마로 변경",
+            refining: "다듬는 중…",
+            versions: "버전",
+            originalVersion: "원본",
+            editedVersion: "직접 수정함"
+        },
+        viewer: {
+            fit: "맞춤",
+            grid: "격자",
+            safeZone: "안전 영역",
+            present: "발표",
+            close: "닫기",
+            previous: "이전 카드",
+            next: "다음 카드",
+            shortcuts: "← → 이동 · 0 / 1 / 2 확대 · G 격자 · S 안전 영역 · P 발표 · Esc 닫기"
+        },
+        history: {
+            title: "기록",
+            open: "세션 열기",
+            newSession: "새로 만들기",
+            empty: "저장된 세션이 없습니다. 작업 내용은 여기에 자동으로 저장됩니다.",
+            cards: "개 카드",
+            current: "현재",
+            rename: "이름 변경",
+            duplicate: "복제",
+            delete: "삭제",
+            confirmDelete: "이 세션을 삭제할까요? 되돌릴 수 없습니다.",
+            copySuffix: "(사본)"
+        },
+        promptTemplates: {
+            title: "프롬프트 템플릿",
+            builtIn: "기본 제공",
+            custom: "사용자 정의",
+            newTemplate: "새 템플릿",
+            untitled: "제목 없는 템플릿",
+            newInstruction: "스타일 가이드:\n- {width}x{height} ({aspect}) 카드 {slides}장.\n- {language}로 {tone} 톤으로 작성.",
+            copySuffix: "(사본)",
+            name: "이름",
+            description: "설명",
+            instruction: "스타일 가이드",
+            insertVariable: "변수 삽입",
+            instructionHint: "이 템플릿을 선택하면 시스템 프롬프트에 추가됩니다. 변수는 입력 패널에서 채워지며, 크기는 출력 크기를 따릅니다.",
+            duplicate: "복제",
+            delete: "삭제",
+            resetBuiltIn: "원래대로",
+            empty: "템플릿 없음",
+            cancel: "취소",
+            save: "저장",
+            saveAndUse: "저장 후 사용"
+        },
+        modelSettings: {
+            button: "모델",
+            title: "모델 설정",
+            provider: "제공자",
+            model: "모델",
+            temperature: "온도",
+            precise: "정확하게",
+            creative: "창의적으로",
+            resetTemperature: "초기화",
+            temperatureCapped: "이 제공자의 최대값:",
+            apiKey: "API 키",
+            optional: "선택",
+            apiKeyPlaceholder: "키를 붙여넣으세요",
+            showKey: "키 보기",
+            hideKey: "키 숨기기",
+            keyNotice: "키는 이 브라우저에만 저장되며 제공자의 엔드포인트로만 전송됩니다.",
+            baseUrl: "엔드포인트",
+            baseUrlHint: "비워 두면 제공자의 기본 주소를 사용합니다. 프록시, 자체 호스팅 모델 또는 로컬 목 서버를 지정할 수 있습니다.",
+            missingKey: "카드를 생성하려면 모델 설정에서 API 키를 추가하세요.",
+            cancel: "취소",
+            save: "저장"
+        },
+        brandKit: {
+            button: "브랜드",
+            title: "브랜드 키트",
+            enabled: "적용",
+            hint: "모든 미리보기와 내보내기에 적용되고, 생성 시 AI에게도 전달됩니다.",
+            fonts: "글꼴",
+            headingFont: "제목 글꼴 (예: Noto Serif KR)",
+            bodyFont: "본문 글꼴 (예: Pretendard)",
+            fontStylesheet: "글꼴 스타일시트 URL (예: Google Fonts)",
+            colors: "색상",
+            addColor: "색상 추가",
+            removeColor: "색상 삭제",
+            logo: "로고 워터마크",
+            uploadLogo: "업로드",
+            removeLogo: "로고 삭제",
+            positions: {
+                none: "숨김",
+                'top-left': "왼쪽 위",
+                'top-right': "오른쪽 위",
+                'bottom-left': "왼쪽 아래",
+                'bottom-right': "오른쪽 아래"
+            },
+            logoWidth: "너비",
+            logoOpacity: "불투명도",
+            reset: "기본값으로 초기화"
+        },
+        safeZones: {
+            button: "안전 영역",
+            title: "플랫폼 안전 영역",
+            hint: "플랫폼 UI가 카드를 가리거나 잘라내는 영역을 표시합니다.",
+            presets: {
+                generic: "기본 여백",
+                'instagram-feed': "인스타그램 피드 & 그리드",
+                'instagram-story': "인스타그램 스토리 / 릴스",
+                tiktok: "틱톡",
+                'youtube-thumbnail': "유튜브 썸네일"
+            },
+            zones: {
+                margin: "바깥 여백",
+                'feed-crop': "피드에서 잘림 (4:5)",
+                'grid-crop': "프로필 그리드에서 잘림 (1:1)",
+                'top-bar': "상단 바",
+                caption: "캡션 영역",
+                actions: "액션 버튼",
+                timestamp: "영상 길이 표시"
+            },
+            showOverlay: "카드 미리보기에 표시",
+            check: "가려지는 영역의 제목 경고",
+            checkHint: "h1–h6 및 data-key 속성이 있는 요소를 검사합니다."
+        },
+        lint: {
+            title: "가독성 검사",
+            passed: "가독성 문제 없음",
+            rules: {
+                contrast: "명도 대비 부족",
+                'font-size': "이 크기에서 글자가 너무 작음",
+                overflow: "텍스트가 영역 밖으로 넘침",
+                clipped: "카드 가장자리에서 잘린 콘텐츠",
+                'alt-text': "대체 텍스트(alt) 없는 이미지",
+                'safe-zone': "안전 영역 밖의 주요 요소"
+            },
+            summaryTitle: "다운로드 전 확인",
+            summaryHint: "일부 카드에 가독성 문제가 있습니다. 현재 모습 그대로 내보내집니다.",
+            checkingHint: "가독성 검사가 아직 진행 중입니다. 모두 통과하면 다운로드가 자동으로 시작됩니다.",
+            errors: "오류",
+            warnings: "경고",
+            pending: "개 카드 검사 중",
+            downloadAnyway: "그대로 다운로드",
+            cancel: "취소"
+        },
+        dataMerge: {
+            title: "데이터로 템플릿 채우기",
+            placeholders: "이 카드의 자리표시자",
+            data: "데이터 (CSV 또는 JSON)",
+            upload: "파일 업로드",
+            dataPlaceholder: "name,price\n민지,10000원\n서준,12000원\n\n또는 [{\"name\": \"민지\", \"price\": \"10000원\"}]",
+            missingColumns: "열이 없는 항목",
+            preview: "미리보기",
+            rows: "행",
+            cardTitle: "카드 제목",
+            example: "예시",
+            fileNameHint: "행 필드는 파일 이름 템플릿에서도 사용할 수 있습니다. 예: {index}_{{name}}",
+            replaceNotice: "이 카드는 행마다 하나씩 생성된 카드로 바뀝니다.",
+            cancel: "취소",
+            generate: "카드 생성"
+        },
+        editor: {
+            styles: "스타일",
+            body: "본문",
+            undo: "실행 취소 (Ctrl+Z)",
+            redo: "다시 실행 (Ctrl+Shift+Z)",
+            close: "편집기 닫기"
+        },
+        renderSettings: {
+            title: "렌더링 및 스크립트",
+            scripts: "스크립트",
+            scriptPolicy: "스크립트 정책",
+            policies: {
+                off: "끄기",
+                sandboxed: "샌드박스",
+                trusted: "신뢰"
+            },
+            policyHints: {
+                off: "미리보기와 캡처 전에 스크립트와 인라인 이벤트 핸들러를 제거합니다.",
+                sandboxed: "스크립트는 이 앱에 접근할 수 없는 격리된 프레임에서 실행됩니다.",
+                trusted: "스크립트가 이 앱과 같은 출처에서 실행됩니다. 신뢰할 수 있는 코드에만 사용하세요."
+            },
+            readyMode: "캡처 시점",
+            readyModes: {
+                all: "모두 로드됨",
+                timeout: "지정 시간 후",
+                hook: "카드 신호"
+            },
+            readyModeHints: {
+                all: "이미지, CSS 배경, 웹 폰트, 유한 애니메이션이 끝날 때까지 기다립니다 (최대 대기 시간까지).",
+                timeout: "캡처 전에 항상 지정한 시간만큼 기다립니다.",
+                hook: "카드에서 다음을 호출할 때까지 기다립니다:"
+            },
+            readyTimeout: "최대 대기",
+            waitTime: "대기 시간"
+        },
+        exportSettings: {
+            title: "이미지 내보내기 설정",
+            format: "형식",
+            quality: "품질",
+            scale: "배율",
+            background: "배경",
+            fill: "채우기",
+            transparent: "투명",
+            fillColor: "채우기 색상",
+            jpgNoAlpha: "JPG는 투명도를 지원하지 않아 항상 채우기 색상이 사용됩니다.",
+            fileName: "파일 이름 (모든 다운로드)",
+            fileNameExample: "예시",
+            exampleTitle: "아침 루틴",
+            animation: "애니메이션 (CSS 애니메이션이 있는 카드)",
+            fps: "프레임 속도",
+            duration: "길이",
+            videoUnsupported: "이 브라우저는 동영상 녹화를 지원하지 않습니다. GIF를 사용하세요.",
+            animationHint: "애니메이션 타임라인을 단계별로 이동하며 1× 배율로 캡처합니다."
+        },
+        sizes: {
+            label: "출력 크기",
+            inherit: "세션 크기",
+            square: "정사각형",
+            portrait: "인스타그램 세로",
+            story: "스토리",
+            linkedin: "링크드인",
+            slide: "슬라이드",
+            custom: "사용자 지정",
+            width: "너비",
+            height: "높이"
         }
     }
 };
@@ -0,0 +1,56 @@
+export interface ZipFile {
+  path: string;
+  content: string;
+  base64?: boolean;
+}
+
+export interface ZipManifestItem {
+  index: number;
+  title: string;
+  image: string | null;
+  html: string | null;
+  width: number | null;
+  height: number | null;
+  sourceIndex: number | null;
+  failedResources: string[];
+}
+
+export interface ZipManifest {
+  generatedAt: string;
+  count: number;
+  items: ZipManifestItem[];
+}
+
+// Strip the "data:image/jpeg;base64," header so JSZip can store the raw bytes
+export const dataUrlToBase64 = (dataUrl: string): string => {
+  return dataUrl.substring(dataUrl.indexOf(',') + 1);
+};
+
+// Avoid silently overwriting entries when two cards share a title (e.g. numbering turned off)
+export const getUniquePath = (path: string, used: Set<string>): string => {
+  if (!used.has(path)) return path;
+
+  const dot = path.lastIndexOf('.');
+  const base = dot > 0 ? path.substring(0, dot) : path;
+  const ext = dot > 0 ? path.substring(dot) : '';
+
+  let n = 2;
+  while (used.has(`${base} (${n})${ext}`)) n++;
+  return `${base} (${n})${ext}`;
+};
+
+// Bundle all files plus a manifest.json into a single archive using the JSZip global from index.html
+export const createZipArchive = async (files: ZipFile[], manifest: ZipManifest): Promise<Blob> => {
+  const JSZip = (window as any).JSZip;
+  if (!JSZip) {
+    throw new Error("JSZip is not loaded.");
+  }
+
+  const zip = new JSZip();
+  files.forEach(file => {
+    zip.file(file.path, file.content, { base64: !!file.base64 });
+  });
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob' });
+};